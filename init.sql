@@ -2,11 +2,26 @@
 CREATE TYPE order_status AS ENUM ('pending', 'scheduled', 'in_progress', 'completed', 'cancelled');
 CREATE TYPE resource_type AS ENUM ('machine', 'worker', 'material');
 CREATE TYPE resource_status AS ENUM ('available', 'in_use', 'maintenance', 'unavailable');
+CREATE TYPE user_role AS ENUM ('planner', 'operator', 'viewer');
+CREATE TYPE downtime_kind AS ENUM ('maintenance', 'holiday');
+CREATE TYPE stock_movement_type AS ENUM ('receipt', 'adjustment', 'reserve', 'release', 'consume');
+CREATE TYPE stock_state AS ENUM ('reserved', 'consumed', 'released');
+CREATE TYPE dependency_type AS ENUM ('finish_to_start', 'start_to_start');
+
+-- Product Catalogue; each product has a bill of materials and a routing
+CREATE TABLE products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) UNIQUE NOT NULL,
+    description TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
 
 -- Production Orders Table
 CREATE TABLE production_orders (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     order_number VARCHAR(50) UNIQUE NOT NULL,
+    product_id UUID REFERENCES products(id) ON DELETE SET NULL,
     product_name VARCHAR(255) NOT NULL,
     quantity INTEGER NOT NULL CHECK (quantity > 0),
     status order_status NOT NULL DEFAULT 'pending',
@@ -15,9 +30,13 @@ CREATE TABLE production_orders (
     scheduled_end TIMESTAMPTZ,
     actual_start TIMESTAMPTZ,
     actual_end TIMESTAMPTZ,
+    -- Reported output, maintained by production_reports
+    good_quantity INTEGER NOT NULL DEFAULT 0,
+    scrap_quantity INTEGER NOT NULL DEFAULT 0,
     notes TEXT,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (scheduled_end IS NULL OR scheduled_start IS NULL OR scheduled_end > scheduled_start)
 );
 
 -- Resources Table (Machines, Workers, Materials)
@@ -27,12 +46,50 @@ CREATE TABLE resources (
     type resource_type NOT NULL,
     status resource_status NOT NULL DEFAULT 'available',
     capacity DECIMAL(10,2),
+    -- Machines and workers are costed per hour, materials per unit
     hourly_cost DECIMAL(10,2),
+    unit_cost DECIMAL(10,2),
     description TEXT,
+    status_reason TEXT,
+    -- Inventory, materials only. Maintained by stock_movements; available
+    -- stock is stock_on_hand - stock_reserved.
+    stock_on_hand DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (stock_on_hand >= 0),
+    stock_reserved DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (stock_reserved >= 0),
+    reorder_point DECIMAL(10,2),
+    -- Set when the resource is retired: it keeps its allocation history but
+    -- stays unavailable and takes no new work
+    decommissioned_at TIMESTAMPTZ,
+    -- IANA zone its shifts are read in (resource_shifts holds wall-clock times)
+    time_zone TEXT NOT NULL DEFAULT 'UTC'
+        CHECK ((TIMESTAMPTZ '2000-01-01 00:00+00' AT TIME ZONE time_zone) IS NOT NULL),
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Bill of materials: material consumed per unit of product
+CREATE TABLE product_materials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+    quantity_per_unit DECIMAL(10,4) NOT NULL CHECK (quantity_per_unit > 0),
+    UNIQUE(product_id, resource_id)
+);
+
+-- Routing: operations run in sequence order, each on a machine or by a
+-- worker. resource_id is the preferred resource; any free one of the same
+-- type is used when it is busy.
+CREATE TABLE product_operations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    resource_type resource_type NOT NULL CHECK (resource_type <> 'material'),
+    resource_id UUID REFERENCES resources(id) ON DELETE SET NULL,
+    setup_minutes DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (setup_minutes >= 0),
+    run_minutes_per_unit DECIMAL(10,2) NOT NULL CHECK (run_minutes_per_unit >= 0),
+    UNIQUE(product_id, sequence)
+);
+
 -- Resource Allocations (Junction Table)
 CREATE TABLE resource_allocations (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -42,9 +99,26 @@ CREATE TABLE resource_allocations (
     start_time TIMESTAMPTZ NOT NULL,
     end_time TIMESTAMPTZ,
     notes TEXT,
+    override_conflicts BOOLEAN NOT NULL DEFAULT FALSE,
+    override_reason TEXT,
+    -- Set for material allocations: whether the stock is held, used or given back
+    stock_state stock_state,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-    UNIQUE(order_id, resource_id, start_time)
+    UNIQUE(order_id, resource_id, start_time),
+    CHECK (end_time IS NULL OR end_time > start_time)
+);
+
+-- Order dependencies: the successor may not start before the predecessor
+-- finishes (finish_to_start) or starts (start_to_start)
+CREATE TABLE order_dependencies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    predecessor_id UUID NOT NULL REFERENCES production_orders(id) ON DELETE CASCADE,
+    successor_id UUID NOT NULL REFERENCES production_orders(id) ON DELETE CASCADE,
+    dependency_type dependency_type NOT NULL DEFAULT 'finish_to_start',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(predecessor_id, successor_id),
+    CHECK (predecessor_id <> successor_id)
 );
 
 -- Order History/Audit Log (Event Sourcing)
@@ -59,14 +133,179 @@ CREATE TABLE order_events (
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Resource History/Audit Log
+CREATE TABLE resource_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL,
+    old_status resource_status,
+    new_status resource_status,
+    changed_by VARCHAR(255),
+    reason TEXT,
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Stock ledger for materials. Every change to stock_on_hand/stock_reserved
+-- goes through here; allocation_id is kept after the allocation is deleted.
+CREATE TABLE stock_movements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+    movement_type stock_movement_type NOT NULL,
+    quantity DECIMAL(10,2) NOT NULL,
+    order_id UUID REFERENCES production_orders(id) ON DELETE SET NULL,
+    allocation_id UUID,
+    on_hand_after DECIMAL(10,2),
+    reserved_after DECIMAL(10,2),
+    note TEXT,
+    changed_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (movement_type = 'adjustment' OR quantity > 0)
+);
+
+-- Good and scrap output reported while an order is in progress, for the
+-- order as a whole, one of its allocations or one routing operation
+CREATE TABLE production_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id UUID NOT NULL REFERENCES production_orders(id) ON DELETE CASCADE,
+    allocation_id UUID REFERENCES resource_allocations(id) ON DELETE SET NULL,
+    operation_id UUID REFERENCES product_operations(id) ON DELETE SET NULL,
+    good_quantity INTEGER NOT NULL DEFAULT 0 CHECK (good_quantity >= 0),
+    scrap_quantity INTEGER NOT NULL DEFAULT 0 CHECK (scrap_quantity >= 0),
+    note TEXT,
+    reported_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (good_quantity + scrap_quantity > 0),
+    CHECK (allocation_id IS NULL OR operation_id IS NULL)
+);
+
+-- Weekly working hours in the resource's time_zone; a resource with no shifts
+-- is available around the clock. day_of_week follows EXTRACT(DOW): 0 = Sunday.
+-- Shifts that cross midnight are entered as two rows.
+CREATE TABLE resource_shifts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+    day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+-- Planned maintenance and holidays. A holiday without a resource_id closes
+-- every resource.
+CREATE TABLE resource_downtime_windows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id UUID REFERENCES resources(id) ON DELETE CASCADE,
+    kind downtime_kind NOT NULL,
+    starts_at TIMESTAMPTZ NOT NULL,
+    ends_at TIMESTAMPTZ NOT NULL,
+    reason TEXT,
+    status_applied_at TIMESTAMPTZ,
+    status_released_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (ends_at > starts_at),
+    CHECK (kind = 'holiday' OR resource_id IS NOT NULL)
+);
+
+-- Application users; the actions handler checks passwords and issues JWTs
+-- carrying the Hasura role claims
+CREATE TABLE app_users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email VARCHAR(255) UNIQUE NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    password_hash TEXT NOT NULL,
+    role user_role NOT NULL DEFAULT 'viewer',
+    -- The worker or machine an operator account works as; carried in the
+    -- JWT as x-hasura-resource-id for the operator view
+    resource_id UUID REFERENCES resources(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Legal order lifecycle moves: pending -> scheduled -> in_progress -> completed,
+-- with cancelled reachable from every non-terminal state
+CREATE TABLE order_status_transitions (
+    from_status order_status NOT NULL,
+    to_status order_status NOT NULL,
+    PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO order_status_transitions (from_status, to_status) VALUES
+    ('pending', 'scheduled'),
+    ('pending', 'cancelled'),
+    ('scheduled', 'in_progress'),
+    ('scheduled', 'cancelled'),
+    ('in_progress', 'completed'),
+    ('in_progress', 'cancelled');
+
+-- Reasons operators pick when pausing an order or reporting an issue; issue
+-- reasons also classify downtime records. Planners maintain the list and
+-- retire codes by deactivating them.
+CREATE TABLE reason_codes (
+    code VARCHAR(50) PRIMARY KEY,
+    category VARCHAR(20) NOT NULL CHECK (category IN ('pause', 'issue')),
+    label VARCHAR(255) NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE
+);
+
+INSERT INTO reason_codes (code, category, label) VALUES
+    ('break', 'pause', 'Break'),
+    ('shift_change', 'pause', 'Shift change'),
+    ('setup', 'pause', 'Setup / changeover'),
+    ('waiting_material', 'pause', 'Waiting for material'),
+    ('waiting_instructions', 'pause', 'Waiting for instructions'),
+    ('machine_fault', 'issue', 'Machine fault'),
+    ('quality_problem', 'issue', 'Quality problem'),
+    ('material_shortage', 'issue', 'Material shortage'),
+    ('tooling', 'issue', 'Tooling worn or broken'),
+    ('safety', 'issue', 'Safety concern'),
+    ('power_outage', 'issue', 'Power outage');
+
+-- Breakdowns and other issues on a resource, optionally holding up an order.
+-- Open while ended_at is NULL; takes_resource_down marks the resource
+-- unavailable until the record is closed.
+CREATE TABLE downtime_records (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+    order_id UUID REFERENCES production_orders(id) ON DELETE SET NULL,
+    reason_code VARCHAR(50) NOT NULL REFERENCES reason_codes(code) ON UPDATE CASCADE,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMPTZ,
+    takes_resource_down BOOLEAN NOT NULL DEFAULT FALSE,
+    notes TEXT,
+    reported_by VARCHAR(255),
+    resolved_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (ended_at IS NULL OR ended_at > started_at)
+);
+
 -- Create indexes for better query performance
 CREATE INDEX idx_production_orders_status ON production_orders(status);
-CREATE INDEX idx_production_orders_scheduled_start ON production_orders(scheduled_start);
+CREATE INDEX idx_production_orders_scheduled_start ON production_orders(scheduled_start, id);
+CREATE INDEX idx_production_orders_priority ON production_orders(priority DESC, scheduled_start, id);
 CREATE INDEX idx_resources_type_status ON resources(type, status);
 CREATE INDEX idx_resource_allocations_order_id ON resource_allocations(order_id);
 CREATE INDEX idx_resource_allocations_resource_id ON resource_allocations(resource_id);
 CREATE INDEX idx_order_events_order_id ON order_events(order_id);
 CREATE INDEX idx_order_events_created_at ON order_events(created_at DESC);
+CREATE INDEX idx_resource_events_resource_id ON resource_events(resource_id, created_at);
+CREATE INDEX idx_production_orders_product_id ON production_orders(product_id);
+CREATE INDEX idx_order_dependencies_successor_id ON order_dependencies(successor_id);
+CREATE INDEX idx_production_reports_order_id ON production_reports(order_id, created_at DESC);
+CREATE INDEX idx_downtime_records_resource_id ON downtime_records(resource_id, started_at DESC);
+CREATE INDEX idx_downtime_records_order_id ON downtime_records(order_id) WHERE ended_at IS NULL;
+CREATE INDEX idx_stock_movements_resource_id ON stock_movements(resource_id, created_at DESC);
+CREATE INDEX idx_resource_shifts_resource_id ON resource_shifts(resource_id, day_of_week);
+CREATE INDEX idx_resource_downtime_windows_range ON resource_downtime_windows(resource_id, starts_at, ends_at);
+
+-- Trigram indexes for the orders list search, which matches anywhere in the
+-- order number or product name
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX idx_production_orders_order_number_trgm ON production_orders USING gin (order_number gin_trgm_ops);
+CREATE INDEX idx_production_orders_product_name_trgm ON production_orders USING gin (product_name gin_trgm_ops);
 
 -- Function to automatically update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -87,13 +326,42 @@ CREATE TRIGGER update_resources_updated_at BEFORE UPDATE ON resources
 CREATE TRIGGER update_resource_allocations_updated_at BEFORE UPDATE ON resource_allocations
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_app_users_updated_at BEFORE UPDATE ON app_users
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_downtime_records_updated_at BEFORE UPDATE ON downtime_records
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_resource_downtime_windows_updated_at BEFORE UPDATE ON resource_downtime_windows
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Name of the user behind the current Hasura request, read from the session
+-- variables Hasura sets in hasura.user. Falls back to the role (e.g. admin),
+-- and is NULL for changes made directly in the database.
+CREATE OR REPLACE FUNCTION current_actor()
+RETURNS VARCHAR AS $$
+DECLARE
+    session JSONB := NULLIF(current_setting('hasura.user', true), '')::jsonb;
+    actor VARCHAR;
+BEGIN
+    IF session IS NULL THEN
+        RETURN NULL;
+    END IF;
+    SELECT name INTO actor FROM app_users WHERE id::text = session->>'x-hasura-user-id';
+    RETURN COALESCE(actor, session->>'x-hasura-role');
+END;
+$$ language 'plpgsql';
+
 -- Function to log order status changes (Event Sourcing)
 CREATE OR REPLACE FUNCTION log_order_status_change()
 RETURNS TRIGGER AS $$
 BEGIN
     IF (TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status) THEN
-        INSERT INTO order_events (order_id, event_type, old_status, new_status, metadata)
-        VALUES (NEW.id, 'status_change', OLD.status, NEW.status, 
+        INSERT INTO order_events (order_id, event_type, old_status, new_status, changed_by, metadata)
+        VALUES (NEW.id, 'status_change', OLD.status, NEW.status, current_actor(),
                 jsonb_build_object(
                     'order_number', NEW.order_number,
                     'product_name', NEW.product_name
@@ -109,6 +377,1663 @@ CREATE TRIGGER log_production_order_status_change
     FOR EACH ROW 
     EXECUTE FUNCTION log_order_status_change();
 
+-- Function to reject status changes that skip or reverse the lifecycle
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (OLD.status IS DISTINCT FROM NEW.status AND NOT EXISTS (
+        SELECT 1 FROM order_status_transitions
+        WHERE from_status = OLD.status AND to_status = NEW.status
+    )) THEN
+        RAISE EXCEPTION 'invalid status transition: % -> %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation',
+                  HINT = 'See order_status_transitions for the allowed moves';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER enforce_production_order_status_transition
+    BEFORE UPDATE OF status ON production_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_order_status_transition();
+
+-- Function to stamp when work actually starts and finishes
+CREATE OR REPLACE FUNCTION stamp_order_actual_times()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (OLD.status IS DISTINCT FROM NEW.status) THEN
+        IF (NEW.status = 'in_progress' AND NEW.actual_start IS NULL) THEN
+            NEW.actual_start = NOW();
+        ELSIF (NEW.status = 'completed' AND NEW.actual_end IS NULL) THEN
+            NEW.actual_end = NOW();
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER stamp_production_order_actual_times
+    BEFORE UPDATE OF status ON production_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_order_actual_times();
+
+-- Why the scheduled dates of two dependent orders break their dependency, or
+-- NULL when they fit. Cancelled orders and missing dates never constrain.
+CREATE OR REPLACE FUNCTION dependency_schedule_issue(pred production_orders, succ production_orders, kind dependency_type)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN pred.status = 'cancelled' OR succ.status = 'cancelled' THEN NULL
+        WHEN kind = 'finish_to_start' AND succ.scheduled_start < pred.scheduled_end
+            THEN format('%s must finish before %s starts', pred.order_number, succ.order_number)
+        WHEN kind = 'start_to_start' AND succ.scheduled_start < pred.scheduled_start
+            THEN format('%s must start before %s starts', pred.order_number, succ.order_number)
+    END;
+$$ language 'sql' IMMUTABLE;
+
+-- Function to reject dependencies that close a cycle or that the current
+-- schedule already breaks
+CREATE OR REPLACE FUNCTION check_order_dependency()
+RETURNS TRIGGER AS $$
+DECLARE
+    pred production_orders%ROWTYPE;
+    succ production_orders%ROWTYPE;
+    cycle UUID[];
+    cycle_orders TEXT;
+    issue TEXT;
+BEGIN
+    -- Follow successors from the new successor; reaching the predecessor
+    -- means the new edge would close a loop
+    WITH RECURSIVE downstream(order_id, path) AS (
+        SELECT NEW.successor_id, ARRAY[NEW.successor_id]
+        UNION ALL
+        SELECT d.successor_id, downstream.path || d.successor_id
+        FROM order_dependencies d
+        JOIN downstream ON d.predecessor_id = downstream.order_id
+        WHERE d.id <> NEW.id
+          AND NOT d.successor_id = ANY(downstream.path)
+    )
+    SELECT path INTO cycle FROM downstream WHERE order_id = NEW.predecessor_id LIMIT 1;
+
+    IF (cycle IS NOT NULL) THEN
+        SELECT string_agg(po.order_number, ' -> ' ORDER BY step.n) INTO cycle_orders
+        FROM unnest(NEW.predecessor_id || cycle) WITH ORDINALITY AS step(order_id, n)
+        JOIN production_orders po ON po.id = step.order_id;
+        RAISE EXCEPTION 'dependency cycle: %', cycle_orders
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO pred FROM production_orders WHERE id = NEW.predecessor_id;
+    SELECT * INTO succ FROM production_orders WHERE id = NEW.successor_id;
+    issue := dependency_schedule_issue(pred, succ, NEW.dependency_type);
+    IF (issue IS NOT NULL) THEN
+        RAISE EXCEPTION 'dependency violation: %', issue
+            USING ERRCODE = 'check_violation',
+                  HINT = 'Reschedule the orders before linking them';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_order_dependency
+    BEFORE INSERT OR UPDATE ON order_dependencies
+    FOR EACH ROW
+    EXECUTE FUNCTION check_order_dependency();
+
+-- Function to keep orders in dependency order: no rescheduling a successor
+-- ahead of its predecessors (or a predecessor past its successors), and no
+-- starting work before the predecessors have finished (or started, for
+-- start_to_start). Runs at commit, so a chain of orders can be moved in one
+-- transaction; the order is re-read to see its final dates.
+CREATE OR REPLACE FUNCTION check_order_dependencies()
+RETURNS TRIGGER AS $$
+DECLARE
+    cur production_orders%ROWTYPE;
+    issues TEXT;
+BEGIN
+    SELECT * INTO cur FROM production_orders WHERE id = NEW.id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT string_agg(issue, '; ') INTO issues
+    FROM (
+        SELECT dependency_schedule_issue(pred, cur, d.dependency_type) AS issue
+        FROM order_dependencies d
+        JOIN production_orders pred ON pred.id = d.predecessor_id
+        WHERE d.successor_id = cur.id
+        UNION ALL
+        SELECT dependency_schedule_issue(cur, succ, d.dependency_type)
+        FROM order_dependencies d
+        JOIN production_orders succ ON succ.id = d.successor_id
+        WHERE d.predecessor_id = cur.id
+        UNION ALL
+        SELECT CASE d.dependency_type
+                   WHEN 'finish_to_start' THEN format('%s has not finished yet', pred.order_number)
+                   ELSE format('%s has not started yet', pred.order_number)
+               END
+        FROM order_dependencies d
+        JOIN production_orders pred ON pred.id = d.predecessor_id
+        WHERE d.successor_id = NEW.id
+          AND NEW.status = 'in_progress'
+          AND OLD.status IS DISTINCT FROM NEW.status
+          AND (pred.status IN ('pending', 'scheduled')
+               OR (d.dependency_type = 'finish_to_start' AND pred.status = 'in_progress'))
+    ) checks
+    WHERE issue IS NOT NULL;
+
+    IF (issues IS NOT NULL) THEN
+        RAISE EXCEPTION 'dependency violation: %', issues
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE CONSTRAINT TRIGGER check_production_order_dependencies
+    AFTER UPDATE OF scheduled_start, scheduled_end, status ON production_orders
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION check_order_dependencies();
+
+-- Function to reject double-booked or over-capacity allocations.
+-- Machines and workers may not be shared between orders in overlapping
+-- windows, and the overlapping allocated_quantity may not exceed capacity.
+-- Materials are limited by stock instead (reserve_allocation_stock).
+-- Setting override_conflicts lets a planner force the allocation through;
+-- the override is recorded in order_events. The resource row is locked first
+-- so two concurrent bookings of it cannot both pass the check.
+CREATE OR REPLACE FUNCTION check_resource_allocation_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    res resources%ROWTYPE;
+    clashing_orders TEXT[];
+    overlapping_quantity DECIMAL(10,2);
+    conflicts TEXT[] := '{}';
+BEGIN
+    IF (TG_OP = 'UPDATE'
+        AND OLD.resource_id = NEW.resource_id
+        AND OLD.allocated_quantity = NEW.allocated_quantity
+        AND OLD.start_time = NEW.start_time
+        AND OLD.end_time IS NOT DISTINCT FROM NEW.end_time) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO res FROM resources WHERE id = NEW.resource_id FOR UPDATE;
+
+    SELECT
+        COALESCE(array_agg(DISTINCT po.order_number) FILTER (WHERE ra.order_id <> NEW.order_id), '{}'),
+        COALESCE(SUM(ra.allocated_quantity), 0)
+    INTO clashing_orders, overlapping_quantity
+    FROM resource_allocations ra
+    JOIN production_orders po ON po.id = ra.order_id
+    WHERE ra.resource_id = NEW.resource_id
+      AND ra.id <> NEW.id
+      AND po.status <> 'cancelled'
+      AND tstzrange(ra.start_time, ra.end_time) && tstzrange(NEW.start_time, NEW.end_time);
+
+    IF (res.type <> 'material' AND array_length(clashing_orders, 1) > 0) THEN
+        conflicts := conflicts || format('%s is double-booked with %s', res.name, array_to_string(clashing_orders, ', '));
+    END IF;
+
+    IF (res.type <> 'material' AND res.capacity IS NOT NULL
+        AND overlapping_quantity + NEW.allocated_quantity > res.capacity) THEN
+        conflicts := conflicts || format('%s would be allocated %s of %s capacity', res.name,
+                                         overlapping_quantity + NEW.allocated_quantity, res.capacity);
+    END IF;
+
+    IF (array_length(conflicts, 1) > 0) THEN
+        IF NOT NEW.override_conflicts THEN
+            RAISE EXCEPTION 'allocation conflict: %', array_to_string(conflicts, '; ')
+                USING ERRCODE = 'exclusion_violation',
+                      DETAIL = jsonb_build_object('clashing_orders', to_jsonb(clashing_orders))::text;
+        END IF;
+
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (NEW.order_id, 'conflict_override', current_actor(),
+                jsonb_build_object(
+                    'resource_id', res.id,
+                    'resource_name', res.name,
+                    'clashing_orders', to_jsonb(clashing_orders),
+                    'conflicts', to_jsonb(conflicts),
+                    'reason', NEW.override_reason
+                ));
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_resource_allocation_conflicts
+    BEFORE INSERT OR UPDATE ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION check_resource_allocation_conflicts();
+
+-- Why a resource cannot work during [range_start, range_end), or NULL when
+-- its calendar allows it. An open-ended range only checks its start.
+CREATE OR REPLACE FUNCTION resource_calendar_issue(res_id UUID, range_start TIMESTAMPTZ, range_end TIMESTAMPTZ)
+RETURNS TEXT AS $$
+DECLARE
+    requested TSTZRANGE := CASE
+        WHEN range_end IS NULL THEN tstzrange(range_start, range_start, '[]')
+        ELSE tstzrange(range_start, range_end)
+    END;
+    blocking resource_downtime_windows%ROWTYPE;
+    working TSTZMULTIRANGE;
+    res_zone TEXT;
+BEGIN
+    SELECT time_zone INTO res_zone FROM resources WHERE id = res_id;
+
+    SELECT * INTO blocking
+    FROM resource_downtime_windows w
+    WHERE (w.resource_id = res_id OR w.resource_id IS NULL)
+      AND tstzrange(w.starts_at, w.ends_at) && requested
+    ORDER BY w.starts_at
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN format('%s from %s to %s',
+                      CASE WHEN blocking.kind = 'maintenance' THEN 'in planned maintenance' ELSE 'on holiday' END,
+                      to_char(blocking.starts_at AT TIME ZONE res_zone, 'Mon DD HH24:MI'),
+                      to_char(blocking.ends_at AT TIME ZONE res_zone, 'Mon DD HH24:MI'));
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM resource_shifts WHERE resource_id = res_id) THEN
+        RETURN NULL;
+    END IF;
+
+    -- Walk the resource's local days so shifts keep their wall-clock hours
+    -- across daylight saving changes
+    SELECT range_agg(tstzrange((shift_day + s.start_time) AT TIME ZONE res_zone,
+                               (shift_day + s.end_time) AT TIME ZONE res_zone))
+    INTO working
+    FROM generate_series(date_trunc('day', lower(requested) AT TIME ZONE res_zone),
+                         upper(requested) AT TIME ZONE res_zone, INTERVAL '1 day') AS shift_day
+    JOIN resource_shifts s ON s.resource_id = res_id AND s.day_of_week = EXTRACT(DOW FROM shift_day);
+
+    IF (working IS NULL OR NOT working @> requested) THEN
+        RETURN 'outside its working shifts';
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Function to reject allocations on resources that are down, either right now
+-- (status) or per their calendar. override_conflicts lets a planner book
+-- outside the calendar; the override is recorded in order_events.
+CREATE OR REPLACE FUNCTION check_resource_availability()
+RETURNS TRIGGER AS $$
+DECLARE
+    res resources%ROWTYPE;
+    issue TEXT;
+BEGIN
+    SELECT * INTO res FROM resources WHERE id = NEW.resource_id;
+    IF (res.decommissioned_at IS NOT NULL) THEN
+        RAISE EXCEPTION 'resource unavailable: % is decommissioned', res.name
+            USING ERRCODE = 'check_violation';
+    END IF;
+    IF (res.status IN ('maintenance', 'unavailable')) THEN
+        RAISE EXCEPTION 'resource unavailable: % is in %', res.name, res.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Materials sit in the store; calendars only apply to machines and workers
+    IF (res.type <> 'material') THEN
+        issue := resource_calendar_issue(NEW.resource_id, NEW.start_time, NEW.end_time);
+    END IF;
+    IF (issue IS NOT NULL) THEN
+        IF NOT NEW.override_conflicts THEN
+            RAISE EXCEPTION 'resource unavailable: % is %', res.name, issue
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (NEW.order_id, 'calendar_override', current_actor(),
+                jsonb_build_object(
+                    'resource_id', res.id,
+                    'resource_name', res.name,
+                    'issue', issue,
+                    'reason', NEW.override_reason
+                ));
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_resource_availability
+    BEFORE INSERT OR UPDATE OF resource_id, start_time, end_time ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION check_resource_availability();
+
+-- override_conflicts only covers the statement that sets it: once the checks
+-- above have run it is cleared, so a later move is checked again. The reason
+-- stays as the record of the override until the booking is moved without one.
+-- Named to fire after the check_* triggers (same-event triggers run by name).
+CREATE OR REPLACE FUNCTION reset_allocation_override()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NOT NEW.override_conflicts AND TG_OP = 'UPDATE'
+        AND (OLD.resource_id <> NEW.resource_id
+             OR OLD.allocated_quantity <> NEW.allocated_quantity
+             OR OLD.start_time <> NEW.start_time
+             OR OLD.end_time IS DISTINCT FROM NEW.end_time)) THEN
+        NEW.override_reason := NULL;
+    END IF;
+    NEW.override_conflicts := FALSE;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER reset_allocation_override
+    BEFORE INSERT OR UPDATE ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION reset_allocation_override();
+
+-- Functions to log schedule moves (Event Sourcing)
+CREATE OR REPLACE FUNCTION log_order_reschedule()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (OLD.scheduled_start IS DISTINCT FROM NEW.scheduled_start
+        OR OLD.scheduled_end IS DISTINCT FROM NEW.scheduled_end) THEN
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (NEW.id, 'rescheduled', current_actor(),
+                jsonb_build_object(
+                    'target', 'order',
+                    'old_start', OLD.scheduled_start,
+                    'old_end', OLD.scheduled_end,
+                    'new_start', NEW.scheduled_start,
+                    'new_end', NEW.scheduled_end
+                ));
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER log_production_order_reschedule
+    AFTER UPDATE ON production_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION log_order_reschedule();
+
+CREATE OR REPLACE FUNCTION log_allocation_reschedule()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (OLD.start_time IS DISTINCT FROM NEW.start_time
+        OR OLD.end_time IS DISTINCT FROM NEW.end_time
+        OR OLD.resource_id IS DISTINCT FROM NEW.resource_id) THEN
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (NEW.order_id, 'rescheduled', current_actor(),
+                jsonb_build_object(
+                    'target', 'allocation',
+                    'allocation_id', NEW.id,
+                    'old_resource_id', OLD.resource_id,
+                    'new_resource_id', NEW.resource_id,
+                    'old_start', OLD.start_time,
+                    'old_end', OLD.end_time,
+                    'new_start', NEW.start_time,
+                    'new_end', NEW.end_time
+                ));
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER log_resource_allocation_reschedule
+    AFTER UPDATE ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION log_allocation_reschedule();
+
+-- Function to log edits to order fields with before/after values.
+-- Status and schedule moves have their own events above.
+CREATE OR REPLACE FUNCTION log_order_field_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    changes JSONB := '{}';
+BEGIN
+    IF (OLD.product_name IS DISTINCT FROM NEW.product_name) THEN
+        changes := changes || jsonb_build_object('product_name',
+            jsonb_build_object('old', OLD.product_name, 'new', NEW.product_name));
+    END IF;
+    IF (OLD.quantity IS DISTINCT FROM NEW.quantity) THEN
+        changes := changes || jsonb_build_object('quantity',
+            jsonb_build_object('old', OLD.quantity, 'new', NEW.quantity));
+    END IF;
+    IF (OLD.priority IS DISTINCT FROM NEW.priority) THEN
+        changes := changes || jsonb_build_object('priority',
+            jsonb_build_object('old', OLD.priority, 'new', NEW.priority));
+    END IF;
+    IF (OLD.notes IS DISTINCT FROM NEW.notes) THEN
+        changes := changes || jsonb_build_object('notes',
+            jsonb_build_object('old', OLD.notes, 'new', NEW.notes));
+    END IF;
+
+    IF (changes <> '{}') THEN
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (NEW.id, 'updated', current_actor(),
+                jsonb_build_object('changes', changes));
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER log_production_order_field_changes
+    AFTER UPDATE ON production_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION log_order_field_changes();
+
+-- Function to log allocations being added to or removed from an order
+CREATE OR REPLACE FUNCTION log_allocation_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    alloc resource_allocations%ROWTYPE;
+BEGIN
+    IF (TG_OP = 'INSERT') THEN
+        alloc := NEW;
+    ELSE
+        alloc := OLD;
+        -- Allocations removed by deleting the whole order have nowhere to log to
+        IF NOT EXISTS (SELECT 1 FROM production_orders WHERE id = alloc.order_id) THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+    SELECT alloc.order_id,
+           CASE WHEN TG_OP = 'INSERT' THEN 'allocation_added' ELSE 'allocation_removed' END,
+           current_actor(),
+           jsonb_build_object(
+               'allocation_id', alloc.id,
+               'resource_id', r.id,
+               'resource_name', r.name,
+               'allocated_quantity', alloc.allocated_quantity,
+               'start_time', alloc.start_time,
+               'end_time', alloc.end_time
+           )
+    FROM resources r
+    WHERE r.id = alloc.resource_id;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER log_resource_allocation_change
+    AFTER INSERT OR DELETE ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION log_allocation_change();
+
+-- Function to log resource status changes. The reason comes from
+-- resources.status_reason, which clients set together with the status.
+CREATE OR REPLACE FUNCTION log_resource_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (TG_OP = 'INSERT') THEN
+        INSERT INTO resource_events (resource_id, event_type, new_status, changed_by, reason, metadata)
+        VALUES (NEW.id, 'created', NEW.status, current_actor(), NEW.status_reason,
+                jsonb_build_object('name', NEW.name, 'type', NEW.type));
+    ELSIF (OLD.decommissioned_at IS NULL AND NEW.decommissioned_at IS NOT NULL) THEN
+        INSERT INTO resource_events (resource_id, event_type, old_status, new_status, changed_by, reason, metadata)
+        VALUES (NEW.id, 'decommissioned', OLD.status, NEW.status, current_actor(), NEW.status_reason,
+                jsonb_build_object('name', NEW.name, 'type', NEW.type));
+    ELSIF (OLD.decommissioned_at IS NOT NULL AND NEW.decommissioned_at IS NULL) THEN
+        INSERT INTO resource_events (resource_id, event_type, old_status, new_status, changed_by, reason, metadata)
+        VALUES (NEW.id, 'reinstated', OLD.status, NEW.status, current_actor(), NEW.status_reason,
+                jsonb_build_object('name', NEW.name, 'type', NEW.type));
+    ELSIF (OLD.status IS DISTINCT FROM NEW.status) THEN
+        INSERT INTO resource_events (resource_id, event_type, old_status, new_status, changed_by, reason, metadata)
+        VALUES (NEW.id, 'status_change', OLD.status, NEW.status, current_actor(), NEW.status_reason,
+                jsonb_build_object('name', NEW.name, 'type', NEW.type));
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER log_resource_status_change
+    AFTER INSERT OR UPDATE ON resources
+    FOR EACH ROW
+    EXECUTE FUNCTION log_resource_status_change();
+
+-- Function to guard retiring and deleting resources. Deleting cascades to
+-- resource_allocations and would erase the orders' history, so only resources
+-- that were never allocated can be deleted; the rest are decommissioned once
+-- no current or upcoming work is left on them, and then keep their status.
+CREATE OR REPLACE FUNCTION check_resource_lifecycle()
+RETURNS TRIGGER AS $$
+DECLARE
+    allocation_count INTEGER;
+BEGIN
+    IF (TG_OP = 'DELETE') THEN
+        SELECT COUNT(*) INTO allocation_count FROM resource_allocations WHERE resource_id = OLD.id;
+        IF (allocation_count > 0) THEN
+            RAISE EXCEPTION 'resource in use: % has % allocation(s), decommission it instead', OLD.name, allocation_count
+                USING ERRCODE = 'restrict_violation';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF (OLD.decommissioned_at IS NULL AND NEW.decommissioned_at IS NOT NULL) THEN
+        SELECT COUNT(*) INTO allocation_count
+        FROM resource_allocations ra
+        JOIN production_orders po ON po.id = ra.order_id
+        WHERE ra.resource_id = NEW.id
+          AND po.status NOT IN ('completed', 'cancelled')
+          AND (ra.end_time IS NULL OR ra.end_time > NOW());
+        IF (allocation_count > 0) THEN
+            RAISE EXCEPTION 'resource in use: % has % current or upcoming allocation(s), move them first', NEW.name, allocation_count
+                USING ERRCODE = 'restrict_violation';
+        END IF;
+        NEW.status := 'unavailable';
+    ELSIF (OLD.decommissioned_at IS NOT NULL AND NEW.decommissioned_at IS NOT NULL
+           AND OLD.status IS DISTINCT FROM NEW.status) THEN
+        RAISE EXCEPTION 'resource in use: % is decommissioned, reinstate it first', NEW.name
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_resource_lifecycle
+    BEFORE UPDATE OR DELETE ON resources
+    FOR EACH ROW
+    EXECUTE FUNCTION check_resource_lifecycle();
+
+-- Function to apply a stock movement to its material and stamp the
+-- resulting levels on the movement
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+    res resources%ROWTYPE;
+BEGIN
+    SELECT * INTO res FROM resources WHERE id = NEW.resource_id FOR UPDATE;
+    IF (res.type <> 'material') THEN
+        RAISE EXCEPTION 'stock movements only apply to materials, not %', res.name
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    CASE NEW.movement_type
+        WHEN 'receipt', 'adjustment' THEN
+            res.stock_on_hand := res.stock_on_hand + NEW.quantity;
+        WHEN 'reserve' THEN
+            IF (res.stock_on_hand - res.stock_reserved < NEW.quantity) THEN
+                RAISE EXCEPTION 'insufficient stock: % has % available, % requested',
+                    res.name, res.stock_on_hand - res.stock_reserved, NEW.quantity
+                    USING ERRCODE = 'check_violation';
+            END IF;
+            res.stock_reserved := res.stock_reserved + NEW.quantity;
+        WHEN 'release' THEN
+            res.stock_reserved := res.stock_reserved - NEW.quantity;
+        WHEN 'consume' THEN
+            res.stock_on_hand := res.stock_on_hand - NEW.quantity;
+            res.stock_reserved := res.stock_reserved - NEW.quantity;
+    END CASE;
+
+    IF (res.stock_on_hand < res.stock_reserved) THEN
+        RAISE EXCEPTION 'insufficient stock: % would have % on hand but % reserved',
+            res.name, res.stock_on_hand, res.stock_reserved
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE resources
+    SET stock_on_hand = res.stock_on_hand, stock_reserved = res.stock_reserved
+    WHERE id = res.id;
+
+    NEW.on_hand_after := res.stock_on_hand;
+    NEW.reserved_after := res.stock_reserved;
+    NEW.changed_by := COALESCE(NEW.changed_by, current_actor());
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER apply_stock_movement
+    BEFORE INSERT ON stock_movements
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_stock_movement();
+
+-- Function to reserve material stock for an allocation, moving the
+-- reservation when the quantity or material changes
+CREATE OR REPLACE FUNCTION reserve_allocation_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+    res resources%ROWTYPE;
+    ord production_orders%ROWTYPE;
+BEGIN
+    IF (TG_OP = 'UPDATE') THEN
+        IF (OLD.resource_id = NEW.resource_id AND OLD.allocated_quantity = NEW.allocated_quantity) THEN
+            RETURN NEW;
+        END IF;
+        IF (OLD.stock_state = 'consumed') THEN
+            RAISE EXCEPTION 'insufficient stock: the material for this allocation has already been consumed'
+                USING ERRCODE = 'check_violation';
+        END IF;
+        IF (OLD.stock_state = 'reserved') THEN
+            INSERT INTO stock_movements (resource_id, movement_type, quantity, order_id, allocation_id, note)
+            VALUES (OLD.resource_id, 'release', OLD.allocated_quantity, OLD.order_id, OLD.id, 'Allocation changed');
+        END IF;
+        NEW.stock_state := NULL;
+    END IF;
+
+    SELECT * INTO res FROM resources WHERE id = NEW.resource_id;
+    SELECT * INTO ord FROM production_orders WHERE id = NEW.order_id;
+    IF (res.type <> 'material' OR ord.status = 'cancelled') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO stock_movements (resource_id, movement_type, quantity, order_id, allocation_id, note)
+    VALUES (NEW.resource_id, 'reserve', NEW.allocated_quantity, NEW.order_id, NEW.id, ord.order_number);
+    NEW.stock_state := 'reserved';
+
+    IF (ord.status = 'completed') THEN
+        INSERT INTO stock_movements (resource_id, movement_type, quantity, order_id, allocation_id, note)
+        VALUES (NEW.resource_id, 'consume', NEW.allocated_quantity, NEW.order_id, NEW.id, ord.order_number);
+        NEW.stock_state := 'consumed';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER reserve_allocation_stock
+    BEFORE INSERT OR UPDATE OF resource_id, allocated_quantity ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION reserve_allocation_stock();
+
+-- Function to give reserved stock back when a material allocation is removed
+CREATE OR REPLACE FUNCTION release_allocation_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (OLD.stock_state = 'reserved') THEN
+        -- The order may be going away with its allocations
+        INSERT INTO stock_movements (resource_id, movement_type, quantity, order_id, allocation_id, note)
+        VALUES (OLD.resource_id, 'release', OLD.allocated_quantity,
+                (SELECT id FROM production_orders WHERE id = OLD.order_id), OLD.id, 'Allocation removed');
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER release_allocation_stock
+    AFTER DELETE ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION release_allocation_stock();
+
+-- Function to consume reserved stock when an order completes and release it
+-- when the order is cancelled
+CREATE OR REPLACE FUNCTION settle_order_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+    movement stock_movement_type;
+BEGIN
+    IF (OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('completed', 'cancelled')) THEN
+        movement := CASE WHEN NEW.status = 'completed' THEN 'consume' ELSE 'release' END;
+
+        INSERT INTO stock_movements (resource_id, movement_type, quantity, order_id, allocation_id, note)
+        SELECT resource_id, movement, allocated_quantity, order_id, id,
+               format('%s %s', NEW.order_number, NEW.status)
+        FROM resource_allocations
+        WHERE order_id = NEW.id AND stock_state = 'reserved';
+
+        UPDATE resource_allocations
+        SET stock_state = CASE WHEN NEW.status = 'completed' THEN 'consumed' ELSE 'released' END::stock_state
+        WHERE order_id = NEW.id AND stock_state = 'reserved';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER settle_production_order_stock
+    AFTER UPDATE OF status ON production_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION settle_order_stock();
+
+-- Function to add a production report to its order's totals and complete
+-- the order once the good quantity reaches the order quantity. Good output
+-- of an earlier routing operation is work in progress, not finished goods,
+-- so only reports for the order, an allocation or the last operation count
+-- towards good_quantity; scrap counts wherever it happens.
+CREATE OR REPLACE FUNCTION apply_production_report()
+RETURNS TRIGGER AS $$
+DECLARE
+    ord production_orders%ROWTYPE;
+    op product_operations%ROWTYPE;
+    alloc_resource VARCHAR;
+    finished INTEGER := NEW.good_quantity;
+BEGIN
+    SELECT * INTO ord FROM production_orders WHERE id = NEW.order_id FOR UPDATE;
+    IF (ord.status <> 'in_progress') THEN
+        RAISE EXCEPTION 'invalid report: % is %, output can only be reported while it is in progress',
+            ord.order_number, ord.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF (NEW.allocation_id IS NOT NULL) THEN
+        SELECT r.name INTO alloc_resource
+        FROM resource_allocations ra
+        JOIN resources r ON r.id = ra.resource_id
+        WHERE ra.id = NEW.allocation_id AND ra.order_id = ord.id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'invalid report: the allocation does not belong to %', ord.order_number
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    IF (NEW.operation_id IS NOT NULL) THEN
+        SELECT * INTO op FROM product_operations
+        WHERE id = NEW.operation_id AND product_id = ord.product_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'invalid report: the operation is not in the routing of %', ord.product_name
+                USING ERRCODE = 'check_violation';
+        END IF;
+        IF EXISTS (
+            SELECT 1 FROM product_operations
+            WHERE product_id = op.product_id AND sequence > op.sequence
+        ) THEN
+            finished := 0;
+        END IF;
+    END IF;
+
+    NEW.reported_by := COALESCE(NEW.reported_by, current_actor());
+
+    UPDATE production_orders
+    SET good_quantity = good_quantity + finished,
+        scrap_quantity = scrap_quantity + NEW.scrap_quantity
+    WHERE id = ord.id
+    RETURNING * INTO ord;
+
+    INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+    VALUES (ord.id, 'progress_reported', NEW.reported_by,
+            jsonb_build_object(
+                'good_quantity', NEW.good_quantity,
+                'scrap_quantity', NEW.scrap_quantity,
+                'operation', CASE WHEN op.id IS NULL THEN NULL ELSE format('%s. %s', op.sequence, op.name) END,
+                'resource_name', alloc_resource,
+                'total_good', ord.good_quantity,
+                'total_scrap', ord.scrap_quantity
+            ));
+
+    IF (ord.good_quantity >= ord.quantity) THEN
+        UPDATE production_orders SET status = 'completed' WHERE id = ord.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER apply_production_report
+    BEFORE INSERT ON production_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_production_report();
+
+-- Function to check pauses, resumes and issues reported from the shop
+-- floor: the reason code must fit the event, an order can only be paused
+-- while it runs and resumed while it is paused
+CREATE OR REPLACE FUNCTION check_shop_floor_event()
+RETURNS TRIGGER AS $$
+DECLARE
+    ord production_orders%ROWTYPE;
+    paused BOOLEAN;
+    reason reason_codes%ROWTYPE;
+BEGIN
+    SELECT * INTO ord FROM production_orders WHERE id = NEW.order_id FOR UPDATE;
+    SELECT event_type = 'paused' INTO paused
+    FROM order_events
+    WHERE order_id = NEW.order_id AND event_type IN ('paused', 'resumed')
+    ORDER BY created_at DESC
+    LIMIT 1;
+    paused := COALESCE(paused, FALSE);
+    NEW.metadata := COALESCE(NEW.metadata, '{}') || jsonb_build_object('order_number', ord.order_number);
+
+    IF (NEW.event_type IN ('paused', 'resumed') AND ord.status <> 'in_progress') THEN
+        RAISE EXCEPTION 'invalid event: % is %, only running orders can be paused or resumed',
+            ord.order_number, ord.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    IF (NEW.event_type = 'paused' AND paused) THEN
+        RAISE EXCEPTION 'invalid event: % is already paused', ord.order_number
+            USING ERRCODE = 'check_violation';
+    END IF;
+    IF (NEW.event_type = 'resumed' AND NOT paused) THEN
+        RAISE EXCEPTION 'invalid event: % is not paused', ord.order_number
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF (NEW.event_type IN ('paused', 'issue_reported')) THEN
+        SELECT * INTO reason FROM reason_codes
+        WHERE code = NEW.metadata->>'reason_code'
+          AND category = CASE WHEN NEW.event_type = 'paused' THEN 'pause' ELSE 'issue' END
+          AND active;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'invalid event: choose a reason'
+                USING ERRCODE = 'check_violation';
+        END IF;
+        NEW.metadata := NEW.metadata || jsonb_build_object('reason_label', reason.label);
+    END IF;
+
+    NEW.changed_by := COALESCE(NEW.changed_by, current_actor());
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_shop_floor_event
+    BEFORE INSERT ON order_events
+    FOR EACH ROW
+    WHEN (NEW.event_type IN ('paused', 'resumed', 'issue_reported'))
+    EXECUTE FUNCTION check_shop_floor_event();
+
+-- Function to check a downtime record's reason and stamp who opened and
+-- closed it
+CREATE OR REPLACE FUNCTION check_downtime_record()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF ((TG_OP = 'INSERT' OR OLD.reason_code IS DISTINCT FROM NEW.reason_code) AND NOT EXISTS (
+        SELECT 1 FROM reason_codes WHERE code = NEW.reason_code AND category = 'issue' AND active
+    )) THEN
+        RAISE EXCEPTION 'invalid downtime: % is not an active issue reason', NEW.reason_code
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF (TG_OP = 'INSERT') THEN
+        NEW.reported_by := COALESCE(NEW.reported_by, current_actor());
+    ELSIF (OLD.ended_at IS NOT NULL AND NEW.ended_at IS NULL) THEN
+        RAISE EXCEPTION 'invalid downtime: a closed record cannot be reopened, report a new one'
+            USING ERRCODE = 'check_violation';
+    END IF;
+    IF (NEW.ended_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.ended_at IS NULL)) THEN
+        NEW.resolved_by := COALESCE(NEW.resolved_by, current_actor());
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_downtime_record
+    BEFORE INSERT OR UPDATE ON downtime_records
+    FOR EACH ROW
+    EXECUTE FUNCTION check_downtime_record();
+
+-- Function to log a downtime record on the affected order and take the
+-- resource down while it is open. The resource comes back once its last
+-- open record that took it down is closed.
+CREATE OR REPLACE FUNCTION apply_downtime_record()
+RETURNS TRIGGER AS $$
+DECLARE
+    res resources%ROWTYPE;
+    reason reason_codes%ROWTYPE;
+BEGIN
+    SELECT * INTO res FROM resources WHERE id = NEW.resource_id;
+    SELECT * INTO reason FROM reason_codes WHERE code = NEW.reason_code;
+
+    IF (TG_OP = 'INSERT' AND NEW.order_id IS NOT NULL) THEN
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (NEW.order_id, 'issue_reported', NEW.reported_by,
+                jsonb_build_object(
+                    'downtime_id', NEW.id,
+                    'reason_code', NEW.reason_code,
+                    'note', NEW.notes,
+                    'resource_id', res.id,
+                    'resource_name', res.name
+                ));
+    END IF;
+
+    IF (NEW.ended_at IS NULL) THEN
+        IF (NEW.takes_resource_down AND res.status <> 'unavailable') THEN
+            UPDATE resources
+            SET status = 'unavailable', status_reason = reason.label || COALESCE(': ' || NEW.notes, '')
+            WHERE id = res.id;
+        END IF;
+    ELSIF (TG_OP = 'UPDATE' AND OLD.ended_at IS NULL) THEN
+        IF (NEW.order_id IS NOT NULL) THEN
+            INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+            VALUES (NEW.order_id, 'issue_resolved', NEW.resolved_by,
+                    jsonb_build_object(
+                        'downtime_id', NEW.id,
+                        'reason_code', NEW.reason_code,
+                        'reason_label', reason.label,
+                        'resource_name', res.name,
+                        'hours', EXTRACT(EPOCH FROM (NEW.ended_at - NEW.started_at)) / 3600
+                    ));
+        END IF;
+        -- A decommissioned resource stays down
+        IF (NEW.takes_resource_down AND res.status = 'unavailable' AND res.decommissioned_at IS NULL AND NOT EXISTS (
+            SELECT 1 FROM downtime_records
+            WHERE resource_id = res.id AND id <> NEW.id AND takes_resource_down AND ended_at IS NULL
+        )) THEN
+            UPDATE resources
+            SET status = 'available', status_reason = 'Resolved: ' || reason.label
+            WHERE id = res.id;
+        END IF;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER apply_downtime_record
+    AFTER INSERT OR UPDATE OF ended_at ON downtime_records
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_downtime_record();
+
+-- Minutes the routing of a product takes for a given quantity
+CREATE OR REPLACE FUNCTION routing_minutes(product UUID, order_quantity INTEGER)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(setup_minutes + run_minutes_per_unit * order_quantity), 0)
+    FROM product_operations
+    WHERE product_id = product;
+$$ language 'sql' STABLE;
+
+-- Function to fill an order's product name and, when only the start is
+-- given, its scheduled end from the product routing
+CREATE OR REPLACE FUNCTION apply_product_defaults()
+RETURNS TRIGGER AS $$
+DECLARE
+    minutes DECIMAL;
+BEGIN
+    IF (NEW.product_id IS NOT NULL) THEN
+        NEW.product_name := (SELECT name FROM products WHERE id = NEW.product_id);
+        minutes := routing_minutes(NEW.product_id, NEW.quantity);
+        IF (NEW.scheduled_start IS NOT NULL AND NEW.scheduled_end IS NULL AND minutes > 0) THEN
+            NEW.scheduled_end := NEW.scheduled_start + minutes * INTERVAL '1 minute';
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER apply_production_order_product_defaults
+    BEFORE INSERT OR UPDATE OF product_id ON production_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_product_defaults();
+
+-- Function to allocate resources for a new order from its product: one
+-- allocation per routing operation, each starting when the previous one
+-- ends, plus the bill of materials scaled by quantity. Each operation gets
+-- its preferred resource if free, otherwise the cheapest free resource of the
+-- same type; operations nobody can take are noted in order_events.
+-- Orders edited later keep their allocations.
+CREATE OR REPLACE FUNCTION generate_order_allocations()
+RETURNS TRIGGER AS $$
+DECLARE
+    op product_operations%ROWTYPE;
+    chosen resources%ROWTYPE;
+    op_start TIMESTAMPTZ := NEW.scheduled_start;
+    op_end TIMESTAMPTZ;
+BEGIN
+    IF (NEW.product_id IS NULL OR NEW.scheduled_start IS NULL) THEN
+        RETURN NULL;
+    END IF;
+
+    FOR op IN
+        SELECT * FROM product_operations WHERE product_id = NEW.product_id ORDER BY sequence
+    LOOP
+        op_end := op_start + (op.setup_minutes + op.run_minutes_per_unit * NEW.quantity) * INTERVAL '1 minute';
+        IF (op_end = op_start) THEN
+            CONTINUE;
+        END IF;
+
+        SELECT r.* INTO chosen
+        FROM resources r
+        WHERE r.type = op.resource_type
+          AND r.status NOT IN ('maintenance', 'unavailable')
+          AND resource_calendar_issue(r.id, op_start, op_end) IS NULL
+          AND NOT EXISTS (
+              SELECT 1
+              FROM resource_allocations ra
+              JOIN production_orders po ON po.id = ra.order_id
+              WHERE ra.resource_id = r.id
+                AND po.status <> 'cancelled'
+                AND tstzrange(ra.start_time, ra.end_time) && tstzrange(op_start, op_end)
+          )
+        ORDER BY r.id IS NOT DISTINCT FROM op.resource_id DESC, r.hourly_cost NULLS LAST, r.name
+        LIMIT 1;
+
+        IF FOUND THEN
+            INSERT INTO resource_allocations (order_id, resource_id, allocated_quantity, start_time, end_time, notes)
+            VALUES (NEW.id, chosen.id,
+                    CASE WHEN chosen.type = 'worker'
+                         THEN LEAST(8, COALESCE(chosen.capacity, 8))
+                         ELSE LEAST(NEW.quantity, COALESCE(chosen.capacity, NEW.quantity))
+                    END,
+                    op_start, op_end, format('%s. %s', op.sequence, op.name));
+        ELSE
+            INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+            VALUES (NEW.id, 'routing_unassigned', current_actor(),
+                    jsonb_build_object(
+                        'operation', op.name,
+                        'sequence', op.sequence,
+                        'resource_type', op.resource_type,
+                        'start', op_start,
+                        'end', op_end
+                    ));
+        END IF;
+
+        op_start := op_end;
+    END LOOP;
+
+    INSERT INTO resource_allocations (order_id, resource_id, allocated_quantity, start_time, end_time, notes)
+    SELECT NEW.id, pm.resource_id, pm.quantity_per_unit * NEW.quantity,
+           NEW.scheduled_start, NEW.scheduled_end, 'Bill of materials'
+    FROM product_materials pm
+    WHERE pm.product_id = NEW.product_id;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER generate_production_order_allocations
+    AFTER INSERT ON production_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION generate_order_allocations();
+
+-- Splits an order into child orders <number>-A, <number>-B, ... with the
+-- given quantities, which must add up to the order quantity. The scheduled
+-- window and every machine and worker allocation are cut into consecutive
+-- slices in proportion to the quantities, so the children run back to back
+-- on the same resources until they are moved apart; material allocations are
+-- scaled by quantity instead. Dependencies carry over to the children and the
+-- original order is cancelled. Exposed as a Hasura mutation.
+CREATE OR REPLACE FUNCTION split_production_order(target_id UUID, quantities INTEGER[])
+RETURNS SETOF production_orders AS $$
+DECLARE
+    parent production_orders%ROWTYPE;
+    child production_orders%ROWTYPE;
+    alloc resource_allocations%ROWTYPE;
+    parent_allocations resource_allocations[];
+    res_type resource_type;
+    parts INTEGER := COALESCE(array_length(quantities, 1), 0);
+    units_before INTEGER := 0;
+    share_from DOUBLE PRECISION;
+    share_to DOUBLE PRECISION;
+    part_quantity DECIMAL(10,2);
+    child_number TEXT;
+    children JSONB := '[]';
+BEGIN
+    SELECT * INTO parent FROM production_orders WHERE id = target_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'invalid split: order not found' USING ERRCODE = 'check_violation';
+    END IF;
+    IF (parent.status NOT IN ('pending', 'scheduled')) THEN
+        RAISE EXCEPTION 'invalid split: % is %; only pending or scheduled orders can be split',
+            parent.order_number, parent.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    IF (parts < 2 OR parts > 26) THEN
+        RAISE EXCEPTION 'invalid split: an order splits into 2 to 26 parts' USING ERRCODE = 'check_violation';
+    END IF;
+    IF EXISTS (SELECT 1 FROM unnest(quantities) AS q WHERE q IS NULL OR q <= 0) THEN
+        RAISE EXCEPTION 'invalid split: every part needs a quantity above 0' USING ERRCODE = 'check_violation';
+    END IF;
+    IF ((SELECT SUM(q) FROM unnest(quantities) AS q) <> parent.quantity) THEN
+        RAISE EXCEPTION 'invalid split: the parts add up to %, not %',
+            (SELECT SUM(q) FROM unnest(quantities) AS q), parent.quantity
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Free the parent's resources first so the children can book them
+    parent_allocations := ARRAY(SELECT ra FROM resource_allocations ra WHERE ra.order_id = target_id ORDER BY ra.start_time);
+    DELETE FROM resource_allocations WHERE order_id = target_id;
+
+    FOR i IN 1..parts LOOP
+        share_from := units_before::DOUBLE PRECISION / parent.quantity;
+        share_to := (units_before + quantities[i])::DOUBLE PRECISION / parent.quantity;
+        child_number := parent.order_number || '-' || chr(64 + i);
+        IF (length(child_number) > 50) THEN
+            RAISE EXCEPTION 'invalid split: % is too long for an order number', child_number
+                USING ERRCODE = 'check_violation';
+        END IF;
+        IF EXISTS (SELECT 1 FROM production_orders WHERE order_number = child_number) THEN
+            RAISE EXCEPTION 'invalid split: % already exists', child_number USING ERRCODE = 'check_violation';
+        END IF;
+
+        INSERT INTO production_orders (order_number, product_name, quantity, status, priority,
+                                       scheduled_start, scheduled_end, notes)
+        VALUES (child_number, parent.product_name, quantities[i], parent.status, parent.priority,
+                CASE WHEN parent.scheduled_end IS NULL THEN parent.scheduled_start
+                     ELSE parent.scheduled_start + (parent.scheduled_end - parent.scheduled_start) * share_from END,
+                CASE WHEN parent.scheduled_start IS NULL THEN parent.scheduled_end
+                     ELSE parent.scheduled_start + (parent.scheduled_end - parent.scheduled_start) * share_to END,
+                parent.notes)
+        RETURNING * INTO child;
+
+        -- Linked after the insert so generate_order_allocations leaves the
+        -- child to the allocations carried over below
+        IF (parent.product_id IS NOT NULL) THEN
+            UPDATE production_orders SET product_id = parent.product_id WHERE id = child.id
+            RETURNING * INTO child;
+        END IF;
+
+        -- Slices of a booking that was forced through are forced through again
+        FOREACH alloc IN ARRAY parent_allocations LOOP
+            SELECT type INTO res_type FROM resources WHERE id = alloc.resource_id;
+            -- Rounded on the running total, so the parts add up to the
+            -- parent's quantity and the last child takes the remainder
+            part_quantity := round(alloc.allocated_quantity * (units_before + quantities[i]) / parent.quantity, 2)
+                             - round(alloc.allocated_quantity * units_before / parent.quantity, 2);
+            IF (res_type = 'material') THEN
+                INSERT INTO resource_allocations (order_id, resource_id, allocated_quantity, start_time, end_time,
+                                                  notes, override_conflicts, override_reason)
+                VALUES (child.id, alloc.resource_id, part_quantity,
+                        alloc.start_time, alloc.end_time, alloc.notes, alloc.override_reason IS NOT NULL, alloc.override_reason);
+            ELSIF (alloc.end_time IS NULL) THEN
+                -- An open-ended booking cannot be sliced; the first child keeps it
+                IF (i = 1) THEN
+                    INSERT INTO resource_allocations (order_id, resource_id, allocated_quantity, start_time, end_time,
+                                                      notes, override_conflicts, override_reason)
+                    VALUES (child.id, alloc.resource_id, alloc.allocated_quantity, alloc.start_time, NULL,
+                            alloc.notes, alloc.override_reason IS NOT NULL, alloc.override_reason);
+                END IF;
+            ELSE
+                INSERT INTO resource_allocations (order_id, resource_id, allocated_quantity, start_time, end_time,
+                                                  notes, override_conflicts, override_reason)
+                VALUES (child.id, alloc.resource_id,
+                        CASE WHEN res_type = 'machine'
+                             THEN part_quantity
+                             ELSE alloc.allocated_quantity
+                        END,
+                        alloc.start_time + (alloc.end_time - alloc.start_time) * share_from,
+                        alloc.start_time + (alloc.end_time - alloc.start_time) * share_to,
+                        alloc.notes, alloc.override_reason IS NOT NULL, alloc.override_reason);
+            END IF;
+        END LOOP;
+
+        -- Every child waits for the parent's predecessors and holds up its
+        -- finish_to_start successors; a start_to_start successor only
+        -- needs the first child to have started
+        INSERT INTO order_dependencies (predecessor_id, successor_id, dependency_type)
+        SELECT d.predecessor_id, child.id, d.dependency_type
+        FROM order_dependencies d
+        WHERE d.successor_id = target_id;
+
+        INSERT INTO order_dependencies (predecessor_id, successor_id, dependency_type)
+        SELECT child.id, d.successor_id, d.dependency_type
+        FROM order_dependencies d
+        WHERE d.predecessor_id = target_id
+          AND (d.dependency_type = 'finish_to_start' OR i = 1);
+
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (child.id, 'split_from', current_actor(),
+                jsonb_build_object(
+                    'order_id', parent.id,
+                    'order_number', parent.order_number,
+                    'part', i,
+                    'parts', parts
+                ));
+
+        children := children || jsonb_build_object(
+            'order_id', child.id,
+            'order_number', child.order_number,
+            'quantity', child.quantity
+        );
+        units_before := units_before + quantities[i];
+        RETURN NEXT child;
+    END LOOP;
+
+    UPDATE production_orders SET status = 'cancelled' WHERE id = target_id;
+
+    INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+    VALUES (target_id, 'split', current_actor(), jsonb_build_object('orders', children));
+END;
+$$ language 'plpgsql' VOLATILE;
+
+-- Merges pending orders for the same product into the one that starts first
+-- (then lowest order number). It takes the combined quantity, the widest
+-- scheduled window and the highest priority; the other orders' allocations
+-- and dependencies move over to it and they are cancelled. Exposed as a
+-- Hasura mutation.
+CREATE OR REPLACE FUNCTION merge_production_orders(order_ids UUID[])
+RETURNS SETOF production_orders AS $$
+DECLARE
+    survivor production_orders%ROWTYPE;
+    other production_orders%ROWTYPE;
+    alloc resource_allocations%ROWTYPE;
+    problem TEXT;
+    sources JSONB := '[]';
+BEGIN
+    PERFORM 1 FROM production_orders WHERE id = ANY(order_ids) ORDER BY id FOR UPDATE;
+
+    IF ((SELECT COUNT(*) FROM production_orders WHERE id = ANY(order_ids)) < 2) THEN
+        RAISE EXCEPTION 'invalid merge: select at least two orders' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT string_agg(format('%s is %s', order_number, status), ', ' ORDER BY order_number) INTO problem
+    FROM production_orders
+    WHERE id = ANY(order_ids) AND status <> 'pending';
+    IF (problem IS NOT NULL) THEN
+        RAISE EXCEPTION 'invalid merge: only pending orders can be merged (%)', problem
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF ((SELECT COUNT(DISTINCT COALESCE(product_id::TEXT, product_name))
+         FROM production_orders WHERE id = ANY(order_ids)) > 1) THEN
+        RAISE EXCEPTION 'invalid merge: the orders are for different products' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT format('%s depends on %s', succ.order_number, pred.order_number) INTO problem
+    FROM order_dependencies d
+    JOIN production_orders pred ON pred.id = d.predecessor_id
+    JOIN production_orders succ ON succ.id = d.successor_id
+    WHERE d.predecessor_id = ANY(order_ids) AND d.successor_id = ANY(order_ids)
+    LIMIT 1;
+    IF (problem IS NOT NULL) THEN
+        RAISE EXCEPTION 'invalid merge: %', problem USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO survivor
+    FROM production_orders
+    WHERE id = ANY(order_ids)
+    ORDER BY scheduled_start NULLS LAST, order_number
+    LIMIT 1;
+
+    FOR other IN
+        SELECT * FROM production_orders WHERE id = ANY(order_ids) AND id <> survivor.id ORDER BY order_number
+    LOOP
+        -- Move the allocations over, folding a booking of the same resource at
+        -- the same start into the survivor's; a forced booking stays forced
+        FOR alloc IN SELECT * FROM resource_allocations WHERE order_id = other.id LOOP
+            IF EXISTS (
+                SELECT 1 FROM resource_allocations
+                WHERE order_id = survivor.id AND resource_id = alloc.resource_id AND start_time = alloc.start_time
+            ) THEN
+                DELETE FROM resource_allocations WHERE id = alloc.id;
+                UPDATE resource_allocations
+                SET allocated_quantity = allocated_quantity + alloc.allocated_quantity,
+                    override_conflicts = override_reason IS NOT NULL
+                WHERE order_id = survivor.id AND resource_id = alloc.resource_id AND start_time = alloc.start_time;
+            ELSE
+                UPDATE resource_allocations SET order_id = survivor.id WHERE id = alloc.id;
+            END IF;
+        END LOOP;
+
+        INSERT INTO order_dependencies (predecessor_id, successor_id, dependency_type)
+        SELECT d.predecessor_id, survivor.id, d.dependency_type
+        FROM order_dependencies d
+        WHERE d.successor_id = other.id
+        ON CONFLICT (predecessor_id, successor_id) DO NOTHING;
+
+        INSERT INTO order_dependencies (predecessor_id, successor_id, dependency_type)
+        SELECT survivor.id, d.successor_id, d.dependency_type
+        FROM order_dependencies d
+        WHERE d.predecessor_id = other.id
+        ON CONFLICT (predecessor_id, successor_id) DO NOTHING;
+
+        UPDATE production_orders SET status = 'cancelled' WHERE id = other.id;
+
+        INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+        VALUES (other.id, 'merged_into', current_actor(),
+                jsonb_build_object('order_id', survivor.id, 'order_number', survivor.order_number));
+
+        sources := sources || jsonb_build_object(
+            'order_id', other.id,
+            'order_number', other.order_number,
+            'quantity', other.quantity
+        );
+    END LOOP;
+
+    UPDATE production_orders po
+    SET quantity = totals.quantity,
+        priority = totals.priority,
+        scheduled_start = totals.scheduled_start,
+        scheduled_end = totals.scheduled_end
+    FROM (
+        SELECT SUM(quantity) AS quantity,
+               MAX(priority) AS priority,
+               MIN(scheduled_start) AS scheduled_start,
+               MAX(scheduled_end) AS scheduled_end
+        FROM production_orders
+        WHERE id = ANY(order_ids)
+    ) totals
+    WHERE po.id = survivor.id
+    RETURNING po.* INTO survivor;
+
+    INSERT INTO order_events (order_id, event_type, changed_by, metadata)
+    VALUES (survivor.id, 'merged', current_actor(), jsonb_build_object('orders', sources));
+
+    RETURN NEXT survivor;
+END;
+$$ language 'plpgsql' VOLATILE;
+
+-- Flips resources into maintenance when a planned window starts and back to
+-- available when it ends. Run every minute by the sync_maintenance_status
+-- cron trigger (hasura/metadata/cron_triggers.yaml).
+CREATE OR REPLACE FUNCTION sync_maintenance_status()
+RETURNS SETOF resources AS $$
+DECLARE
+    win resource_downtime_windows%ROWTYPE;
+BEGIN
+    -- Attribute the status changes to the calendar rather than the admin caller
+    PERFORM set_config('hasura.user', '{"x-hasura-role": "maintenance calendar"}', true);
+
+    FOR win IN
+        SELECT * FROM resource_downtime_windows
+        WHERE kind = 'maintenance'
+          AND status_applied_at IS NULL
+          AND starts_at <= NOW() AND ends_at > NOW()
+        ORDER BY starts_at
+    LOOP
+        RETURN QUERY
+        UPDATE resources
+        SET status = 'maintenance',
+            status_reason = COALESCE('Planned maintenance: ' || win.reason, 'Planned maintenance')
+        WHERE id = win.resource_id AND status IN ('available', 'in_use')
+        RETURNING *;
+
+        UPDATE resource_downtime_windows SET status_applied_at = NOW() WHERE id = win.id;
+    END LOOP;
+
+    FOR win IN
+        SELECT * FROM resource_downtime_windows
+        WHERE kind = 'maintenance'
+          AND status_applied_at IS NOT NULL
+          AND status_released_at IS NULL
+          AND ends_at <= NOW()
+        ORDER BY ends_at
+    LOOP
+        -- Leave the resource down if another window is still running
+        RETURN QUERY
+        UPDATE resources
+        SET status = 'available',
+            status_reason = 'Planned maintenance finished'
+        WHERE id = win.resource_id
+          AND status = 'maintenance'
+          AND NOT EXISTS (
+              SELECT 1 FROM resource_downtime_windows other
+              WHERE other.resource_id = win.resource_id
+                AND other.kind = 'maintenance'
+                AND other.starts_at <= NOW() AND other.ends_at > NOW()
+          )
+        RETURNING *;
+
+        UPDATE resource_downtime_windows SET status_released_at = NOW() WHERE id = win.id;
+    END LOOP;
+END;
+$$ language 'plpgsql' VOLATILE;
+
+-- How long each resource spent in each status; ended_at is NULL for the
+-- current status
+CREATE VIEW resource_status_periods AS
+SELECT
+    resource_id,
+    new_status AS status,
+    reason,
+    created_at AS started_at,
+    LEAD(created_at) OVER (PARTITION BY resource_id ORDER BY created_at) AS ended_at
+FROM resource_events
+WHERE new_status IS NOT NULL;
+
+-- Start and finish variance in hours (positive = late) for every order
+CREATE VIEW order_schedule_variance AS
+SELECT
+    id AS order_id,
+    order_number,
+    product_name,
+    status,
+    EXTRACT(EPOCH FROM (actual_start - scheduled_start)) / 3600 AS start_variance_hours,
+    EXTRACT(EPOCH FROM (actual_end - scheduled_end)) / 3600 AS finish_variance_hours,
+    CASE
+        WHEN actual_end IS NULL OR scheduled_end IS NULL THEN NULL
+        ELSE actual_end <= scheduled_end
+    END AS on_time
+FROM production_orders;
+
+-- Costing. Machines and workers cost hourly_cost for every hour they are
+-- allocated, materials cost unit_cost for every unit. Actual cost stretches
+-- the planned hours by how long the order really ran against its schedule and
+-- prices materials by what was consumed.
+
+-- Hours an allocation books its resource for; open-ended allocations run to
+-- the order's scheduled end
+CREATE OR REPLACE FUNCTION allocation_hours(alloc resource_allocations)
+RETURNS DECIMAL AS $$
+    SELECT GREATEST(EXTRACT(EPOCH FROM (COALESCE(alloc.end_time, po.scheduled_end) - alloc.start_time)) / 3600, 0)
+    FROM production_orders po
+    WHERE po.id = alloc.order_id;
+$$ language 'sql' STABLE;
+
+-- How long an order has run against its schedule: 1.25 is a quarter longer
+-- than planned. 0 before it starts, and measured to now while it runs.
+CREATE OR REPLACE FUNCTION order_run_ratio(po production_orders)
+RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN po.actual_start IS NULL THEN 0
+        ELSE COALESCE(
+            EXTRACT(EPOCH FROM (
+                COALESCE(po.actual_end, CASE WHEN po.status = 'cancelled' THEN po.updated_at ELSE NOW() END)
+                - po.actual_start))
+            / NULLIF(EXTRACT(EPOCH FROM (po.scheduled_end - po.scheduled_start)), 0),
+            1)
+    END;
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION allocation_planned_cost(alloc resource_allocations)
+RETURNS DECIMAL AS $$
+    SELECT ROUND(CASE
+        WHEN r.type = 'material' THEN alloc.allocated_quantity * COALESCE(r.unit_cost, 0)
+        ELSE allocation_hours(alloc) * COALESCE(r.hourly_cost, 0)
+    END, 2)
+    FROM resources r
+    WHERE r.id = alloc.resource_id;
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION allocation_actual_cost(alloc resource_allocations)
+RETURNS DECIMAL AS $$
+    SELECT ROUND(CASE
+        WHEN r.type = 'material' THEN COALESCE((
+            SELECT SUM(m.quantity)
+            FROM stock_movements m
+            WHERE m.allocation_id = alloc.id AND m.movement_type = 'consume'
+        ), 0) * COALESCE(r.unit_cost, 0)
+        ELSE allocation_hours(alloc) * order_run_ratio(po) * COALESCE(r.hourly_cost, 0)
+    END, 2)
+    FROM resources r, production_orders po
+    WHERE r.id = alloc.resource_id AND po.id = alloc.order_id;
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION order_planned_cost(po production_orders)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(allocation_planned_cost(a)), 0)
+    FROM resource_allocations a
+    WHERE a.order_id = po.id;
+$$ language 'sql' STABLE;
+
+CREATE OR REPLACE FUNCTION order_actual_cost(po production_orders)
+RETURNS DECIMAL AS $$
+    SELECT COALESCE(SUM(allocation_actual_cost(a)), 0)
+    FROM resource_allocations a
+    WHERE a.order_id = po.id;
+$$ language 'sql' STABLE;
+
+-- Planned and actual cost for every order (positive variance = over
+-- budget), dated by when it finished or is due to
+CREATE VIEW order_costs AS
+SELECT
+    po.id AS order_id,
+    po.order_number,
+    po.product_id,
+    po.product_name,
+    po.status,
+    COALESCE(po.actual_end, po.scheduled_end, po.created_at) AS costed_at,
+    order_planned_cost(po) AS planned_cost,
+    order_actual_cost(po) AS actual_cost,
+    order_actual_cost(po) - order_planned_cost(po) AS cost_variance
+FROM production_orders po;
+
+-- Trend analytics. The *_buckets views hold daily figures for all time and
+-- give the *_trend functions their row shape; the functions bucket a range by
+-- day or week in the caller's time zone.
+
+-- When each completed order finished (its last change to completed, or its
+-- actual end for orders loaded as completed) and how long it took from being
+-- created
+CREATE VIEW order_completions AS
+SELECT
+    po.id AS order_id,
+    po.product_name,
+    po.quantity,
+    COALESCE(e.completed_at, po.actual_end) AS completed_at,
+    EXTRACT(EPOCH FROM (COALESCE(e.completed_at, po.actual_end) - po.created_at)) / 3600 AS lead_time_hours
+FROM production_orders po
+LEFT JOIN LATERAL (
+    SELECT MAX(created_at) AS completed_at
+    FROM order_events
+    WHERE order_id = po.id AND event_type = 'status_change' AND new_status = 'completed'
+) e ON TRUE
+WHERE po.status = 'completed' AND COALESCE(e.completed_at, po.actual_end) IS NOT NULL;
+
+CREATE VIEW order_completion_buckets AS
+SELECT
+    date_trunc('day', completed_at) AS bucket,
+    product_name,
+    COUNT(*) AS completed_orders,
+    SUM(quantity) AS completed_units,
+    AVG(lead_time_hours) AS avg_lead_time_hours
+FROM order_completions
+GROUP BY 1, 2;
+
+CREATE OR REPLACE FUNCTION order_completion_trend(
+    range_start TIMESTAMPTZ,
+    range_end TIMESTAMPTZ,
+    bucket_size TEXT DEFAULT 'day',
+    time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS SETOF order_completion_buckets AS $$
+    SELECT
+        date_trunc(CASE WHEN bucket_size = 'week' THEN 'week' ELSE 'day' END, completed_at, time_zone) AS bucket,
+        product_name,
+        COUNT(*) AS completed_orders,
+        SUM(quantity) AS completed_units,
+        AVG(lead_time_hours) AS avg_lead_time_hours
+    FROM order_completions
+    WHERE completed_at >= range_start AND completed_at < range_end
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$ language 'sql' STABLE;
+
+-- Machine and worker time booked by orders that are not cancelled;
+-- open-ended allocations run to the order's scheduled end
+CREATE VIEW resource_bookings AS
+SELECT
+    a.id AS allocation_id,
+    a.resource_id,
+    r.type AS resource_type,
+    a.start_time AS starts_at,
+    COALESCE(a.end_time, po.scheduled_end) AS ends_at
+FROM resource_allocations a
+JOIN resources r ON r.id = a.resource_id
+JOIN production_orders po ON po.id = a.order_id
+WHERE r.type <> 'material'
+  AND po.status <> 'cancelled'
+  AND COALESCE(a.end_time, po.scheduled_end) > a.start_time;
+
+-- Hours a machine or worker can work between two times: its shifts (the
+-- whole time when it has none), less planned maintenance, holidays and time
+-- spent in maintenance or unavailable status
+CREATE OR REPLACE FUNCTION resource_available_hours(res_id UUID, range_start TIMESTAMPTZ, range_end TIMESTAMPTZ)
+RETURNS DECIMAL AS $$
+DECLARE
+    requested TSTZMULTIRANGE := tstzmultirange(tstzrange(range_start, range_end));
+    working TSTZMULTIRANGE;
+    down TSTZMULTIRANGE;
+    res_zone TEXT;
+BEGIN
+    IF EXISTS (SELECT 1 FROM resource_shifts WHERE resource_id = res_id) THEN
+        SELECT time_zone INTO res_zone FROM resources WHERE id = res_id;
+        SELECT COALESCE(range_agg(tstzrange((shift_day + s.start_time) AT TIME ZONE res_zone,
+                                            (shift_day + s.end_time) AT TIME ZONE res_zone)), '{}')
+        INTO working
+        FROM generate_series(date_trunc('day', range_start AT TIME ZONE res_zone),
+                             range_end AT TIME ZONE res_zone, INTERVAL '1 day') AS shift_day
+        JOIN resource_shifts s ON s.resource_id = res_id AND s.day_of_week = EXTRACT(DOW FROM shift_day);
+        working := working * requested;
+    ELSE
+        working := requested;
+    END IF;
+
+    -- The current status counts up to now; the future is taken as planned
+    SELECT COALESCE(range_agg(span), '{}') INTO down
+    FROM (
+        SELECT tstzrange(w.starts_at, w.ends_at) AS span
+        FROM resource_downtime_windows w
+        WHERE (w.resource_id = res_id OR w.resource_id IS NULL)
+          AND w.starts_at < range_end AND w.ends_at > range_start
+        UNION ALL
+        SELECT tstzrange(p.started_at, COALESCE(p.ended_at, NOW()))
+        FROM resource_status_periods p
+        WHERE p.resource_id = res_id
+          AND p.status IN ('maintenance', 'unavailable')
+          AND p.started_at < LEAST(range_end, COALESCE(p.ended_at, NOW()))
+          AND COALESCE(p.ended_at, NOW()) > range_start
+    ) spans;
+
+    RETURN COALESCE((
+        SELECT SUM(EXTRACT(EPOCH FROM (upper(span) - lower(span)))) / 3600
+        FROM unnest(working - down) AS span
+    ), 0);
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Booked against available hours for every day a resource is booked.
+-- Utilisation above 100% means it is booked outside its working time or
+-- twice over.
+CREATE VIEW resource_utilisation_buckets AS
+SELECT
+    d.bucket,
+    d.resource_id,
+    d.resource_type,
+    d.booked_hours,
+    a.hours AS available_hours,
+    CASE WHEN a.hours > 0 THEN d.booked_hours / a.hours * 100 END AS utilisation_percent
+FROM (
+    SELECT
+        day AS bucket,
+        b.resource_id,
+        b.resource_type,
+        SUM(EXTRACT(EPOCH FROM (LEAST(b.ends_at, day + INTERVAL '1 day') - GREATEST(b.starts_at, day))) / 3600)
+            AS booked_hours
+    FROM resource_bookings b
+    CROSS JOIN LATERAL generate_series(
+        date_trunc('day', b.starts_at),
+        b.ends_at - INTERVAL '1 microsecond',
+        INTERVAL '1 day'
+    ) AS day
+    GROUP BY 1, 2, 3
+) d
+CROSS JOIN LATERAL (
+    SELECT resource_available_hours(d.resource_id, d.bucket, d.bucket + INTERVAL '1 day') AS hours
+) a;
+
+-- Every machine and worker in every bucket of the range, booked or not
+CREATE OR REPLACE FUNCTION resource_utilisation_trend(
+    range_start TIMESTAMPTZ,
+    range_end TIMESTAMPTZ,
+    bucket_size TEXT DEFAULT 'day',
+    time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS SETOF resource_utilisation_buckets AS $$
+DECLARE
+    unit TEXT := CASE WHEN bucket_size = 'week' THEN 'week' ELSE 'day' END;
+    step INTERVAL := CASE WHEN bucket_size = 'week' THEN INTERVAL '1 week' ELSE INTERVAL '1 day' END;
+BEGIN
+    RETURN QUERY
+    SELECT
+        slot.bucket,
+        r.id,
+        r.type,
+        booked.hours,
+        available.hours,
+        CASE WHEN available.hours > 0 THEN booked.hours / available.hours * 100 END
+    FROM resources r
+    CROSS JOIN LATERAL (
+        SELECT s AS bucket, GREATEST(s, range_start) AS from_at, LEAST(s + step, range_end) AS to_at
+        FROM generate_series(date_trunc(unit, range_start, time_zone), range_end - INTERVAL '1 microsecond', step) AS s
+    ) slot
+    CROSS JOIN LATERAL (
+        SELECT COALESCE(SUM(
+            EXTRACT(EPOCH FROM (LEAST(b.ends_at, slot.to_at) - GREATEST(b.starts_at, slot.from_at))) / 3600
+        ), 0) AS hours
+        FROM resource_bookings b
+        WHERE b.resource_id = r.id AND b.starts_at < slot.to_at AND b.ends_at > slot.from_at
+    ) booked
+    CROSS JOIN LATERAL (
+        SELECT resource_available_hours(r.id, slot.from_at, slot.to_at) AS hours
+    ) available
+    WHERE r.type <> 'material'
+    ORDER BY 1, 2;
+END;
+$$ language 'plpgsql' STABLE;
+
 -- Insert sample data
 INSERT INTO resources (name, type, status, capacity, hourly_cost, description) VALUES
     ('CNC Machine 01', 'machine', 'available', 100.00, 50.00, 'High precision CNC machine for metal parts'),
@@ -118,22 +2043,56 @@ INSERT INTO resources (name, type, status, capacity, hourly_cost, description) V
     ('John Smith', 'worker', 'available', 8.00, 25.00, 'Senior Machine Operator'),
     ('Sarah Johnson', 'worker', 'available', 8.00, 25.00, 'Assembly Line Supervisor'),
     ('Mike Williams', 'worker', 'available', 8.00, 22.00, 'Quality Control Inspector'),
-    ('Steel Grade A', 'material', 'available', 5000.00, 15.00, 'High-grade steel sheets'),
-    ('Aluminum Alloy', 'material', 'available', 3000.00, 20.00, 'Aircraft-grade aluminum');
+    ('Steel Grade A', 'material', 'available', 5000.00, NULL, 'High-grade steel sheets'),
+    ('Aluminum Alloy', 'material', 'available', 3000.00, NULL, 'Aircraft-grade aluminum');
+
+INSERT INTO production_orders (order_number, product_name, quantity, status, priority, scheduled_start, scheduled_end, actual_start, actual_end, notes) VALUES
+    ('PO-2024-001', 'Industrial Valve Type A', 100, 'in_progress', 5, NOW(), NOW() + INTERVAL '2 days', NOW(), NULL, 'Urgent order for key client'),
+    ('PO-2024-002', 'Pump Housing Unit', 50, 'scheduled', 3, NOW() + INTERVAL '1 day', NOW() + INTERVAL '3 days', NULL, NULL, 'Standard production run'),
+    ('PO-2024-003', 'Custom Gear Assembly', 200, 'pending', 2, NOW() + INTERVAL '3 days', NOW() + INTERVAL '7 days', NULL, NULL, 'Large order - plan carefully'),
+    ('PO-2024-004', 'Pressure Sensor Mount', 150, 'in_progress', 4, NOW() - INTERVAL '1 day', NOW() + INTERVAL '1 day', NOW() - INTERVAL '22 hours', NULL, 'Mid-priority order'),
+    ('PO-2024-005', 'Control Panel Bracket', 75, 'completed', 3, NOW() - INTERVAL '5 days', NOW() - INTERVAL '3 days', NOW() - INTERVAL '5 days', NOW() - INTERVAL '3 days 6 hours', 'Completed ahead of schedule');
 
-INSERT INTO production_orders (order_number, product_name, quantity, status, priority, scheduled_start, scheduled_end, notes) VALUES
-    ('PO-2024-001', 'Industrial Valve Type A', 100, 'in_progress', 5, NOW(), NOW() + INTERVAL '2 days', 'Urgent order for key client'),
-    ('PO-2024-002', 'Pump Housing Unit', 50, 'scheduled', 3, NOW() + INTERVAL '1 day', NOW() + INTERVAL '3 days', 'Standard production run'),
-    ('PO-2024-003', 'Custom Gear Assembly', 200, 'pending', 2, NOW() + INTERVAL '3 days', NOW() + INTERVAL '7 days', 'Large order - plan carefully'),
-    ('PO-2024-004', 'Pressure Sensor Mount', 150, 'in_progress', 4, NOW() - INTERVAL '1 day', NOW() + INTERVAL '1 day', 'Mid-priority order'),
-    ('PO-2024-005', 'Control Panel Bracket', 75, 'completed', 3, NOW() - INTERVAL '5 days', NOW() - INTERVAL '3 days', 'Completed ahead of schedule');
+-- Orders finished over the past weeks, for the trend charts
+INSERT INTO production_orders (order_number, product_name, quantity, status, priority, scheduled_start, scheduled_end, actual_start, actual_end, good_quantity, scrap_quantity, created_at)
+SELECT
+    h.order_number, h.product_name, h.quantity, 'completed', 3,
+    NOW() - h.started_ago, NOW() - h.started_ago + h.planned,
+    NOW() - h.started_ago, NOW() - h.started_ago + h.took,
+    h.good_quantity, h.quantity - h.good_quantity,
+    NOW() - h.started_ago - h.waited
+FROM (VALUES
+    ('PO-2023-041', 'Industrial Valve Type A', 120, INTERVAL '40 days', INTERVAL '2 days', INTERVAL '46 hours', INTERVAL '5 days', 117),
+    ('PO-2023-042', 'Pump Housing Unit', 60, INTERVAL '33 days', INTERVAL '2 days', INTERVAL '55 hours', INTERVAL '3 days', 58),
+    ('PO-2023-043', 'Control Panel Bracket', 200, INTERVAL '27 days', INTERVAL '1 day', INTERVAL '20 hours', INTERVAL '2 days', 196),
+    ('PO-2023-044', 'Industrial Valve Type A', 80, INTERVAL '21 days', INTERVAL '2 days', INTERVAL '2 days', INTERVAL '6 days', 80),
+    ('PO-2023-045', 'Pressure Sensor Mount', 150, INTERVAL '16 days', INTERVAL '2 days', INTERVAL '60 hours', INTERVAL '4 days', 141),
+    ('PO-2023-046', 'Pump Housing Unit', 40, INTERVAL '12 days', INTERVAL '1 day', INTERVAL '22 hours', INTERVAL '2 days', 40),
+    ('PO-2023-047', 'Control Panel Bracket', 120, INTERVAL '9 days', INTERVAL '1 day', INTERVAL '30 hours', INTERVAL '3 days', 115)
+) AS h(order_number, product_name, quantity, started_ago, planned, took, waited, good_quantity);
+
+-- The sample orders came in a few days before they were scheduled
+UPDATE production_orders
+SET created_at = LEAST(scheduled_start, NOW()) - INTERVAL '3 days'
+WHERE order_number LIKE 'PO-2024-%';
+
+-- Opening stock for materials
+INSERT INTO stock_movements (resource_id, movement_type, quantity, note)
+SELECT id, 'receipt', capacity, 'Opening stock'
+FROM resources
+WHERE type = 'material';
+
+UPDATE resources SET reorder_point = 1000.00 WHERE name = 'Steel Grade A';
+UPDATE resources SET reorder_point = 500.00 WHERE name = 'Aluminum Alloy';
+UPDATE resources SET unit_cost = 2.40 WHERE name = 'Steel Grade A';
+UPDATE resources SET unit_cost = 4.10 WHERE name = 'Aluminum Alloy';
 
 -- Allocate some resources to orders
 INSERT INTO resource_allocations (order_id, resource_id, allocated_quantity, start_time, end_time) 
 SELECT 
     po.id, 
     r.id,
-    50.00,
+    CASE WHEN r.type = 'worker' THEN 8.00 ELSE 50.00 END,
     po.scheduled_start,
     po.scheduled_end
 FROM production_orders po
@@ -146,11 +2105,100 @@ INSERT INTO resource_allocations (order_id, resource_id, allocated_quantity, sta
 SELECT 
     po.id, 
     r.id,
-    25.00,
+    CASE WHEN r.type = 'worker' THEN 8.00 ELSE 25.00 END,
     po.scheduled_start,
     po.scheduled_end
 FROM production_orders po
 CROSS JOIN resources r
 WHERE po.order_number = 'PO-2024-002' 
   AND r.name IN ('CNC Machine 02', 'Sarah Johnson')
-LIMIT 2;
\ No newline at end of file
+LIMIT 2;
+
+-- Product catalogue with bills of materials and routings
+INSERT INTO products (name, description) VALUES
+    ('Industrial Valve Type A', 'Machined steel gate valve'),
+    ('Pump Housing Unit', 'Aluminum centrifugal pump housing'),
+    ('Custom Gear Assembly', 'Made-to-order steel gear set'),
+    ('Pressure Sensor Mount', 'Aluminum bracket for inline pressure sensors'),
+    ('Control Panel Bracket', 'Folded steel mounting bracket');
+
+INSERT INTO product_materials (product_id, resource_id, quantity_per_unit)
+SELECT p.id, r.id, bom.quantity_per_unit
+FROM (VALUES
+    ('Industrial Valve Type A', 'Steel Grade A', 2.5),
+    ('Pump Housing Unit', 'Aluminum Alloy', 4.0),
+    ('Custom Gear Assembly', 'Steel Grade A', 1.2),
+    ('Pressure Sensor Mount', 'Aluminum Alloy', 0.8),
+    ('Control Panel Bracket', 'Steel Grade A', 0.5)
+) AS bom(product_name, resource_name, quantity_per_unit)
+JOIN products p ON p.name = bom.product_name
+JOIN resources r ON r.name = bom.resource_name;
+
+INSERT INTO product_operations (product_id, sequence, name, resource_type, resource_id, setup_minutes, run_minutes_per_unit)
+SELECT p.id, op.sequence, op.name, op.resource_type::resource_type, r.id, op.setup_minutes, op.run_minutes_per_unit
+FROM (VALUES
+    ('Industrial Valve Type A', 10, 'Machine body', 'machine', 'CNC Machine 01', 30, 6),
+    ('Industrial Valve Type A', 20, 'Assemble', 'machine', 'Assembly Line A', 15, 3),
+    ('Industrial Valve Type A', 30, 'Inspect', 'worker', 'Mike Williams', 0, 1),
+    ('Pump Housing Unit', 10, 'Machine housing', 'machine', 'CNC Machine 02', 45, 10),
+    ('Pump Housing Unit', 20, 'Pressure test', 'machine', 'Quality Control Station', 10, 2),
+    ('Custom Gear Assembly', 10, 'Cut gears', 'machine', 'CNC Machine 01', 60, 4),
+    ('Custom Gear Assembly', 20, 'Assemble', 'worker', 'Sarah Johnson', 0, 2),
+    ('Pressure Sensor Mount', 10, 'Machine mount', 'machine', 'CNC Machine 02', 20, 3),
+    ('Control Panel Bracket', 10, 'Cut and fold', 'machine', 'CNC Machine 01', 15, 2),
+    ('Control Panel Bracket', 20, 'Inspect', 'worker', NULL, 0, 0.5)
+) AS op(product_name, sequence, name, resource_type, resource_name, setup_minutes, run_minutes_per_unit)
+JOIN products p ON p.name = op.product_name
+LEFT JOIN resources r ON r.name = op.resource_name;
+
+-- Link the sample orders to their products (after their allocations, so
+-- nothing is generated for them)
+UPDATE production_orders po
+SET product_id = p.id
+FROM products p
+WHERE p.name = po.product_name;
+
+-- Gears for the custom assembly are cut after the pump housing run
+INSERT INTO order_dependencies (predecessor_id, successor_id, dependency_type)
+SELECT pred.id, succ.id, 'finish_to_start'
+FROM production_orders pred, production_orders succ
+WHERE pred.order_number = 'PO-2024-002' AND succ.order_number = 'PO-2024-003';
+
+-- Output so far on the running orders
+INSERT INTO production_reports (order_id, operation_id, good_quantity, scrap_quantity, note)
+SELECT po.id, op.id, rep.good_quantity, rep.scrap_quantity, rep.note
+FROM (VALUES
+    ('PO-2024-001', 10, 80, 3, 'Two bodies off tolerance, one damaged in handling'),
+    ('PO-2024-001', 30, 55, 2, NULL),
+    ('PO-2024-004', 10, 90, 4, NULL)
+) AS rep(order_number, sequence, good_quantity, scrap_quantity, note)
+JOIN production_orders po ON po.order_number = rep.order_number
+JOIN product_operations op ON op.product_id = po.product_id AND op.sequence = rep.sequence;
+
+-- Completed before reports were kept
+UPDATE production_orders SET good_quantity = 73, scrap_quantity = 2 WHERE order_number = 'PO-2024-005';
+
+-- Recent breakdowns and one issue still open on a running order
+INSERT INTO downtime_records (resource_id, order_id, reason_code, started_at, ended_at, notes)
+SELECT r.id, po.id, d.reason_code, NOW() - d.started_ago, NOW() - d.started_ago + d.duration, d.notes
+FROM (VALUES
+    ('CNC Machine 01', NULL, 'machine_fault', INTERVAL '20 days', INTERVAL '6 hours', 'Spindle bearing replaced'),
+    ('CNC Machine 02', NULL, 'tooling', INTERVAL '12 days', INTERVAL '2 hours', NULL),
+    ('Assembly Line A', NULL, 'material_shortage', INTERVAL '9 days', INTERVAL '3 hours', 'Fasteners late from supplier'),
+    ('CNC Machine 01', NULL, 'machine_fault', INTERVAL '4 days', INTERVAL '4 hours', 'Coolant pump failure'),
+    ('Quality Control Station', NULL, 'power_outage', INTERVAL '2 days', INTERVAL '90 minutes', NULL),
+    ('CNC Machine 02', 'PO-2024-004', 'quality_problem', INTERVAL '2 hours', NULL, 'Burrs on the mounting holes, checking the tool')
+) AS d(resource_name, order_number, reason_code, started_ago, duration, notes)
+JOIN resources r ON r.name = d.resource_name
+LEFT JOIN production_orders po ON po.order_number = d.order_number;
+
+-- Demo users (passwords: planner123, operator123, viewer123)
+INSERT INTO app_users (email, name, password_hash, role) VALUES
+    ('planner@example.com', 'Demo Planner', 'scrypt$063751ec152414a0ab503afa10292198$6995636c64e2afff68d08ffc83833fbd61cf21c7ac6b016d4b7c812b6bbc70abef2c8128f65c3fcf7f19fab37db33c589855b126b848ce43a6f1b310f97874ba', 'planner'),
+    ('operator@example.com', 'Demo Operator', 'scrypt$3c028c39df27c41c817b153f1e9cf6f4$b5009e43e8a4b96d571ddc8da07b5b2aaeb987d96acebd7a9eb9395c76e2cba3d8ec546595e7554393f22a1feeea9e36609f65724ddd9f6541dfbb87f5c9ab2d', 'operator'),
+    ('viewer@example.com', 'Demo Viewer', 'scrypt$52f352bcbce2cd7fb6b7882013b457f2$da4ef22b06b5d5fe90d87f6780a268b17f4e4af7a0089f4601b16db2c820f7884b853966dc9ef0644b9387d57762d33dc48881bdc8f9a284c81c6c493f18623b', 'viewer');
+
+-- The demo operator works as John Smith on the operator view
+UPDATE app_users
+SET resource_id = (SELECT id FROM resources WHERE name = 'John Smith')
+WHERE email = 'operator@example.com';
\ No newline at end of file
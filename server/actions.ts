@@ -0,0 +1,212 @@
+// Hasura Actions handler. Hasura POSTs { action, input, session_variables }
+// to ACTION_BASE_URL; see hasura/metadata/actions.graphql for the schema.
+// Cron triggers (hasura/metadata/cron_triggers.yaml) POST to /cron/<name>.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { planSchedule, SchedulerObjective } from '../src/scheduler/engine';
+import { ActionError, hasuraRequest } from './hasura';
+import { login, refreshToken } from './auth';
+import { requireEnv } from './env';
+
+const PORT = Number(process.env.PORT || 3001);
+// Hasura sends this with every action and cron call (actions.yaml,
+// cron_triggers.yaml); anything else could forge session_variables
+const ACTION_SECRET = requireEnv('ACTION_SECRET');
+
+const GET_SCHEDULER_INPUT = `
+  query GetSchedulerInput($now: timestamptz!) {
+    production_orders(where: { status: { _eq: "pending" } }) {
+      id
+      order_number
+      quantity
+      priority
+      status
+      scheduled_end
+    }
+    resources {
+      id
+      name
+      type
+      status
+      capacity
+      hourly_cost
+      time_zone
+    }
+    resource_shifts {
+      resource_id
+      day_of_week
+      start_time
+      end_time
+    }
+    resource_allocations(where: { order: { status: { _nin: ["cancelled", "completed"] } } }) {
+      resource_id
+      order_id
+      allocated_quantity
+      start_time
+      end_time
+      order {
+        status
+      }
+    }
+    resource_downtime_windows(where: { ends_at: { _gt: $now } }) {
+      resource_id
+      starts_at
+      ends_at
+    }
+    order_dependencies {
+      predecessor_id
+      successor_id
+      dependency_type
+      predecessor {
+        id
+        order_number
+        status
+        scheduled_start
+        scheduled_end
+      }
+      successor {
+        id
+        order_number
+        status
+        scheduled_start
+        scheduled_end
+      }
+    }
+  }
+`;
+
+// Linked orders that are not being planned keep their dates
+const fixedDependencyOrders = (dependencies: any[]) => {
+  const byId: Record<string, any> = {};
+  dependencies.forEach((dep) => {
+    [dep.predecessor, dep.successor].forEach((order) => {
+      if (order.status !== 'pending' && order.status !== 'cancelled') byId[order.id] = order;
+    });
+  });
+  return Object.values(byId);
+};
+
+const previewSchedule = async (input: { objective?: string | null }) => {
+  const objective: SchedulerObjective = input.objective === 'cost' ? 'cost' : 'lateness';
+  const now = new Date().toISOString();
+  const data = await hasuraRequest(GET_SCHEDULER_INPUT, { now });
+
+  return planSchedule({
+    objective,
+    now,
+    orders: data.production_orders.map((order: any) => ({
+      id: order.id,
+      order_number: order.order_number,
+      quantity: order.quantity,
+      priority: order.priority,
+      due: order.scheduled_end,
+      status: order.status,
+    })),
+    resources: data.resources.map((resource: any) => ({
+      ...resource,
+      capacity: resource.capacity === null ? null : Number(resource.capacity),
+      hourly_cost: resource.hourly_cost === null ? null : Number(resource.hourly_cost),
+    })),
+    allocations: data.resource_allocations.map((alloc: any) => ({
+      resource_id: alloc.resource_id,
+      order_id: alloc.order_id,
+      allocated_quantity: Number(alloc.allocated_quantity),
+      start_time: alloc.start_time,
+      end_time: alloc.end_time,
+      order_status: alloc.order.status,
+    })),
+    downtime: data.resource_downtime_windows,
+    shifts: data.resource_shifts,
+    dependencies: data.order_dependencies.filter(
+      (dep: any) => dep.predecessor.status !== 'cancelled' && dep.successor.status !== 'cancelled'
+    ),
+    fixedOrders: fixedDependencyOrders(data.order_dependencies),
+  });
+};
+
+const SYNC_MAINTENANCE_STATUS = `
+  mutation SyncMaintenanceStatus {
+    sync_maintenance_status {
+      id
+      name
+      status
+    }
+  }
+`;
+
+const syncMaintenanceStatus = async () => {
+  const data = await hasuraRequest(SYNC_MAINTENANCE_STATUS);
+  data.sync_maintenance_status.forEach((resource: any) =>
+    console.log(`Planned maintenance: ${resource.name} is now ${resource.status}`)
+  );
+  return { updated: data.sync_maintenance_status.length };
+};
+
+type SessionVariables = Record<string, string>;
+
+const handlers: Record<string, (input: any, session: SessionVariables) => Promise<unknown>> = {
+  preview_schedule: previewSchedule,
+  login,
+  refresh_token: (_input, session) => refreshToken(session['x-hasura-user-id']),
+};
+
+const cronHandlers: Record<string, () => Promise<unknown>> = {
+  '/cron/sync-maintenance-status': syncMaintenanceStatus,
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const fromHasura = (req: IncomingMessage) => {
+  const header = req.headers['x-action-secret'];
+  const expected = Buffer.from(ACTION_SECRET);
+  const actual = Buffer.from(typeof header === 'string' ? header : '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const send = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method !== 'POST') {
+    send(res, 405, { message: 'Method not allowed' });
+    return;
+  }
+  if (!fromHasura(req)) {
+    send(res, 401, { message: 'Unauthorized', extensions: { code: 'unauthorized' } });
+    return;
+  }
+
+  try {
+    const cronHandler = cronHandlers[req.url || ''];
+    if (cronHandler) {
+      send(res, 200, await cronHandler());
+      return;
+    }
+
+    const { action, input, session_variables } = JSON.parse(await readBody(req));
+    const handler = handlers[action?.name];
+    if (!handler) {
+      throw new ActionError(`Unknown action ${action?.name}`, 'not-found', 404);
+    }
+    send(res, 200, await handler(input || {}, session_variables || {}));
+  } catch (error: any) {
+    console.error('Action failed:', error);
+    const status = error instanceof ActionError ? error.status : 500;
+    send(res, status, {
+      message: error?.message || 'Action failed',
+      extensions: { code: error instanceof ActionError ? error.code : 'unexpected' },
+    });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Hasura action handler listening on :${PORT}`);
+});
@@ -0,0 +1,107 @@
+import { createHmac, scryptSync, timingSafeEqual } from 'node:crypto';
+import { ActionError, hasuraRequest } from './hasura';
+import { requireEnv } from './env';
+
+// Must match the key in HASURA_GRAPHQL_JWT_SECRET
+const JWT_SECRET = requireEnv('JWT_SECRET');
+const TOKEN_TTL_SECONDS = Number(process.env.JWT_TTL_SECONDS || 15 * 60);
+
+const base64Url = (input: Buffer | string) =>
+  Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+export const signToken = (payload: Record<string, unknown>) => {
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64Url(JSON.stringify(payload));
+  const signature = base64Url(createHmac('sha256', JWT_SECRET).update(`${header}.${body}`).digest());
+  return `${header}.${body}.${signature}`;
+};
+
+// Hashes are stored as scrypt$<salt>$<hex digest>
+export const verifyPassword = (password: string, stored: string) => {
+  const [scheme, salt, digest] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !digest) return false;
+  const expected = Buffer.from(digest, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+interface AppUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  password_hash: string;
+  resource_id: string | null;
+}
+
+const issueToken = (user: AppUser) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + TOKEN_TTL_SECONDS;
+  const token = signToken({
+    sub: user.id,
+    name: user.name,
+    iat: issuedAt,
+    exp: expiresAt,
+    'https://hasura.io/jwt/claims': {
+      'x-hasura-allowed-roles': [user.role],
+      'x-hasura-default-role': user.role,
+      'x-hasura-user-id': user.id,
+      // The worker or machine an operator works as, for the operator view
+      ...(user.resource_id ? { 'x-hasura-resource-id': user.resource_id } : {}),
+    },
+  });
+  return {
+    token,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+    user_id: user.id,
+    name: user.name,
+    role: user.role,
+  };
+};
+
+const GET_USER_BY_EMAIL = `
+  query GetUserByEmail($email: String!) {
+    app_users(where: { email: { _eq: $email } }, limit: 1) {
+      id
+      email
+      name
+      role
+      password_hash
+      resource_id
+    }
+  }
+`;
+
+const GET_USER_BY_ID = `
+  query GetUserById($id: uuid!) {
+    app_users_by_pk(id: $id) {
+      id
+      email
+      name
+      role
+      password_hash
+      resource_id
+    }
+  }
+`;
+
+export const login = async (input: { email: string; password: string }) => {
+  const data = await hasuraRequest(GET_USER_BY_EMAIL, { email: input.email.trim().toLowerCase() });
+  const user: AppUser | undefined = data.app_users[0];
+  if (!user || !verifyPassword(input.password, user.password_hash)) {
+    throw new ActionError('Invalid email or password', 'invalid-credentials', 401);
+  }
+  return issueToken(user);
+};
+
+// Hasura only forwards this action once it has validated the caller's current token
+export const refreshToken = async (userId?: string) => {
+  if (!userId) {
+    throw new ActionError('Not signed in', 'invalid-jwt', 401);
+  }
+  const data = await hasuraRequest(GET_USER_BY_ID, { id: userId });
+  if (!data.app_users_by_pk) {
+    throw new ActionError('User no longer exists', 'invalid-jwt', 401);
+  }
+  return issueToken(data.app_users_by_pk);
+};
@@ -0,0 +1,9 @@
+// Secrets have no defaults: a deployment that forgets one must not start
+// with a publicly known value
+export const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set`);
+  }
+  return value;
+};
@@ -0,0 +1,29 @@
+import { requireEnv } from './env';
+
+const HASURA_HTTP_URL = process.env.HASURA_GRAPHQL_URL || 'http://localhost:8080/v1/graphql';
+const HASURA_ADMIN_SECRET = requireEnv('HASURA_GRAPHQL_ADMIN_SECRET');
+
+// Surfaced to the client as { message, extensions: { code } }
+export class ActionError extends Error {
+  constructor(message: string, public code = 'bad-request', public status = 400) {
+    super(message);
+  }
+}
+
+// The handler talks to Hasura with the admin secret; callers are trusted
+// only through the session variables Hasura forwards with each action
+export const hasuraRequest = async (query: string, variables: Record<string, unknown> = {}) => {
+  const response = await fetch(HASURA_HTTP_URL, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-hasura-admin-secret': HASURA_ADMIN_SECRET,
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+  const body = await response.json();
+  if (body.errors) {
+    throw new ActionError(body.errors[0].message, 'hasura-error', 500);
+  }
+  return body.data;
+};
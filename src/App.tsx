@@ -1,8 +1,20 @@
 import { ApolloProvider } from '@apollo/client';
+import { useEffect, useState } from 'react';
 import { apolloClient } from './apolloClient';
+import { logout, startTokenRefresh } from './auth/authClient';
+import useAuth from './hooks/useAuth';
 import Dashboard from './components/Dashboard';
+import OperatorView from './components/OperatorView';
+import Login from './components/Login';
 
 function App() {
+  const { session } = useAuth();
+  // Operators linked to a worker or machine start on the shop-floor screen
+  const [planningView, setPlanningView] = useState(false);
+  const operatorMode = Boolean(session?.resourceId) && !planningView;
+
+  useEffect(() => startTokenRefresh(), []);
+
   return (
     <ApolloProvider client={apolloClient}>
       <div className="min-h-screen bg-gray-50">
@@ -24,13 +36,35 @@ function App() {
                     Live Updates
                   </span>
                 </div>
+                {session && (
+                  <>
+                    {session.resourceId && (
+                      <button
+                        onClick={() => setPlanningView(!planningView)}
+                        className="px-3 py-1.5 text-sm font-medium text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                      >
+                        {operatorMode ? 'Planning view' : 'Operator view'}
+                      </button>
+                    )}
+                    <div className="text-right px-2">
+                      <p className="text-sm font-medium text-gray-900">{session.name}</p>
+                      <p className="text-xs text-gray-500 capitalize">{session.role}</p>
+                    </div>
+                    <button
+                      onClick={() => logout()}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      Sign out
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           </div>
         </header>
 
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-          <Dashboard />
+          {!session ? <Login /> : operatorMode ? <OperatorView /> : <Dashboard />}
         </main>
 
         <footer className="bg-white border-t border-gray-200 mt-12">
@@ -1,31 +1,35 @@
 
 import { ApolloClient, InMemoryCache, HttpLink, split } from '@apollo/client';
+import { setContext } from '@apollo/client/link/context';
 import { GraphQLWsLink } from '@apollo/client/link/subscriptions';
 import { getMainDefinition } from '@apollo/client/utilities';
 import { createClient } from 'graphql-ws';
+import { authHeaders, subscribeSession } from './auth/session';
 
 const HASURA_HTTP_URL = 'http://localhost:8080/v1/graphql';
 const HASURA_WS_URL = 'ws://localhost:8080/v1/graphql';
 
-// HTTP connection for queries and mutations
-const httpLink = new HttpLink({
-  uri: HASURA_HTTP_URL,
+// HTTP connection for queries and mutations; requests without a token run
+// as Hasura's unauthorized role (anonymous), which may only call login
+const httpLink = setContext((_, { headers }) => ({
   headers: {
-    'x-hasura-admin-secret': 'myadminsecretkey',
+    ...headers,
+    ...authHeaders(),
   },
+})).concat(new HttpLink({ uri: HASURA_HTTP_URL }));
+
+// WebSocket connection for subscriptions. connectionParams is read on every
+// (re)connect, so the socket always presents the current token.
+const wsClient = createClient({
+  url: HASURA_WS_URL,
+  connectionParams: () => ({
+    headers: authHeaders(),
+  }),
 });
+const wsLink = new GraphQLWsLink(wsClient);
 
-// WebSocket connection for subscriptions
-const wsLink = new GraphQLWsLink(
-  createClient({
-    url: HASURA_WS_URL,
-    connectionParams: {
-      headers: {
-        'x-hasura-admin-secret': 'myadminsecretkey',
-      },
-    },
-  })
-);
+// Hasura only reads the token at connection time: reconnect when it changes
+subscribeSession(() => wsClient.terminate());
 
 // Split link to route queries/mutations to HTTP and subscriptions to WebSocket
 const splitLink = split(
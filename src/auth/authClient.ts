@@ -0,0 +1,70 @@
+import { gql } from '@apollo/client';
+import { apolloClient } from '../apolloClient';
+import { getSession, setSessionToken, subscribeSession } from './session';
+
+const LOGIN = gql`
+  mutation Login($email: String!, $password: String!) {
+    login(email: $email, password: $password) {
+      token
+      expires_at
+      role
+      name
+    }
+  }
+`;
+
+const REFRESH_TOKEN = gql`
+  mutation RefreshToken {
+    refresh_token {
+      token
+      expires_at
+    }
+  }
+`;
+
+// Refresh a minute before the token runs out
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export const login = async (email: string, password: string) => {
+  const { data } = await apolloClient.mutate({
+    mutation: LOGIN,
+    variables: { email, password },
+  });
+  // Drop anything cached under the previous identity before new queries run
+  await apolloClient.clearStore();
+  setSessionToken(data.login.token);
+};
+
+export const logout = async () => {
+  setSessionToken(null);
+  await apolloClient.clearStore();
+};
+
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+const scheduleRefresh = () => {
+  clearTimeout(refreshTimer);
+  const session = getSession();
+  if (!session) return;
+
+  const delay = Math.max(session.expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+  refreshTimer = setTimeout(async () => {
+    try {
+      const { data } = await apolloClient.mutate({ mutation: REFRESH_TOKEN });
+      setSessionToken(data.refresh_token.token);
+    } catch (error) {
+      console.error('Error refreshing token:', error);
+      await logout();
+    }
+  }, delay);
+};
+
+// Keeps the session token fresh for as long as the app is open
+export const startTokenRefresh = () => {
+  scheduleRefresh();
+  const unsubscribe = subscribeSession(scheduleRefresh);
+  return () => {
+    clearTimeout(refreshTimer);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,67 @@
+// Holds the signed-in user's JWT and notifies subscribers when it changes.
+// The token is issued by the login action (server/auth.ts).
+
+export type UserRole = 'planner' | 'operator' | 'viewer';
+
+export interface Session {
+  token: string;
+  userId: string;
+  name: string;
+  role: UserRole;
+  // Set for operator accounts linked to a worker or machine
+  resourceId: string | null;
+  expiresAt: number;
+}
+
+const STORAGE_KEY = 'production-scheduler.token';
+const HASURA_CLAIMS = 'https://hasura.io/jwt/claims';
+
+type Listener = (session: Session | null) => void;
+const listeners = new Set<Listener>();
+
+export const decodeToken = (token: string): Session | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    const claims = payload[HASURA_CLAIMS];
+    return {
+      token,
+      userId: claims['x-hasura-user-id'],
+      name: payload.name,
+      role: claims['x-hasura-default-role'],
+      resourceId: claims['x-hasura-resource-id'] || null,
+      expiresAt: payload.exp * 1000,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const loadSession = () => {
+  const token = localStorage.getItem(STORAGE_KEY);
+  const session = token ? decodeToken(token) : null;
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+let current: Session | null = loadSession();
+
+export const getSession = () => current;
+
+export const setSessionToken = (token: string | null) => {
+  current = token ? decodeToken(token) : null;
+  if (current) {
+    localStorage.setItem(STORAGE_KEY, current.token);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener(current));
+};
+
+export const subscribeSession = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const authHeaders = (): Record<string, string> =>
+  current ? { Authorization: `Bearer ${current.token}` } : {};
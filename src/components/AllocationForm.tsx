@@ -0,0 +1,453 @@
+import { useQuery, useMutation, gql } from '@apollo/client';
+import { useState, useEffect, useMemo } from 'react';
+import { toDateTimeLocal, fromDateTimeLocal } from '../utils/orderValidation';
+import { detectAllocationConflicts, parseConflictError } from '../utils/conflicts';
+import { calendarIssue, parseUnavailableError } from '../utils/availability';
+import { availableStock, parseStockError } from '../utils/inventory';
+import { CostedResource } from '../utils/cost';
+
+const GET_RESOURCES_BY_TYPE = gql`
+  query GetResourcesByType($type: resource_type!) {
+    resources(where: { type: { _eq: $type }, decommissioned_at: { _is_null: true } }, order_by: { name: asc }) {
+      id
+      name
+      status
+      capacity
+      hourly_cost
+      unit_cost
+      stock_on_hand
+      stock_reserved
+    }
+  }
+`;
+
+const GET_ALLOCATIONS_FOR_RESOURCE = gql`
+  query GetAllocationsForResource($resource_id: uuid!) {
+    resource_allocations(where: { resource_id: { _eq: $resource_id } }) {
+      id
+      order_id
+      allocated_quantity
+      start_time
+      end_time
+      order {
+        id
+        order_number
+        status
+      }
+    }
+  }
+`;
+
+const GET_RESOURCE_CALENDAR = gql`
+  query GetResourceCalendar($resource_id: uuid!) {
+    resources_by_pk(id: $resource_id) {
+      id
+      time_zone
+    }
+    resource_shifts(where: { resource_id: { _eq: $resource_id } }) {
+      id
+      day_of_week
+      start_time
+      end_time
+    }
+    resource_downtime_windows(
+      where: { _or: [{ resource_id: { _eq: $resource_id } }, { resource_id: { _is_null: true } }] }
+    ) {
+      id
+      kind
+      starts_at
+      ends_at
+      reason
+    }
+  }
+`;
+
+const ALLOCATE_RESOURCE = gql`
+  mutation AllocateResource(
+    $order_id: uuid!
+    $resource_id: uuid!
+    $allocated_quantity: numeric!
+    $start_time: timestamptz!
+    $end_time: timestamptz
+    $notes: String
+    $override_conflicts: Boolean = false
+    $override_reason: String
+  ) {
+    insert_resource_allocations_one(
+      object: {
+        order_id: $order_id
+        resource_id: $resource_id
+        allocated_quantity: $allocated_quantity
+        start_time: $start_time
+        end_time: $end_time
+        notes: $notes
+        override_conflicts: $override_conflicts
+        override_reason: $override_reason
+      }
+    ) {
+      id
+      allocated_quantity
+      start_time
+      end_time
+      notes
+      override_conflicts
+      override_reason
+      planned_cost
+      actual_cost
+      resource {
+        id
+        name
+        type
+        status
+        hourly_cost
+        unit_cost
+      }
+    }
+  }
+`;
+
+const ORDER_ALLOCATION_FRAGMENT = gql`
+  fragment OrderAllocation on resource_allocations {
+    id
+    allocated_quantity
+    start_time
+    end_time
+    notes
+    override_conflicts
+    override_reason
+    planned_cost
+    actual_cost
+    resource {
+      id
+      name
+      type
+      status
+      hourly_cost
+      unit_cost
+    }
+  }
+`;
+
+type ResourceType = 'machine' | 'worker' | 'material';
+
+export interface AllocationDraft {
+  resource: CostedResource;
+  allocated_quantity: number;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+interface AllocationFormProps {
+  order: any;
+  onDraftChange: (draft: AllocationDraft | null) => void;
+  onDone: () => void;
+}
+
+const AllocationForm = ({ order, onDraftChange, onDone }: AllocationFormProps) => {
+  const [resourceType, setResourceType] = useState<ResourceType>('machine');
+  const [resourceId, setResourceId] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [startTime, setStartTime] = useState(() => toDateTimeLocal(order.scheduled_start));
+  const [endTime, setEndTime] = useState(() => toDateTimeLocal(order.scheduled_end));
+  const [notes, setNotes] = useState('');
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [serverConflicts, setServerConflicts] = useState<string[] | null>(null);
+
+  const { data, loading } = useQuery(GET_RESOURCES_BY_TYPE, {
+    variables: { type: resourceType },
+  });
+  const [allocateResource, { loading: saving }] = useMutation(ALLOCATE_RESOURCE);
+
+  const resources = data?.resources || [];
+  const selectedResource = resources.find((r: any) => r.id === resourceId);
+
+  const { data: allocationData } = useQuery(GET_ALLOCATIONS_FOR_RESOURCE, {
+    variables: { resource_id: resourceId },
+    skip: !resourceId,
+    fetchPolicy: 'network-only',
+  });
+
+  const { data: calendarData } = useQuery(GET_RESOURCE_CALENDAR, {
+    variables: { resource_id: resourceId },
+    skip: !resourceId,
+    fetchPolicy: 'network-only',
+  });
+
+  const availabilityIssue = useMemo(() => {
+    if (!selectedResource || resourceType === 'material' || !startTime || !calendarData) return null;
+    return calendarIssue(
+      selectedResource.name,
+      calendarData.resource_shifts,
+      calendarData.resource_downtime_windows,
+      calendarData.resources_by_pk?.time_zone || 'UTC',
+      fromDateTimeLocal(startTime)!,
+      fromDateTimeLocal(endTime)
+    );
+  }, [selectedResource, resourceType, calendarData, startTime, endTime]);
+
+  const conflicts = useMemo(() => {
+    if (!selectedResource || !startTime || !allocationData) return [];
+    return detectAllocationConflicts(
+      {
+        order_id: order.id,
+        allocated_quantity: Number(quantity) || 0,
+        start_time: fromDateTimeLocal(startTime)!,
+        end_time: fromDateTimeLocal(endTime),
+      },
+      allocationData.resource_allocations.map((alloc: any) => ({
+        id: alloc.id,
+        order_id: alloc.order_id,
+        order_number: alloc.order.order_number,
+        order_status: alloc.order.status,
+        allocated_quantity: alloc.allocated_quantity,
+        start_time: alloc.start_time,
+        end_time: alloc.end_time,
+      })),
+      { ...selectedResource, type: resourceType }
+    );
+  }, [selectedResource, resourceType, allocationData, order.id, quantity, startTime, endTime]);
+
+  useEffect(() => setServerConflicts(null), [resourceId, quantity, startTime, endTime]);
+
+  const conflictMessages = serverConflicts || [
+    ...conflicts.map((conflict) => conflict.message),
+    ...(availabilityIssue ? [availabilityIssue] : []),
+  ];
+
+  // Feed the in-progress allocation back so the estimated cost updates as we type
+  useEffect(() => {
+    if (!selectedResource) {
+      onDraftChange(null);
+      return;
+    }
+    onDraftChange({
+      resource: { ...selectedResource, type: resourceType },
+      allocated_quantity: Number(quantity) || 0,
+      start_time: fromDateTimeLocal(startTime),
+      end_time: fromDateTimeLocal(endTime),
+    });
+  }, [selectedResource, resourceType, quantity, startTime, endTime, onDraftChange]);
+
+  useEffect(() => () => onDraftChange(null), [onDraftChange]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!selectedResource) {
+      setError('Select a resource');
+      return;
+    }
+    if (!(Number(quantity) > 0)) {
+      setError('Quantity must be greater than 0');
+      return;
+    }
+    if (resourceType === 'material' && Number(quantity) > availableStock(selectedResource)) {
+      setError(`Only ${availableStock(selectedResource)} of ${selectedResource.name} is in stock`);
+      return;
+    }
+    if (!startTime) {
+      setError('Start time is required');
+      return;
+    }
+    if (endTime && new Date(endTime) <= new Date(startTime)) {
+      setError('End time must be after start time');
+      return;
+    }
+    if (conflictMessages.length > 0 && !overrideConflicts) {
+      setError('Resolve the conflicts or override them');
+      return;
+    }
+    if (overrideConflicts && !overrideReason.trim()) {
+      setError('An override needs a reason');
+      return;
+    }
+
+    try {
+      await allocateResource({
+        variables: {
+          order_id: order.id,
+          resource_id: selectedResource.id,
+          allocated_quantity: Number(quantity),
+          start_time: fromDateTimeLocal(startTime),
+          end_time: fromDateTimeLocal(endTime),
+          notes: notes.trim() || null,
+          override_conflicts: overrideConflicts,
+          override_reason: overrideConflicts ? overrideReason.trim() : null,
+        },
+        update(cache, { data }) {
+          const created = data?.insert_resource_allocations_one;
+          if (!created) return;
+          cache.modify({
+            id: cache.identify({ __typename: 'production_orders', id: order.id }),
+            fields: {
+              resource_allocations(existingRefs = [], { readField }) {
+                if (existingRefs.some((ref: any) => readField('id', ref) === created.id)) {
+                  return existingRefs;
+                }
+                const newRef = cache.writeFragment({
+                  data: created,
+                  fragment: ORDER_ALLOCATION_FRAGMENT,
+                });
+                return [...existingRefs, newRef];
+              },
+            },
+          });
+        },
+      });
+      onDone();
+    } catch (error: any) {
+      console.error('Error allocating resource:', error);
+      const rejected = parseConflictError(error?.message);
+      if (rejected) {
+        // Someone else booked the resource since our conflict check ran
+        setServerConflicts(rejected);
+        setError('The allocation was rejected because of conflicts');
+      } else if (parseStockError(error?.message)) {
+        setError(parseStockError(error?.message));
+      } else if (parseUnavailableError(error?.message)) {
+        setError(parseUnavailableError(error?.message));
+      } else if (error?.message?.includes('resource_allocations_order_id_resource_id_start_time_key')) {
+        setError(`${selectedResource.name} is already allocated to this order at that start time`);
+      } else {
+        setError(error?.message || 'Failed to allocate resource');
+      }
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 bg-blue-50 rounded-lg border border-blue-200 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={resourceType}
+            onChange={(e) => {
+              setResourceType(e.target.value as ResourceType);
+              setResourceId('');
+            }}
+            className={inputClass}
+          >
+            <option value="machine">Machine</option>
+            <option value="worker">Worker</option>
+            <option value="material">Material</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Resource</label>
+          <select
+            value={resourceId}
+            onChange={(e) => setResourceId(e.target.value)}
+            disabled={loading}
+            className={inputClass}
+          >
+            <option value="">{loading ? 'Loading…' : 'Select…'}</option>
+            {resources.map((resource: any) => (
+              <option key={resource.id} value={resource.id}>
+                {resource.name} ({resource.status.replace('_', ' ')})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          Quantity
+          {resourceType === 'material' && selectedResource
+            ? ` (${availableStock(selectedResource)} in stock)`
+            : selectedResource?.capacity
+            ? ` (capacity ${selectedResource.capacity})`
+            : ''}
+        </label>
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Start</label>
+          <input
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">End</label>
+          <input
+            type="datetime-local"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+        <input value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+      </div>
+
+      {conflictMessages.length > 0 && (
+        <div className="p-2 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+          <p className="text-xs font-semibold text-amber-800">Conflicts</p>
+          <ul className="text-xs text-amber-800 list-disc list-inside">
+            {conflictMessages.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+          <label className="flex items-center space-x-2 text-xs text-amber-900">
+            <input
+              type="checkbox"
+              checked={overrideConflicts}
+              onChange={(e) => setOverrideConflicts(e.target.checked)}
+            />
+            <span>Override and allocate anyway</span>
+          </label>
+          {overrideConflicts && (
+            <input
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              placeholder="Reason for override"
+              className={inputClass}
+            />
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded-lg"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1.5 text-xs font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg disabled:opacity-50"
+        >
+          {saving ? 'Allocating…' : 'Allocate'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AllocationForm;
@@ -1,5 +1,6 @@
 import { useQuery, gql } from '@apollo/client';
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { format, startOfMonth, startOfWeek } from 'date-fns';
 import {
   BarChart,
   Bar,
@@ -12,37 +13,124 @@ import {
   PieChart,
   Pie,
   Cell,
+  ComposedChart,
+  Line,
+  ReferenceLine,
 } from 'recharts';
+import { formatVariance } from '../utils/variance';
+import { scrapRate, yieldRate } from '../utils/progress';
+import AnalyticsTrends from './AnalyticsTrends';
+import UtilisationHeatmap from './UtilisationHeatmap';
+import { formatHours, paretoByReason } from '../utils/downtime';
+import { costVarianceColor, formatCost, formatCostVariance, summariseCosts } from '../utils/cost';
+import { DateRange, RANGE_PRESET_DAYS, TrendBucket, lastDays, rangeBounds, viewerTimeZone } from '../utils/trends';
+import {
+  formatPercent,
+  loadBottleneckThreshold,
+  saveBottleneckThreshold,
+  summariseUtilisation,
+} from '../utils/utilisation';
+
+// Daily, per resource; resource_utilisation_trend works out the available hours
+const GET_RESOURCE_UTILISATION = gql`
+  query GetResourceUtilisation($range_start: timestamptz!, $range_end: timestamptz!, $time_zone: String!) {
+    resource_utilisation_trend(
+      args: { range_start: $range_start, range_end: $range_end, bucket_size: "day", time_zone: $time_zone }
+    ) {
+      bucket
+      resource_id
+      resource_type
+      booked_hours
+      available_hours
+      resource {
+        name
+      }
+    }
+  }
+`;
 
 const GET_ANALYTICS_DATA = gql`
-  query GetAnalyticsData {
+  query GetAnalyticsData($range_start: timestamptz!, $range_end: timestamptz!) {
     production_orders {
       status
       priority
       quantity
+      product_name
+      good_quantity
+      scrap_quantity
     }
     resources {
       type
       status
       hourly_cost
-      resource_allocations_aggregate {
-        aggregate {
-          count
-        }
-      }
     }
     order_events_aggregate {
       aggregate {
         count
       }
     }
+    downtime_records(
+      where: {
+        started_at: { _lt: $range_end }
+        _or: [{ ended_at: { _is_null: true } }, { ended_at: { _gte: $range_start } }]
+      }
+    ) {
+      reason_code
+      started_at
+      ended_at
+      reason {
+        label
+      }
+    }
+    order_costs(
+      where: {
+        status: { _eq: "completed" }
+        planned_cost: { _gt: 0 }
+        costed_at: { _gte: $range_start, _lt: $range_end }
+      }
+    ) {
+      product_name
+      costed_at
+      planned_cost
+      actual_cost
+    }
+    order_schedule_variance(where: { status: { _eq: "completed" }, on_time: { _is_null: false } }) {
+      on_time
+      finish_variance_hours
+    }
   }
 `;
 
+type CostGrouping = 'product' | 'week' | 'month';
+
+const COST_GROUPINGS: Record<CostGrouping, string> = {
+  product: 'By product',
+  week: 'By week',
+  month: 'By month',
+};
+
 const Analytics = () => {
+  const [costGrouping, setCostGrouping] = useState<CostGrouping>('product');
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [bucket, setBucket] = useState<TrendBucket>('day');
+  const { start: rangeStart, end: rangeEnd } = useMemo(() => rangeBounds(range), [range]);
   const { data, loading } = useQuery(GET_ANALYTICS_DATA, {
+    variables: { range_start: rangeStart.toISOString(), range_end: rangeEnd.toISOString() },
     pollInterval: 10000, // Refresh every 10 seconds
   });
+  const { data: utilisationData } = useQuery(GET_RESOURCE_UTILISATION, {
+    variables: {
+      range_start: rangeStart.toISOString(),
+      range_end: rangeEnd.toISOString(),
+      time_zone: viewerTimeZone(),
+    },
+    pollInterval: 60000,
+  });
+  const [bottleneckThreshold, setBottleneckThreshold] = useState(loadBottleneckThreshold);
+
+  useEffect(() => saveBottleneckThreshold(bottleneckThreshold), [bottleneckThreshold]);
+
+  const utilisationRows = useMemo(() => utilisationData?.resource_utilisation_trend || [], [utilisationData]);
 
   const statusData = useMemo(() => {
     if (!data?.production_orders) return [];
@@ -58,27 +146,21 @@ const Analytics = () => {
     }));
   }, [data]);
 
-  const resourceTypeData = useMemo(() => {
-    if (!data?.resources) return [];
-    
-    const typeCounts: Record<string, { count: number; active: number }> = {};
-    data.resources.forEach((resource: any) => {
-      if (!typeCounts[resource.type]) {
-        typeCounts[resource.type] = { count: 0, active: 0 };
-      }
-      typeCounts[resource.type].count++;
-      if (resource.resource_allocations_aggregate.aggregate.count > 0) {
-        typeCounts[resource.type].active++;
-      }
-    });
+  const resourceTypeData = useMemo(
+    () =>
+      summariseUtilisation(utilisationRows, (row) => row.resource_type).map((group) => ({
+        name: group.name,
+        utilisation: group.percent === null ? 0 : Math.round(group.percent),
+        booked: Math.round(group.booked),
+        available: Math.round(group.available),
+      })),
+    [utilisationRows]
+  );
 
-    return Object.entries(typeCounts).map(([type, data]) => ({
-      name: type,
-      total: data.count,
-      active: data.active,
-      idle: data.count - data.active,
-    }));
-  }, [data]);
+  const overallUtilisation = useMemo(() => {
+    const [all] = summariseUtilisation(utilisationRows, () => 'all');
+    return all ? all.percent : null;
+  }, [utilisationRows]);
 
   const priorityData = useMemo(() => {
     if (!data?.production_orders) return [];
@@ -96,9 +178,58 @@ const Analytics = () => {
       }));
   }, [data]);
 
+  const yieldData = useMemo(() => {
+    if (!data?.production_orders) return [];
+
+    const byProduct: Record<string, { good: number; scrap: number }> = {};
+    data.production_orders.forEach((order: any) => {
+      if (order.good_quantity + order.scrap_quantity === 0) return;
+      if (!byProduct[order.product_name]) {
+        byProduct[order.product_name] = { good: 0, scrap: 0 };
+      }
+      byProduct[order.product_name].good += order.good_quantity;
+      byProduct[order.product_name].scrap += order.scrap_quantity;
+    });
+
+    return Object.entries(byProduct)
+      .map(([name, totals]) => ({
+        name,
+        good: totals.good,
+        scrap: totals.scrap,
+        yield: yieldRate(totals.good, totals.scrap)!,
+        scrapRate: scrapRate(totals.good, totals.scrap)!,
+      }))
+      .sort((a, b) => a.yield - b.yield);
+  }, [data]);
+
+  const paretoData = useMemo(
+    () => {
+      // Open records count up to now, or to the end of a range in the past
+      const now = new Date();
+      return paretoByReason(data?.downtime_records || [], rangeStart, rangeEnd < now ? rangeEnd : now);
+    },
+    [data, rangeStart, rangeEnd]
+  );
+
+  const costData = useMemo(() => {
+    const rows = data?.order_costs || [];
+    if (costGrouping === 'product') {
+      return summariseCosts(rows, (row: any) => row.product_name).sort((a, b) => b.variance - a.variance);
+    }
+    // Sortable keys, labelled once grouped
+    const periodStart = (value: string) =>
+      costGrouping === 'week' ? startOfWeek(new Date(value), { weekStartsOn: 1 }) : startOfMonth(new Date(value));
+    return summariseCosts(rows, (row: any) => format(periodStart(row.costed_at), 'yyyy-MM-dd'))
+      .sort((a, b) => (a.name < b.name ? -1 : 1))
+      .map((row) => ({
+        ...row,
+        name: format(new Date(`${row.name}T00:00`), costGrouping === 'week' ? "'Week of' MMM dd" : 'MMM yyyy'),
+      }));
+  }, [data, costGrouping]);
+
   const COLORS = ['#0ea5e9', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6'];
 
-  if (loading) {
+  if (loading && !data) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
         <div className="flex items-center justify-center">
@@ -111,14 +242,20 @@ const Analytics = () => {
   const totalOrders = data?.production_orders?.length || 0;
   const totalResources = data?.resources?.length || 0;
   const totalEvents = data?.order_events_aggregate?.aggregate?.count || 0;
-  const activeResources = data?.resources?.filter(
-    (r: any) => r.resource_allocations_aggregate.aggregate.count > 0
-  ).length || 0;
+  const deliveredOrders = data?.order_schedule_variance || [];
+  const onTimeOrders = deliveredOrders.filter((o: any) => o.on_time).length;
+  const onTimeRate = deliveredOrders.length > 0 ? (onTimeOrders / deliveredOrders.length) * 100 : null;
+  const avgFinishVariance = deliveredOrders.length > 0
+    ? deliveredOrders.reduce((sum: number, o: any) => sum + Number(o.finish_variance_hours), 0) / deliveredOrders.length
+    : null;
+
+  const inputClass =
+    'px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
 
   return (
     <div className="space-y-6">
       {/* KPI Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center justify-between">
             <div>
@@ -146,8 +283,9 @@ const Analytics = () => {
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-500">Active Resources</p>
-              <p className="text-3xl font-bold text-gray-900 mt-2">{activeResources}</p>
+              <p className="text-sm font-medium text-gray-500">Utilisation</p>
+              <p className="text-3xl font-bold text-gray-900 mt-2">{formatPercent(overallUtilisation)}</p>
+              <p className="text-xs text-gray-500 mt-1">Booked of available hours in the period</p>
             </div>
             <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center">
               <span className="text-2xl">⚡</span>
@@ -166,8 +304,71 @@ const Analytics = () => {
             </div>
           </div>
         </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-500">On-Time Delivery</p>
+              <p className="text-3xl font-bold text-gray-900 mt-2">
+                {onTimeRate === null ? '—' : `${onTimeRate.toFixed(0)}%`}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {onTimeOrders}/{deliveredOrders.length} completed
+                {avgFinishVariance !== null && ` • avg ${formatVariance(avgFinishVariance)}`}
+              </p>
+            </div>
+            <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center">
+              <span className="text-2xl">⏱️</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Period */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Period</span>
+        {RANGE_PRESET_DAYS.map((days) => {
+          const preset = lastDays(days);
+          const active = preset.from === range.from && preset.to === range.to;
+          return (
+            <button
+              key={days}
+              onClick={() => setRange(preset)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                active ? 'bg-primary-500 text-white' : 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+              }`}
+            >
+              Last {days} days
+            </button>
+          );
+        })}
+        <input
+          type="date"
+          value={range.from}
+          max={range.to}
+          onChange={(e) => e.target.value && setRange((prev) => ({ ...prev, from: e.target.value }))}
+          className={inputClass}
+        />
+        <span className="text-sm text-gray-500">to</span>
+        <input
+          type="date"
+          value={range.to}
+          min={range.from}
+          onChange={(e) => e.target.value && setRange((prev) => ({ ...prev, to: e.target.value }))}
+          className={inputClass}
+        />
+        <select
+          value={bucket}
+          onChange={(e) => setBucket(e.target.value as TrendBucket)}
+          className={`${inputClass} ml-auto`}
+        >
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+        </select>
       </div>
 
+      <AnalyticsTrends range={range} bucket={bucket} bottleneckThreshold={bottleneckThreshold} />
+
       {/* Charts Row 1 */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Order Status Distribution */}
@@ -225,14 +426,200 @@ const Analytics = () => {
             <BarChart data={resourceTypeData}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="name" />
-              <YAxis />
-              <Tooltip />
+              <YAxis unit="%" />
+              <Tooltip
+                formatter={(value: any, name: any, item: any) =>
+                  `${value}% (${item.payload.booked}h of ${item.payload.available}h)`
+                }
+              />
               <Legend />
-              <Bar dataKey="active" stackId="a" fill="#22c55e" name="Active" />
-              <Bar dataKey="idle" stackId="a" fill="#94a3b8" name="Idle" />
+              <ReferenceLine y={bottleneckThreshold} stroke="#ef4444" strokeDasharray="4 4" />
+              <Bar dataKey="utilisation" fill="#22c55e" name="Utilisation" />
             </BarChart>
           </ResponsiveContainer>
         </div>
+
+        {/* Utilisation Heatmap */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Utilisation by Resource and Day</h3>
+              <p className="text-xs text-gray-500 mt-1">
+                Booked hours over the hours each resource can work, after shifts, planned downtime and breakdowns
+              </p>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Bottleneck above</span>
+              <input
+                type="number"
+                min={1}
+                max={200}
+                value={bottleneckThreshold}
+                onChange={(e) => Number(e.target.value) > 0 && setBottleneckThreshold(Number(e.target.value))}
+                className={`${inputClass} w-20`}
+              />
+              <span>%</span>
+            </label>
+          </div>
+          <UtilisationHeatmap rows={utilisationRows} range={range} threshold={bottleneckThreshold} />
+        </div>
+      </div>
+
+      {/* Yield by Product */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Yield by Product
+        </h3>
+        {yieldData.length === 0 ? (
+          <p className="text-sm text-gray-500">No output reported yet</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={yieldData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="good" stackId="a" fill="#22c55e" name="Good" />
+                <Bar dataKey="scrap" stackId="a" fill="#ef4444" name="Scrap" />
+              </BarChart>
+            </ResponsiveContainer>
+            <table className="w-full text-sm self-start">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Product</th>
+                  <th className="py-2 font-medium text-right">Good</th>
+                  <th className="py-2 font-medium text-right">Scrap</th>
+                  <th className="py-2 font-medium text-right">Yield</th>
+                  <th className="py-2 font-medium text-right">Scrap rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {yieldData.map((row) => (
+                  <tr key={row.name}>
+                    <td className="py-2 text-gray-900">{row.name}</td>
+                    <td className="py-2 text-right text-gray-700">{row.good}</td>
+                    <td className="py-2 text-right text-gray-700">{row.scrap}</td>
+                    <td className="py-2 text-right font-medium text-gray-900">{row.yield.toFixed(1)}%</td>
+                    <td
+                      className={`py-2 text-right font-medium ${row.scrapRate > 5 ? 'text-red-600' : 'text-gray-700'}`}
+                    >
+                      {row.scrapRate.toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Cost Variance */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Planned vs. Actual Cost</h3>
+            <p className="text-xs text-gray-500 mt-1">Orders completed in the period</p>
+          </div>
+          <select
+            value={costGrouping}
+            onChange={(e) => setCostGrouping(e.target.value as CostGrouping)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {Object.entries(COST_GROUPINGS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {costData.length === 0 ? (
+          <p className="text-sm text-gray-500">No completed orders yet</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={costData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip formatter={(value: any) => formatCost(Number(value))} />
+                <Legend />
+                <Bar dataKey="planned" fill="#94a3b8" name="Planned" />
+                <Bar dataKey="actual" fill="#0ea5e9" name="Actual" />
+              </BarChart>
+            </ResponsiveContainer>
+            <table className="w-full text-sm self-start">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">{costGrouping === 'product' ? 'Product' : 'Period'}</th>
+                  <th className="py-2 font-medium text-right">Orders</th>
+                  <th className="py-2 font-medium text-right">Planned</th>
+                  <th className="py-2 font-medium text-right">Actual</th>
+                  <th className="py-2 font-medium text-right">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {costData.map((row) => (
+                  <tr key={row.name}>
+                    <td className="py-2 text-gray-900">{row.name}</td>
+                    <td className="py-2 text-right text-gray-700">{row.orders}</td>
+                    <td className="py-2 text-right text-gray-700">{formatCost(row.planned)}</td>
+                    <td className="py-2 text-right text-gray-700">{formatCost(row.actual)}</td>
+                    <td className={`py-2 text-right font-medium ${costVarianceColor(row.variance)}`}>
+                      {formatCostVariance(row.variance)}
+                      {row.variancePercent !== null && Math.abs(row.variance) >= 0.005 && (
+                        <span className="block text-xs font-normal">
+                          {row.variancePercent > 0 ? '+' : ''}
+                          {row.variancePercent.toFixed(1)}%
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Downtime Pareto */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Downtime by Reason</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Reasons to tackle first are on the left; the line shows their running share of all downtime
+            </p>
+          </div>
+        </div>
+        {paretoData.length === 0 ? (
+          <p className="text-sm text-gray-500">No downtime recorded in this period</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={paretoData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis yAxisId="hours" />
+              <YAxis yAxisId="share" orientation="right" domain={[0, 100]} unit="%" />
+              <Tooltip
+                formatter={(value: any, name: any) =>
+                  name === 'Cumulative' ? `${Number(value).toFixed(0)}%` : formatHours(Number(value))
+                }
+              />
+              <Legend />
+              <Bar yAxisId="hours" dataKey="hours" fill="#ef4444" name="Downtime" />
+              <Line
+                yAxisId="share"
+                type="monotone"
+                dataKey="cumulativePercent"
+                stroke="#0f172a"
+                name="Cumulative"
+                dot
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
       </div>
 
       {/* Resource Status Summary */}
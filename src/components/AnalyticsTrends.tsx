@@ -0,0 +1,163 @@
+import { useQuery, gql } from '@apollo/client';
+import { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { formatHours } from '../utils/downtime';
+import {
+  DateRange,
+  TrendBucket,
+  completionSeries,
+  rangeBounds,
+  throughputByProduct,
+  utilisationSeries,
+  viewerTimeZone,
+} from '../utils/trends';
+
+// Bucketed in Postgres by order_completion_trend and resource_utilisation_trend
+const GET_ANALYTICS_TRENDS = gql`
+  query GetAnalyticsTrends($range_start: timestamptz!, $range_end: timestamptz!, $bucket_size: String!, $time_zone: String!) {
+    order_completion_trend(
+      args: { range_start: $range_start, range_end: $range_end, bucket_size: $bucket_size, time_zone: $time_zone }
+    ) {
+      bucket
+      product_name
+      completed_orders
+      completed_units
+      avg_lead_time_hours
+    }
+    resource_utilisation_trend(
+      args: { range_start: $range_start, range_end: $range_end, bucket_size: $bucket_size, time_zone: $time_zone }
+    ) {
+      bucket
+      resource_id
+      resource_type
+      booked_hours
+      available_hours
+    }
+  }
+`;
+
+interface AnalyticsTrendsProps {
+  range: DateRange;
+  bucket: TrendBucket;
+  bottleneckThreshold: number;
+}
+
+const AnalyticsTrends = ({ range, bucket, bottleneckThreshold }: AnalyticsTrendsProps) => {
+  const { start, end } = rangeBounds(range);
+  const { data, loading } = useQuery(GET_ANALYTICS_TRENDS, {
+    variables: {
+      range_start: start.toISOString(),
+      range_end: end.toISOString(),
+      bucket_size: bucket,
+      time_zone: viewerTimeZone(),
+    },
+    pollInterval: 60000,
+  });
+
+  const completions = useMemo(
+    () => completionSeries(data?.order_completion_trend || [], range, bucket),
+    [data, range, bucket]
+  );
+  const throughput = useMemo(() => throughputByProduct(data?.order_completion_trend || []), [data]);
+  const utilisation = useMemo(
+    () => utilisationSeries(data?.resource_utilisation_trend || [], range, bucket),
+    [data, range, bucket]
+  );
+
+  if (loading && !data) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+        <div className="flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const per = bucket === 'week' ? 'Week' : 'Day';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Orders Completed per {per}</h3>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={completions}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="orders" fill="#22c55e" name="Orders" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Average Lead Time</h3>
+          <p className="text-xs text-gray-500 -mt-3 mb-4">From order created to completed</p>
+          <ResponsiveContainer width="100%" height={234}>
+            <LineChart data={completions}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis unit="h" />
+              <Tooltip formatter={(value: any) => formatHours(Number(value))} />
+              <Legend />
+              <Line type="monotone" dataKey="avgLeadHours" stroke="#0ea5e9" name="Lead time" connectNulls dot />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Throughput by Product</h3>
+          {throughput.length === 0 ? (
+            <p className="text-sm text-gray-500">No orders completed in this period</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={throughput} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" />
+                <YAxis type="category" dataKey="name" width={160} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="units" fill="#0ea5e9" name="Units" />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Utilisation per {per}</h3>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={utilisation}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis unit="%" />
+              <Tooltip formatter={(value: any) => `${value}%`} />
+              <Legend />
+              <ReferenceLine y={bottleneckThreshold} stroke="#ef4444" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="machine" stroke="#8b5cf6" name="Machines" connectNulls dot={false} />
+              <Line type="monotone" dataKey="worker" stroke="#f59e0b" name="Workers" connectNulls dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsTrends;
@@ -1,33 +1,97 @@
-import { useState } from 'react';
+import { gql, useApolloClient, useQuery } from '@apollo/client';
 import OrdersList from './OrdersList';
 import ResourcesList from './ResourcesList';
+import ResourceDetails from './ResourceDetails';
 import OrderDetails from './OrderDetails';
 import Analytics from './Analytics';
+import ScheduleTimeline from './ScheduleTimeline';
+import ProductsCatalog from './ProductsCatalog';
+import NotFound from './NotFound';
+import useRoute from '../hooks/useRoute';
+import { TabType, followLink, navigate, orderPath, tabPath } from '../utils/appRoutes';
 
-type TabType = 'orders' | 'resources' | 'analytics';
+// The URL carries the order number; the panels work with order ids
+const GET_ORDER_ID = gql`
+  query GetOrderIdByNumber($order_number: String!) {
+    production_orders(where: { order_number: { _eq: $order_number } }, limit: 1) {
+      id
+      order_number
+    }
+  }
+`;
+
+const GET_ORDER_NUMBER = gql`
+  query GetOrderNumber($id: uuid!) {
+    production_orders_by_pk(id: $id) {
+      id
+      order_number
+    }
+  }
+`;
+
+const ORDER_NUMBER_FRAGMENT = gql`
+  fragment OrderNumber on production_orders {
+    order_number
+  }
+`;
 
 const Dashboard = () => {
-  const [activeTab, setActiveTab] = useState<TabType>('orders');
-  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const route = useRoute();
+  const client = useApolloClient();
+  const activeTab = route?.tab;
+  const orderNumber = route?.orderNumber ?? null;
+  const orderTab = activeTab === 'schedule' ? 'schedule' : 'orders';
+
+  const { data: orderData, loading: orderLoading } = useQuery(GET_ORDER_ID, {
+    variables: { order_number: orderNumber },
+    skip: !orderNumber,
+  });
+  const selectedOrderId: string | null = orderData?.production_orders[0]?.id ?? null;
+  const orderMissing = Boolean(orderNumber) && !orderLoading && !selectedOrderId;
+
+  // Rows already in the cache carry their order number, so most clicks
+  // navigate without a round trip
+  const selectOrder = async (orderId: string) => {
+    let number = client.readFragment({
+      id: client.cache.identify({ __typename: 'production_orders', id: orderId }),
+      fragment: ORDER_NUMBER_FRAGMENT,
+    })?.order_number;
+    if (!number) {
+      try {
+        const { data } = await client.query({ query: GET_ORDER_NUMBER, variables: { id: orderId } });
+        number = data?.production_orders_by_pk?.order_number;
+      } catch (error) {
+        console.error('Error loading order:', error);
+      }
+    }
+    // Keep the list filters while moving between orders
+    if (number) navigate(`${orderPath(number, orderTab)}${window.location.search}`);
+  };
+
+  const closeOrder = () => {
+    navigate(`${tabPath(orderTab)}${window.location.search}`);
+  };
 
   const tabs: { id: TabType; label: string; icon: string }[] = [
     { id: 'orders', label: 'Production Orders', icon: '📋' },
+    { id: 'schedule', label: 'Schedule', icon: '📅' },
     { id: 'resources', label: 'Resources', icon: '🏭' },
+    { id: 'products', label: 'Products', icon: '🧩' },
     { id: 'analytics', label: 'Analytics', icon: '📊' },
   ];
 
+  const showOrderPanel = Boolean(selectedOrderId) && (activeTab === 'orders' || activeTab === 'schedule');
+
   return (
     <div className="space-y-6">
       {/* Tab Navigation */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <nav className="flex space-x-1 p-2">
           {tabs.map((tab) => (
-            <button
+            <a
               key={tab.id}
-              onClick={() => {
-                setActiveTab(tab.id);
-                setSelectedOrderId(null);
-              }}
+              href={tabPath(tab.id)}
+              onClick={(e) => followLink(e, tabPath(tab.id))}
               className={`
                 flex items-center space-x-2 px-4 py-2 rounded-lg font-medium text-sm transition-all
                 ${
@@ -39,37 +103,69 @@ const Dashboard = () => {
             >
               <span>{tab.icon}</span>
               <span>{tab.label}</span>
-            </button>
+            </a>
           ))}
         </nav>
       </div>
 
       {/* Tab Content */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Main Content */}
-        <div className={selectedOrderId ? 'lg:col-span-2' : 'lg:col-span-3'}>
-          {activeTab === 'orders' && (
-            <OrdersList
-              onSelectOrder={setSelectedOrderId}
-              selectedOrderId={selectedOrderId}
-            />
+      {!route ? (
+        <NotFound
+          title="Page not found"
+          message="There is nothing at this address."
+          backLabel="Go to production orders"
+          backHref={tabPath('orders')}
+        />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Main Content */}
+          <div className={showOrderPanel || orderMissing ? 'lg:col-span-2' : 'lg:col-span-3'}>
+            {activeTab === 'orders' && (
+              <OrdersList
+                onSelectOrder={selectOrder}
+                selectedOrderId={selectedOrderId}
+              />
+            )}
+            {activeTab === 'schedule' && (
+              <ScheduleTimeline
+                onSelectOrder={selectOrder}
+                selectedOrderId={selectedOrderId}
+              />
+            )}
+            {activeTab === 'resources' &&
+              (route.resourceId ? (
+                <ResourceDetails key={route.resourceId} resourceId={route.resourceId} />
+              ) : (
+                <ResourcesList />
+              ))}
+            {activeTab === 'products' && <ProductsCatalog />}
+            {activeTab === 'analytics' && <Analytics />}
+          </div>
+
+          {/* Order Details Sidebar */}
+          {showOrderPanel && selectedOrderId && (
+            <div className="lg:col-span-1">
+              <OrderDetails
+                orderId={selectedOrderId}
+                onClose={closeOrder}
+                onSelectOrder={selectOrder}
+              />
+            </div>
+          )}
+          {orderMissing && (
+            <div className="lg:col-span-1">
+              <NotFound
+                title={`Order ${orderNumber} not found`}
+                message="It may have been deleted, merged or renamed."
+                backLabel="Close"
+                backHref={`${tabPath(orderTab)}${window.location.search}`}
+              />
+            </div>
           )}
-          {activeTab === 'resources' && <ResourcesList />}
-          {activeTab === 'analytics' && <Analytics />}
         </div>
-
-        {/* Order Details Sidebar */}
-        {selectedOrderId && activeTab === 'orders' && (
-          <div className="lg:col-span-1">
-            <OrderDetails
-              orderId={selectedOrderId}
-              onClose={() => setSelectedOrderId(null)}
-            />
-          </div>
-        )}
-      </div>
+      )}
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
@@ -0,0 +1,214 @@
+import { useQuery, useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import { fromDateTimeLocal, toDateTimeLocal } from '../utils/orderValidation';
+import { parseDowntimeError } from '../utils/downtime';
+
+const GET_DOWNTIME_OPTIONS = gql`
+  query GetDowntimeOptions($resource_id: uuid!) {
+    reason_codes(where: { category: { _eq: "issue" }, active: { _eq: true } }, order_by: { label: asc }) {
+      code
+      label
+    }
+    resource_allocations(
+      where: { resource_id: { _eq: $resource_id }, order: { status: { _in: [scheduled, in_progress] } } }
+      order_by: { start_time: asc }
+    ) {
+      id
+      order {
+        id
+        order_number
+        status
+      }
+    }
+  }
+`;
+
+const REPORT_DOWNTIME = gql`
+  mutation ReportDowntime(
+    $resource_id: uuid!
+    $order_id: uuid
+    $reason_code: String!
+    $started_at: timestamptz!
+    $ended_at: timestamptz
+    $takes_resource_down: Boolean!
+    $notes: String
+  ) {
+    insert_downtime_records_one(
+      object: {
+        resource_id: $resource_id
+        order_id: $order_id
+        reason_code: $reason_code
+        started_at: $started_at
+        ended_at: $ended_at
+        takes_resource_down: $takes_resource_down
+        notes: $notes
+      }
+    ) {
+      id
+      resource {
+        id
+        status
+      }
+    }
+  }
+`;
+
+interface DowntimeReportModalProps {
+  resource: any;
+  onClose: () => void;
+}
+
+const DowntimeReportModal = ({ resource, onClose }: DowntimeReportModalProps) => {
+  const [reasonCode, setReasonCode] = useState('');
+  const [orderId, setOrderId] = useState('');
+  const [startedAt, setStartedAt] = useState(() => toDateTimeLocal(new Date().toISOString()));
+  const [endedAt, setEndedAt] = useState('');
+  const [takesResourceDown, setTakesResourceDown] = useState(resource.type === 'machine');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useQuery(GET_DOWNTIME_OPTIONS, { variables: { resource_id: resource.id } });
+  const [reportDowntime, { loading }] = useMutation(REPORT_DOWNTIME);
+
+  // A resource can hold several allocations for the same order
+  const affectedOrders: any[] = [];
+  (data?.resource_allocations || []).forEach((alloc: any) => {
+    if (!affectedOrders.some((order) => order.id === alloc.order.id)) affectedOrders.push(alloc.order);
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!reasonCode) {
+      setError('Choose a reason');
+      return;
+    }
+    if (!startedAt) {
+      setError('Enter when it started');
+      return;
+    }
+    if (endedAt && new Date(endedAt) <= new Date(startedAt)) {
+      setError('The end must be after the start');
+      return;
+    }
+
+    try {
+      await reportDowntime({
+        variables: {
+          resource_id: resource.id,
+          order_id: orderId || null,
+          reason_code: reasonCode,
+          started_at: fromDateTimeLocal(startedAt),
+          ended_at: fromDateTimeLocal(endedAt),
+          takes_resource_down: takesResourceDown && !endedAt,
+          notes: notes.trim() || null,
+        },
+      });
+      onClose();
+    } catch (error: any) {
+      console.error('Error reporting downtime:', error);
+      setError(parseDowntimeError(error?.message) || error?.message || 'Failed to report downtime');
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-lg"
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Report downtime: {resource.name}</h3>
+        </div>
+
+        <div className="px-6 py-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value)} className={inputClass}>
+                <option value="">Select reason</option>
+                {(data?.reason_codes || []).map((reason: any) => (
+                  <option key={reason.code} value={reason.code}>
+                    {reason.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Affected order</label>
+              <select value={orderId} onChange={(e) => setOrderId(e.target.value)} className={inputClass}>
+                <option value="">None</option>
+                {affectedOrders.map((order) => (
+                  <option key={order.id} value={order.id}>
+                    {order.order_number} ({order.status.replace('_', ' ')})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Started</label>
+              <input
+                type="datetime-local"
+                value={startedAt}
+                onChange={(e) => setStartedAt(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ended</label>
+              <input
+                type="datetime-local"
+                value={endedAt}
+                onChange={(e) => setEndedAt(e.target.value)}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave empty while it is still down</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className={inputClass} />
+          </div>
+
+          {!endedAt && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={takesResourceDown}
+                onChange={(e) => setTakesResourceDown(e.target.checked)}
+                className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+              />
+              <span>Mark {resource.name} unavailable until this is resolved</span>
+            </label>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={loading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Saving…' : 'Report Downtime'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DowntimeReportModal;
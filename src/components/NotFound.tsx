@@ -0,0 +1,26 @@
+import { followLink } from '../utils/appRoutes';
+
+interface NotFoundProps {
+  title: string;
+  message: string;
+  backLabel: string;
+  backHref: string;
+}
+
+// Shown for unknown paths and for links to orders or resources that don't exist
+const NotFound = ({ title, message, backLabel, backHref }: NotFoundProps) => (
+  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+    <p className="text-4xl font-bold text-gray-300">404</p>
+    <h3 className="mt-2 text-lg font-semibold text-gray-900">{title}</h3>
+    <p className="mt-1 text-sm text-gray-500">{message}</p>
+    <a
+      href={backHref}
+      onClick={(e) => followLink(e, backHref)}
+      className="inline-block mt-4 text-sm font-medium text-primary-600 hover:text-primary-700"
+    >
+      {backLabel}
+    </a>
+  </div>
+);
+
+export default NotFound;
@@ -0,0 +1,467 @@
+import { useQuery, useSubscription, useMutation, gql } from '@apollo/client';
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import useAuth from '../hooks/useAuth';
+import ProgressBar from './ProgressBar';
+import ReasonCodeModal from './ReasonCodeModal';
+import { currentShiftWindow } from '../utils/availability';
+import { parseTransitionError } from '../utils/orderStatus';
+import { parseDependencyError } from '../utils/dependencies';
+import { ReasonCategory, activePause, parseShopFloorError } from '../utils/shopFloor';
+import { parseDowntimeError } from '../utils/downtime';
+
+const GET_OPERATOR_RESOURCE = gql`
+  query GetOperatorResource($id: uuid!) {
+    resources_by_pk(id: $id) {
+      id
+      name
+      type
+      status
+      time_zone
+      shifts {
+        id
+        day_of_week
+        start_time
+        end_time
+      }
+    }
+  }
+`;
+
+// Live, so planners' changes show on the shop floor straight away
+const WATCH_OPERATOR_WORK = gql`
+  subscription WatchOperatorWork($resource_id: uuid!, $from: timestamptz!, $to: timestamptz!) {
+    resource_allocations(
+      where: {
+        resource_id: { _eq: $resource_id }
+        start_time: { _lt: $to }
+        _or: [{ end_time: { _is_null: true } }, { end_time: { _gt: $from } }]
+        order: { status: { _in: [scheduled, in_progress] } }
+      }
+      order_by: { start_time: asc }
+    ) {
+      id
+      start_time
+      end_time
+      notes
+      order {
+        id
+        order_number
+        product_name
+        quantity
+        good_quantity
+        scrap_quantity
+        status
+        priority
+        notes
+        order_events(
+          where: { event_type: { _in: ["paused", "resumed"] } }
+          order_by: { created_at: desc }
+          limit: 10
+        ) {
+          id
+          event_type
+          changed_by
+          created_at
+          metadata
+        }
+        downtime_records(where: { ended_at: { _is_null: true } }, order_by: { started_at: desc }) {
+          id
+          started_at
+          notes
+          takes_resource_down
+          reason {
+            label
+          }
+        }
+      }
+    }
+  }
+`;
+
+const UPDATE_ORDER_STATUS = gql`
+  mutation UpdateOrderStatus($id: uuid!, $status: order_status!) {
+    update_production_orders_by_pk(pk_columns: { id: $id }, _set: { status: $status }) {
+      id
+      status
+      updated_at
+    }
+  }
+`;
+
+const RECORD_SHOP_FLOOR_EVENT = gql`
+  mutation RecordShopFloorEvent($order_id: uuid!, $event_type: String!, $metadata: jsonb) {
+    insert_order_events_one(object: { order_id: $order_id, event_type: $event_type, metadata: $metadata }) {
+      id
+    }
+  }
+`;
+
+// Issues are downtime records; the trigger logs them on the order
+const REPORT_ISSUE = gql`
+  mutation ReportIssue(
+    $resource_id: uuid!
+    $order_id: uuid!
+    $reason_code: String!
+    $notes: String
+    $takes_resource_down: Boolean!
+  ) {
+    insert_downtime_records_one(
+      object: {
+        resource_id: $resource_id
+        order_id: $order_id
+        reason_code: $reason_code
+        notes: $notes
+        takes_resource_down: $takes_resource_down
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+const RESOLVE_ISSUE = gql`
+  mutation ResolveIssue($id: uuid!, $ended_at: timestamptz!) {
+    update_downtime_records_by_pk(pk_columns: { id: $id }, _set: { ended_at: $ended_at }) {
+      id
+      ended_at
+    }
+  }
+`;
+
+const REASON_PROMPTS: Record<ReasonCategory, { title: string; confirmLabel: string }> = {
+  pause: { title: 'Why are you pausing?', confirmLabel: 'Pause' },
+  issue: { title: 'What is the issue?', confirmLabel: 'Report Issue' },
+};
+
+const OperatorView = () => {
+  const { session } = useAuth();
+  const resourceId = session?.resourceId;
+  const [now, setNow] = useState(() => new Date());
+  const [prompt, setPrompt] = useState<{ order: any; category: ReasonCategory } | null>(null);
+  const [promptError, setPromptError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Move on to the next shift without a reload
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: resourceData } = useQuery(GET_OPERATOR_RESOURCE, {
+    variables: { id: resourceId },
+    skip: !resourceId,
+  });
+  const resource = resourceData?.resources_by_pk;
+
+  const shift = useMemo(
+    () => currentShiftWindow(resource?.shifts || [], resource?.time_zone || 'UTC', now),
+    [resource, now]
+  );
+  const from = shift.start.toISOString();
+  const to = shift.end.toISOString();
+
+  const { data, loading } = useSubscription(WATCH_OPERATOR_WORK, {
+    variables: { resource_id: resourceId, from, to },
+    skip: !resourceId || !resource,
+  });
+  const [updateStatus, { loading: updating }] = useMutation(UPDATE_ORDER_STATUS);
+  const [recordEvent, { loading: recording }] = useMutation(RECORD_SHOP_FLOOR_EVENT);
+  const [reportIssue, { loading: reporting }] = useMutation(REPORT_ISSUE);
+  const [resolveIssue, { loading: resolving }] = useMutation(RESOLVE_ISSUE);
+
+  // One card per order, spanning all of its allocations on this resource
+  const work = useMemo(() => {
+    const byOrder: Record<string, { order: any; start: string; end: string | null; steps: string[] }> = {};
+    (data?.resource_allocations || []).forEach((alloc: any) => {
+      const entry = byOrder[alloc.order.id];
+      if (!entry) {
+        byOrder[alloc.order.id] = {
+          order: alloc.order,
+          start: alloc.start_time,
+          end: alloc.end_time,
+          steps: alloc.notes ? [alloc.notes] : [],
+        };
+        return;
+      }
+      if (alloc.notes) entry.steps.push(alloc.notes);
+      entry.end = entry.end && alloc.end_time && alloc.end_time > entry.end ? alloc.end_time : entry.end;
+    });
+    // Running work first, then by start
+    return Object.values(byOrder).sort((a, b) => {
+      if (a.order.status !== b.order.status) return a.order.status === 'in_progress' ? -1 : 1;
+      return a.start < b.start ? -1 : 1;
+    });
+  }, [data]);
+
+  const setOrderError = (orderId: string, message: string | null) =>
+    setErrors((prev) => {
+      const next = { ...prev };
+      if (message) next[orderId] = message;
+      else delete next[orderId];
+      return next;
+    });
+
+  const handleStatus = async (order: any, status: 'in_progress' | 'completed') => {
+    setOrderError(order.id, null);
+    try {
+      await updateStatus({
+        variables: { id: order.id, status },
+        optimisticResponse: {
+          update_production_orders_by_pk: {
+            __typename: 'production_orders',
+            id: order.id,
+            status,
+            updated_at: new Date().toISOString(),
+          },
+        },
+      });
+    } catch (error: any) {
+      console.error('Error updating status:', error);
+      const rejected = parseTransitionError(error?.message);
+      setOrderError(
+        order.id,
+        rejected
+          ? `Order is already ${rejected.from.replace('_', ' ')}`
+          : parseDependencyError(error?.message) || error?.message || 'Failed to update status'
+      );
+    }
+  };
+
+  const handleResume = async (order: any) => {
+    setOrderError(order.id, null);
+    try {
+      await recordEvent({ variables: { order_id: order.id, event_type: 'resumed', metadata: {} } });
+    } catch (error: any) {
+      console.error('Error resuming order:', error);
+      setOrderError(order.id, parseShopFloorError(error?.message) || error?.message || 'Failed to resume');
+    }
+  };
+
+  const handleReason = async (reasonCode: string, note: string, takeDown: boolean) => {
+    if (!prompt) return;
+    setPromptError(null);
+    try {
+      if (prompt.category === 'issue') {
+        await reportIssue({
+          variables: {
+            resource_id: resourceId,
+            order_id: prompt.order.id,
+            reason_code: reasonCode,
+            notes: note || null,
+            takes_resource_down: takeDown,
+          },
+        });
+      } else {
+        await recordEvent({
+          variables: {
+            order_id: prompt.order.id,
+            event_type: 'paused',
+            metadata: {
+              reason_code: reasonCode,
+              note: note || null,
+              resource_id: resourceId,
+              resource_name: resource?.name,
+            },
+          },
+        });
+      }
+      setPrompt(null);
+    } catch (error: any) {
+      console.error('Error recording shop floor event:', error);
+      setPromptError(
+        parseDowntimeError(error?.message) ||
+          parseShopFloorError(error?.message) ||
+          error?.message ||
+          'Failed to save'
+      );
+    }
+  };
+
+  const handleResolve = async (order: any, issueId: string) => {
+    setOrderError(order.id, null);
+    try {
+      await resolveIssue({ variables: { id: issueId, ended_at: new Date().toISOString() } });
+    } catch (error: any) {
+      console.error('Error resolving issue:', error);
+      setOrderError(order.id, parseDowntimeError(error?.message) || error?.message || 'Failed to resolve');
+    }
+  };
+
+  if (!resourceId) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <p className="text-gray-700">Your account is not linked to a worker or machine.</p>
+        <p className="text-sm text-gray-500 mt-1">Ask a planner to link it to see your work.</p>
+      </div>
+    );
+  }
+
+  if (!resource || (loading && !data)) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+        <div className="flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const bigButton = 'flex-1 px-4 py-5 text-lg font-semibold rounded-lg transition-colors disabled:opacity-50';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{resource.name}</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Shift {format(shift.start, 'EEE HH:mm')} – {format(shift.end, 'EEE HH:mm')}
+          </p>
+        </div>
+        <p className="text-3xl font-semibold text-gray-700">{format(now, 'HH:mm')}</p>
+      </div>
+
+      {work.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+          <p className="text-lg text-gray-500">Nothing allocated to you this shift</p>
+        </div>
+      ) : (
+        work.map(({ order, start, end, steps }) => {
+          const pause = activePause(order.order_events);
+          const running = order.status === 'in_progress';
+
+          return (
+            <div
+              key={order.id}
+              className={`bg-white rounded-lg shadow-sm border-2 p-6 ${
+                pause ? 'border-amber-400' : running ? 'border-green-400' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-900">{order.order_number}</h3>
+                  <p className="text-lg text-gray-700">
+                    {order.quantity} × {order.product_name}
+                  </p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {format(new Date(start), 'HH:mm')}
+                    {end && ` – ${format(new Date(end), 'HH:mm')}`}
+                    {steps.length > 0 && ` • ${steps.join(', ')}`}
+                  </p>
+                </div>
+                <span
+                  className={`px-3 py-1.5 text-sm font-semibold rounded-full ${
+                    pause
+                      ? 'bg-amber-100 text-amber-800'
+                      : running
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-blue-100 text-blue-800'
+                  }`}
+                >
+                  {pause ? 'Paused' : running ? 'Running' : 'Up next'}
+                </span>
+              </div>
+
+              <div className="mt-4">
+                <ProgressBar good={order.good_quantity} scrap={order.scrap_quantity} quantity={order.quantity} />
+              </div>
+
+              {pause && (
+                <p className="mt-3 text-sm text-amber-800">
+                  Paused {format(new Date(pause.created_at), 'HH:mm')}: {pause.metadata?.reason_label}
+                  {pause.metadata?.note && ` – ${pause.metadata.note}`}
+                </p>
+              )}
+              {order.downtime_records.map((issue: any) => (
+                <div key={issue.id} className="mt-2 flex items-center justify-between gap-3 text-sm text-red-700">
+                  <p>
+                    Issue {format(new Date(issue.started_at), 'HH:mm')}: {issue.reason?.label}
+                    {issue.notes && ` – ${issue.notes}`}
+                    {issue.takes_resource_down && ' • machine down'}
+                  </p>
+                  <button
+                    onClick={() => handleResolve(order, issue.id)}
+                    disabled={resolving}
+                    className="px-4 py-2 text-sm font-semibold text-red-800 bg-red-100 hover:bg-red-200 rounded-lg disabled:opacity-50"
+                  >
+                    Resolved
+                  </button>
+                </div>
+              ))}
+              {order.notes && <p className="mt-2 text-sm text-gray-600">{order.notes}</p>}
+
+              <div className="mt-5 flex gap-3">
+                {order.status === 'scheduled' && (
+                  <button
+                    onClick={() => handleStatus(order, 'in_progress')}
+                    disabled={updating}
+                    className={`${bigButton} text-white bg-green-600 hover:bg-green-700`}
+                  >
+                    Start
+                  </button>
+                )}
+                {running && pause && (
+                  <button
+                    onClick={() => handleResume(order)}
+                    disabled={recording}
+                    className={`${bigButton} text-white bg-green-600 hover:bg-green-700`}
+                  >
+                    Resume
+                  </button>
+                )}
+                {running && !pause && (
+                  <button
+                    onClick={() => {
+                      setPromptError(null);
+                      setPrompt({ order, category: 'pause' });
+                    }}
+                    className={`${bigButton} text-amber-900 bg-amber-200 hover:bg-amber-300`}
+                  >
+                    Pause
+                  </button>
+                )}
+                {running && (
+                  <button
+                    onClick={() => handleStatus(order, 'completed')}
+                    disabled={updating || Boolean(pause)}
+                    className={`${bigButton} text-white bg-primary-500 hover:bg-primary-600`}
+                  >
+                    Complete
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setPromptError(null);
+                    setPrompt({ order, category: 'issue' });
+                  }}
+                  className={`${bigButton} text-white bg-red-600 hover:bg-red-700`}
+                >
+                  Report Issue
+                </button>
+              </div>
+
+              {errors[order.id] && <p className="mt-3 text-sm text-red-600">{errors[order.id]}</p>}
+            </div>
+          );
+        })
+      )}
+
+      {prompt && (
+        <ReasonCodeModal
+          title={`${REASON_PROMPTS[prompt.category].title} (${prompt.order.order_number})`}
+          category={prompt.category}
+          confirmLabel={REASON_PROMPTS[prompt.category].confirmLabel}
+          busy={recording || reporting}
+          error={promptError}
+          takeDownLabel={
+            prompt.category === 'issue' ? `${resource.name} is down until this is resolved` : undefined
+          }
+          onConfirm={handleReason}
+          onCancel={() => setPrompt(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default OperatorView;
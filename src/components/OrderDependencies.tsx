@@ -0,0 +1,266 @@
+import { useQuery, useSubscription, useMutation, gql } from '@apollo/client';
+import { useMemo, useState } from 'react';
+import useAuth from '../hooks/useAuth';
+import { formatHours } from '../utils/downtime';
+import {
+  DEPENDENCY_LABELS,
+  DependencyType,
+  analyseCriticalPath,
+  createsCycle,
+  dependencyScheduleIssue,
+  parseDependencyError,
+} from '../utils/dependencies';
+
+const WATCH_ORDER_NETWORK = gql`
+  subscription WatchOrderNetwork {
+    order_dependencies {
+      id
+      predecessor_id
+      successor_id
+      dependency_type
+      predecessor {
+        id
+        order_number
+        status
+        scheduled_start
+        scheduled_end
+      }
+      successor {
+        id
+        order_number
+        status
+        scheduled_start
+        scheduled_end
+      }
+    }
+  }
+`;
+
+const GET_DEPENDENCY_CANDIDATES = gql`
+  query GetDependencyCandidates($id: uuid!) {
+    production_orders(
+      where: { id: { _neq: $id }, status: { _neq: cancelled } }
+      order_by: { order_number: asc }
+    ) {
+      id
+      order_number
+      status
+      scheduled_start
+      scheduled_end
+    }
+  }
+`;
+
+const ADD_ORDER_DEPENDENCY = gql`
+  mutation AddOrderDependency(
+    $predecessor_id: uuid!
+    $successor_id: uuid!
+    $dependency_type: dependency_type!
+  ) {
+    insert_order_dependencies_one(
+      object: { predecessor_id: $predecessor_id, successor_id: $successor_id, dependency_type: $dependency_type }
+    ) {
+      id
+    }
+  }
+`;
+
+const REMOVE_ORDER_DEPENDENCY = gql`
+  mutation RemoveOrderDependency($id: uuid!) {
+    delete_order_dependencies_by_pk(id: $id) {
+      id
+    }
+  }
+`;
+
+interface OrderDependenciesProps {
+  order: any;
+}
+
+const OrderDependencies = ({ order }: OrderDependenciesProps) => {
+  const [showForm, setShowForm] = useState(false);
+  const [direction, setDirection] = useState<'predecessor' | 'successor'>('predecessor');
+  const [otherOrderId, setOtherOrderId] = useState('');
+  const [dependencyType, setDependencyType] = useState<DependencyType>('finish_to_start');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useSubscription(WATCH_ORDER_NETWORK);
+  const { data: candidatesData } = useQuery(GET_DEPENDENCY_CANDIDATES, {
+    variables: { id: order.id },
+    skip: !showForm,
+  });
+  const [addDependency, { loading: adding }] = useMutation(ADD_ORDER_DEPENDENCY);
+  const [removeDependency] = useMutation(REMOVE_ORDER_DEPENDENCY);
+  const { canPlan } = useAuth();
+
+  const links = data?.order_dependencies || [];
+  const predecessors = links.filter((link: any) => link.successor_id === order.id);
+  const successors = links.filter((link: any) => link.predecessor_id === order.id);
+
+  const pathInfo = useMemo(() => {
+    const ordersById: Record<string, any> = {};
+    links.forEach((link: any) => {
+      ordersById[link.predecessor.id] = link.predecessor;
+      ordersById[link.successor.id] = link.successor;
+    });
+    // The order itself may be fresher than the subscription
+    if (ordersById[order.id]) ordersById[order.id] = order;
+    return analyseCriticalPath(Object.values(ordersById), links)[order.id];
+  }, [links, order]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const other = (candidatesData?.production_orders || []).find((candidate: any) => candidate.id === otherOrderId);
+    if (!other) {
+      setError('Select an order');
+      return;
+    }
+
+    const [pred, succ] = direction === 'predecessor' ? [other, order] : [order, other];
+    if (createsCycle(pred.id, succ.id, links)) {
+      setError(`${succ.order_number} already leads to ${pred.order_number}; this would create a loop`);
+      return;
+    }
+    const issue = dependencyScheduleIssue(pred, succ, dependencyType);
+    if (issue) {
+      setError(`${issue}. Reschedule before linking them.`);
+      return;
+    }
+
+    try {
+      await addDependency({
+        variables: { predecessor_id: pred.id, successor_id: succ.id, dependency_type: dependencyType },
+      });
+      setShowForm(false);
+      setOtherOrderId('');
+    } catch (error: any) {
+      console.error('Error adding dependency:', error);
+      if (error?.message?.includes('order_dependencies_predecessor_id_successor_id_key')) {
+        setError(`${pred.order_number} is already linked to ${succ.order_number}`);
+      } else {
+        setError(parseDependencyError(error?.message) || error?.message || 'Failed to add dependency');
+      }
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    try {
+      await removeDependency({ variables: { id: dependencyId } });
+    } catch (error) {
+      console.error('Error removing dependency:', error);
+    }
+  };
+
+  const renderLink = (link: any, other: any, prefix: string) => (
+    <div key={link.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200">
+      <div>
+        <p className="text-sm text-gray-900">
+          {prefix} <span className="font-medium">{other.order_number}</span>
+        </p>
+        <p className="text-xs text-gray-500">
+          {DEPENDENCY_LABELS[link.dependency_type] || link.dependency_type} • {other.status.replace('_', ' ')}
+        </p>
+      </div>
+      {canPlan && (
+        <button
+          onClick={() => handleRemove(link.id)}
+          className="text-xs font-medium text-red-600 hover:text-red-700"
+        >
+          Remove
+        </button>
+      )}
+    </div>
+  );
+
+  const inputClass =
+    'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="font-semibold text-gray-900">Dependencies</h5>
+        {canPlan && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+          >
+            + Link
+          </button>
+        )}
+      </div>
+
+      {pathInfo && (
+        <p
+          className={`mb-3 text-xs font-medium ${pathInfo.critical ? 'text-red-700' : 'text-gray-600'}`}
+        >
+          {pathInfo.critical
+            ? '◆ On the critical path: any slip delays the chain'
+            : `Slack ${formatHours(pathInfo.slackMs / (1000 * 60 * 60))} before the chain is delayed`}
+        </p>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleAdd} className="mb-3 p-3 border border-gray-200 rounded-lg space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as 'predecessor' | 'successor')}
+              className={inputClass}
+            >
+              <option value="predecessor">Waits for</option>
+              <option value="successor">Feeds</option>
+            </select>
+            <select value={otherOrderId} onChange={(e) => setOtherOrderId(e.target.value)} className={inputClass}>
+              <option value="">Select order</option>
+              {(candidatesData?.production_orders || []).map((candidate: any) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.order_number}
+                </option>
+              ))}
+            </select>
+          </div>
+          <select
+            value={dependencyType}
+            onChange={(e) => setDependencyType(e.target.value as DependencyType)}
+            className={inputClass}
+          >
+            <option value="finish_to_start">Finish → start</option>
+            <option value="start_to_start">Start → start</option>
+          </select>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setError(null);
+              }}
+              className="px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={adding}
+              className="px-2 py-1 text-xs font-medium text-white bg-primary-500 hover:bg-primary-600 rounded disabled:opacity-50"
+            >
+              {adding ? 'Linking…' : 'Link'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {predecessors.length === 0 && successors.length === 0 ? (
+        <p className="text-sm text-gray-500">No dependencies</p>
+      ) : (
+        <div className="space-y-2">
+          {predecessors.map((link: any) => renderLink(link, link.predecessor, 'Waits for'))}
+          {successors.map((link: any) => renderLink(link, link.successor, 'Feeds'))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderDependencies;
@@ -1,11 +1,31 @@
-import { useQuery, gql } from '@apollo/client';
+import { useQuery, useMutation, gql } from '@apollo/client';
+import { useState, useCallback } from 'react';
 import { format } from 'date-fns';
+import OrderFormModal from './OrderFormModal';
+import ConfirmDialog from './ConfirmDialog';
+import OrderStatusActions from './OrderStatusActions';
+import OrderDependencies from './OrderDependencies';
+import OrderProgress from './OrderProgress';
+import SplitOrderModal from './SplitOrderModal';
+import useAuth from '../hooks/useAuth';
+import AllocationForm, { AllocationDraft } from './AllocationForm';
+import {
+  costVarianceColor,
+  estimateAllocationCost,
+  formatCost,
+  formatCostVariance,
+  resourceRate,
+} from '../utils/cost';
+import { varianceHours, formatVariance, varianceColor } from '../utils/variance';
+import { formatHours } from '../utils/downtime';
+import { followLink, resourcePath } from '../utils/appRoutes';
 
 const GET_ORDER_BY_ID = gql`
   query GetOrderById($id: uuid!) {
     production_orders_by_pk(id: $id) {
       id
       order_number
+      product_id
       product_name
       quantity
       status
@@ -14,20 +34,30 @@ const GET_ORDER_BY_ID = gql`
       scheduled_end
       actual_start
       actual_end
+      good_quantity
+      scrap_quantity
       notes
       created_at
       updated_at
+      planned_cost
+      actual_cost
       resource_allocations {
         id
         allocated_quantity
         start_time
         end_time
+        notes
+        override_conflicts
+        override_reason
+        planned_cost
+        actual_cost
         resource {
           id
           name
           type
           status
           hourly_cost
+          unit_cost
         }
       }
       order_events(order_by: { created_at: desc }, limit: 10) {
@@ -35,6 +65,7 @@ const GET_ORDER_BY_ID = gql`
         event_type
         old_status
         new_status
+        changed_by
         created_at
         metadata
       }
@@ -42,16 +73,43 @@ const GET_ORDER_BY_ID = gql`
   }
 `;
 
+const DELETE_PRODUCTION_ORDER = gql`
+  mutation DeleteProductionOrder($id: uuid!) {
+    delete_production_orders_by_pk(id: $id) {
+      id
+      order_number
+    }
+  }
+`;
+
+const REMOVE_RESOURCE_ALLOCATION = gql`
+  mutation RemoveResourceAllocation($id: uuid!) {
+    delete_resource_allocations_by_pk(id: $id) {
+      id
+    }
+  }
+`;
+
 interface OrderDetailsProps {
   orderId: string;
   onClose: () => void;
+  onSelectOrder?: (orderId: string) => void;
 }
 
-const OrderDetails = ({ orderId, onClose }: OrderDetailsProps) => {
+const OrderDetails = ({ orderId, onClose, onSelectOrder }: OrderDetailsProps) => {
   const { data, loading, error } = useQuery(GET_ORDER_BY_ID, {
     variables: { id: orderId },
     pollInterval: 5000, // Poll every 5 seconds for updates
   });
+  const [deleteOrder, { loading: deleting }] = useMutation(DELETE_PRODUCTION_ORDER);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const { canPlan } = useAuth();
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+  const [removeAllocation] = useMutation(REMOVE_RESOURCE_ALLOCATION);
+  const [showAllocationForm, setShowAllocationForm] = useState(false);
+  const [allocationDraft, setAllocationDraft] = useState<AllocationDraft | null>(null);
+  const handleDraftChange = useCallback((draft: AllocationDraft | null) => setAllocationDraft(draft), []);
 
   const order = data?.production_orders_by_pk;
 
@@ -85,26 +143,111 @@ const OrderDetails = ({ orderId, onClose }: OrderDetailsProps) => {
     return colors[status as keyof typeof colors] || colors.pending;
   };
 
-  const totalCost = order.resource_allocations.reduce((sum: number, alloc: any) => {
-    const hours = alloc.end_time
-      ? (new Date(alloc.end_time).getTime() - new Date(alloc.start_time).getTime()) / (1000 * 60 * 60)
-      : 0;
-    return sum + (alloc.resource.hourly_cost * hours || 0);
-  }, 0);
+  const formatEventValue = (value: unknown) =>
+    value === null || value === undefined || value === '' ? '—' : String(value);
+
+  const handleDelete = async () => {
+    try {
+      await deleteOrder({
+        variables: { id: order.id },
+        optimisticResponse: {
+          delete_production_orders_by_pk: {
+            __typename: 'production_orders',
+            id: order.id,
+            order_number: order.order_number,
+          },
+        },
+        update(cache, { data }) {
+          const deleted = data?.delete_production_orders_by_pk;
+          if (!deleted) return;
+          cache.evict({ id: cache.identify(deleted) });
+          cache.gc();
+        },
+      });
+      setShowDeleteConfirm(false);
+      onClose();
+    } catch (error) {
+      console.error('Error deleting order:', error);
+    }
+  };
+
+  const handleRemoveAllocation = async (allocationId: string) => {
+    try {
+      await removeAllocation({
+        variables: { id: allocationId },
+        optimisticResponse: {
+          delete_resource_allocations_by_pk: {
+            __typename: 'resource_allocations',
+            id: allocationId,
+          },
+        },
+        update(cache, { data }) {
+          const removed = data?.delete_resource_allocations_by_pk;
+          if (!removed) return;
+          cache.evict({ id: cache.identify(removed) });
+          cache.gc();
+        },
+      });
+    } catch (error) {
+      console.error('Error removing allocation:', error);
+    }
+  };
+
+  const startVariance = varianceHours(order.scheduled_start, order.actual_start);
+  const finishVariance = varianceHours(order.scheduled_end, order.actual_end);
+
+  const plannedCost = Number(order.planned_cost);
+  const actualCost = Number(order.actual_cost);
+  const draftCost = allocationDraft
+    ? estimateAllocationCost(
+        allocationDraft.resource,
+        allocationDraft.allocated_quantity,
+        allocationDraft.start_time,
+        allocationDraft.end_time,
+        order.scheduled_end
+      )
+    : 0;
+  const costStarted = order.actual_start !== null;
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 sticky top-6">
       {/* Header */}
       <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-900">Order Details</h3>
-        <button
-          onClick={onClose}
-          className="text-gray-400 hover:text-gray-600 transition-colors"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-          </svg>
-        </button>
+        <div className="flex items-center space-x-2">
+          {canPlan && (
+            <>
+              <button
+                onClick={() => setShowEditForm(true)}
+                className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+              >
+                Edit
+              </button>
+              {['pending', 'scheduled'].includes(order.status) && order.quantity >= 2 && (
+                <button
+                  onClick={() => setShowSplit(true)}
+                  className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+                >
+                  Split
+                </button>
+              )}
+              <button
+                onClick={() => setShowDeleteConfirm(true)}
+                className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded"
+              >
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
       </div>
 
       {/* Content */}
@@ -132,6 +275,10 @@ const OrderDetails = ({ orderId, onClose }: OrderDetailsProps) => {
               <span className="ml-2 font-medium text-gray-900">{order.priority}/5</span>
             </div>
           </div>
+
+          <div className="mt-3">
+            <OrderStatusActions order={order} layout="row" />
+          </div>
         </div>
 
         {/* Schedule */}
@@ -160,17 +307,62 @@ const OrderDetails = ({ orderId, onClose }: OrderDetailsProps) => {
                 <span className="ml-2 text-gray-900">
                   {format(new Date(order.actual_start), 'MMM dd, yyyy HH:mm')}
                 </span>
+                {startVariance !== null && (
+                  <span className={`ml-2 text-xs font-medium ${varianceColor(startVariance)}`}>
+                    ({formatVariance(startVariance)})
+                  </span>
+                )}
+              </div>
+            )}
+            {order.actual_end && (
+              <div>
+                <span className="text-gray-500">Actual End:</span>
+                <span className="ml-2 text-gray-900">
+                  {format(new Date(order.actual_end), 'MMM dd, yyyy HH:mm')}
+                </span>
+                {finishVariance !== null && (
+                  <span className={`ml-2 text-xs font-medium ${varianceColor(finishVariance)}`}>
+                    ({formatVariance(finishVariance)})
+                  </span>
+                )}
               </div>
             )}
           </div>
         </div>
 
+        {/* Progress */}
+        {(['in_progress', 'completed'].includes(order.status) || order.good_quantity + order.scrap_quantity > 0) && (
+          <OrderProgress order={order} />
+        )}
+
+        {/* Dependencies */}
+        <OrderDependencies order={order} />
+
         {/* Allocated Resources */}
         <div>
-          <h5 className="font-semibold text-gray-900 mb-3">
-            Allocated Resources ({order.resource_allocations.length})
-          </h5>
-          {order.resource_allocations.length === 0 ? (
+          <div className="flex items-center justify-between mb-3">
+            <h5 className="font-semibold text-gray-900">
+              Allocated Resources ({order.resource_allocations.length})
+            </h5>
+            {canPlan && !showAllocationForm && (
+              <button
+                onClick={() => setShowAllocationForm(true)}
+                className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+              >
+                + Allocate
+              </button>
+            )}
+          </div>
+          {showAllocationForm && (
+            <div className="mb-3">
+              <AllocationForm
+                order={order}
+                onDraftChange={handleDraftChange}
+                onDone={() => setShowAllocationForm(false)}
+              />
+            </div>
+          )}
+          {order.resource_allocations.length === 0 && !allocationDraft ? (
             <p className="text-sm text-gray-500">No resources allocated yet</p>
           ) : (
             <div className="space-y-2">
@@ -181,29 +373,75 @@ const OrderDetails = ({ orderId, onClose }: OrderDetailsProps) => {
                 >
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
-                      <p className="text-sm font-medium text-gray-900">
+                      <a
+                        href={resourcePath(alloc.resource.id)}
+                        onClick={(e) => followLink(e, resourcePath(alloc.resource.id))}
+                        className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                      >
                         {alloc.resource.name}
-                      </p>
+                      </a>
                       <p className="text-xs text-gray-500 mt-1">
                         {alloc.resource.type} • {alloc.resource.status}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
                         Qty: {alloc.allocated_quantity}
                       </p>
+                      {alloc.override_reason && (
+                        <p
+                          className="text-xs text-amber-700 mt-1"
+                          title={alloc.override_reason}
+                        >
+                          ⚠ Conflict overridden
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-1">
+                        {format(new Date(alloc.start_time), 'MMM dd, HH:mm')}
+                        {alloc.end_time && ` – ${format(new Date(alloc.end_time), 'MMM dd, HH:mm')}`}
+                      </p>
                     </div>
-                    <div className="text-xs text-gray-500">
-                      ${alloc.resource.hourly_cost}/hr
+                    <div className="flex flex-col items-end space-y-1">
+                      <span className="text-xs font-medium text-gray-900">
+                        {formatCost(Number(alloc.planned_cost))}
+                      </span>
+                      {resourceRate(alloc.resource) && (
+                        <span className="text-xs text-gray-500">{resourceRate(alloc.resource)}</span>
+                      )}
+                      {canPlan && (
+                        <button
+                          onClick={() => handleRemoveAllocation(alloc.id)}
+                          className="text-xs font-medium text-red-600 hover:text-red-700"
+                        >
+                          Remove
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
               ))}
-              <div className="pt-2 border-t border-gray-200">
+              <div className="pt-2 border-t border-gray-200 space-y-1">
                 <div className="flex justify-between text-sm">
-                  <span className="font-medium text-gray-700">Estimated Cost:</span>
+                  <span className="font-medium text-gray-700">
+                    Planned Cost{allocationDraft ? ' (incl. draft)' : ''}:
+                  </span>
                   <span className="font-semibold text-gray-900">
-                    ${totalCost.toFixed(2)}
+                    {formatCost(plannedCost + draftCost)}
                   </span>
                 </div>
+                {costStarted && (
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-gray-700">
+                      Actual Cost{order.status === 'in_progress' ? ' (so far)' : ''}:
+                    </span>
+                    <span className="text-right">
+                      <span className="font-semibold text-gray-900">{formatCost(actualCost)}</span>
+                      {order.status !== 'in_progress' && (
+                        <span className={`block text-xs ${costVarianceColor(actualCost - plannedCost)}`}>
+                          {formatCostVariance(actualCost - plannedCost)}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -233,10 +471,80 @@ const OrderDetails = ({ orderId, onClose }: OrderDetailsProps) => {
                           {event.old_status} → {event.new_status}
                         </p>
                       )}
+                      {event.event_type === 'rescheduled' && event.metadata?.new_start && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {event.metadata.target === 'allocation' ? 'Allocation' : 'Order'}:{' '}
+                          {event.metadata.old_start
+                            ? format(new Date(event.metadata.old_start), 'MMM dd HH:mm')
+                            : '—'}{' '}
+                          → {format(new Date(event.metadata.new_start), 'MMM dd HH:mm')}
+                        </p>
+                      )}
+                      {event.event_type === 'updated' &&
+                        Object.entries(event.metadata?.changes || {}).map(([field, change]: [string, any]) => (
+                          <p key={field} className="text-xs text-gray-600 mt-1">
+                            {field.replace('_', ' ')}: {formatEventValue(change.old)} → {formatEventValue(change.new)}
+                          </p>
+                        ))}
+                      {(event.event_type === 'allocation_added' || event.event_type === 'allocation_removed') && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {event.metadata?.resource_name} • Qty: {event.metadata?.allocated_quantity}
+                        </p>
+                      )}
+                      {event.event_type === 'routing_unassigned' && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          No free {event.metadata?.resource_type} for {event.metadata?.sequence}.{' '}
+                          {event.metadata?.operation} ({format(new Date(event.metadata?.start), 'MMM dd HH:mm')} –{' '}
+                          {format(new Date(event.metadata?.end), 'MMM dd HH:mm')})
+                        </p>
+                      )}
+                      {(event.event_type === 'split' || event.event_type === 'merged') && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {event.event_type === 'split' ? 'Into' : 'From'}{' '}
+                          {(event.metadata?.orders || [])
+                            .map((part: any) => `${part.order_number} (${part.quantity})`)
+                            .join(', ')}
+                        </p>
+                      )}
+                      {event.event_type === 'split_from' && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          From {event.metadata?.order_number}, part {event.metadata?.part} of {event.metadata?.parts}
+                        </p>
+                      )}
+                      {(event.event_type === 'paused' || event.event_type === 'issue_reported') && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {event.metadata?.reason_label}
+                          {event.metadata?.resource_name && ` • ${event.metadata.resource_name}`}
+                          {event.metadata?.note && ` – ${event.metadata.note}`}
+                        </p>
+                      )}
+                      {event.event_type === 'issue_resolved' && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {event.metadata?.reason_label}
+                          {event.metadata?.resource_name && ` • ${event.metadata.resource_name}`} after{' '}
+                          {formatHours(Number(event.metadata?.hours || 0))}
+                        </p>
+                      )}
+                      {event.event_type === 'progress_reported' && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          +{event.metadata?.good_quantity} good, {event.metadata?.scrap_quantity} scrap
+                          {(event.metadata?.operation || event.metadata?.resource_name) &&
+                            ` • ${event.metadata?.operation || event.metadata?.resource_name}`}{' '}
+                          (total {event.metadata?.total_good} good)
+                        </p>
+                      )}
+                      {event.event_type === 'merged_into' && (
+                        <p className="text-xs text-gray-600 mt-1">Into {event.metadata?.order_number}</p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className="text-xs text-gray-500">
+                        {format(new Date(event.created_at), 'MMM dd, HH:mm')}
+                      </p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        by {event.changed_by || 'system'}
+                      </p>
                     </div>
-                    <span className="text-xs text-gray-500">
-                      {format(new Date(event.created_at), 'MMM dd, HH:mm')}
-                    </span>
                   </div>
                 </div>
               ))}
@@ -254,6 +562,30 @@ const OrderDetails = ({ orderId, onClose }: OrderDetailsProps) => {
           </div>
         )}
       </div>
+
+      {showEditForm && (
+        <OrderFormModal order={order} onClose={() => setShowEditForm(false)} />
+      )}
+
+      {showSplit && (
+        <SplitOrderModal order={order} onClose={() => setShowSplit(false)} onSplit={onSelectOrder} />
+      )}
+
+      {showDeleteConfirm && (
+        <ConfirmDialog
+          title={`Delete ${order.order_number}?`}
+          message={
+            <>
+              This permanently removes the order together with its{' '}
+              {order.resource_allocations.length} resource allocation(s) and its event history.
+            </>
+          }
+          confirmLabel="Delete Order"
+          busy={deleting}
+          onConfirm={handleDelete}
+          onCancel={() => setShowDeleteConfirm(false)}
+        />
+      )}
     </div>
   );
 };
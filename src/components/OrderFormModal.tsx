@@ -0,0 +1,489 @@
+import { useQuery, useMutation, useApolloClient, gql } from '@apollo/client';
+import { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import {
+  OrderFormValues,
+  OrderFormErrors,
+  emptyOrderForm,
+  toDateTimeLocal,
+  fromDateTimeLocal,
+  validateOrderForm,
+} from '../utils/orderValidation';
+import { parseStockError } from '../utils/inventory';
+import { parseDependencyError } from '../utils/dependencies';
+import { planRouting, bomRequirements, formatMinutes, routingMinutes } from '../utils/routing';
+
+const GET_PRODUCTS = gql`
+  query GetProducts {
+    products(order_by: { name: asc }) {
+      id
+      name
+      bill_of_materials {
+        id
+        quantity_per_unit
+        resource {
+          id
+          name
+          stock_on_hand
+          stock_reserved
+        }
+      }
+      routing(order_by: { sequence: asc }) {
+        id
+        sequence
+        name
+        resource_type
+        setup_minutes
+        run_minutes_per_unit
+        resource {
+          id
+          name
+        }
+      }
+    }
+  }
+`;
+
+const CHECK_ORDER_NUMBER = gql`
+  query CheckOrderNumber($where: production_orders_bool_exp!) {
+    production_orders(where: $where, limit: 1) {
+      id
+    }
+  }
+`;
+
+const CREATE_PRODUCTION_ORDER = gql`
+  mutation CreateProductionOrder(
+    $order_number: String!
+    $product_id: uuid
+    $product_name: String!
+    $quantity: Int!
+    $priority: Int!
+    $scheduled_start: timestamptz
+    $scheduled_end: timestamptz
+    $notes: String
+  ) {
+    insert_production_orders_one(
+      object: {
+        order_number: $order_number
+        product_id: $product_id
+        product_name: $product_name
+        quantity: $quantity
+        priority: $priority
+        scheduled_start: $scheduled_start
+        scheduled_end: $scheduled_end
+        notes: $notes
+      }
+    ) {
+      id
+      order_number
+      product_id
+      product_name
+      quantity
+      good_quantity
+      scrap_quantity
+      status
+      priority
+      scheduled_start
+      scheduled_end
+      notes
+      updated_at
+      resource_allocations_aggregate {
+        aggregate {
+          count
+        }
+      }
+    }
+  }
+`;
+
+const UPDATE_PRODUCTION_ORDER = gql`
+  mutation UpdateProductionOrder(
+    $id: uuid!
+    $order_number: String!
+    $product_id: uuid
+    $product_name: String!
+    $quantity: Int!
+    $priority: Int!
+    $scheduled_start: timestamptz
+    $scheduled_end: timestamptz
+    $notes: String
+  ) {
+    update_production_orders_by_pk(
+      pk_columns: { id: $id }
+      _set: {
+        order_number: $order_number
+        product_id: $product_id
+        product_name: $product_name
+        quantity: $quantity
+        priority: $priority
+        scheduled_start: $scheduled_start
+        scheduled_end: $scheduled_end
+        notes: $notes
+      }
+    ) {
+      id
+      order_number
+      product_id
+      product_name
+      quantity
+      status
+      priority
+      scheduled_start
+      scheduled_end
+      notes
+      updated_at
+    }
+  }
+`;
+
+interface OrderFormModalProps {
+  order?: any;
+  onClose: () => void;
+  onSaved?: (orderId: string) => void;
+}
+
+const OrderFormModal = ({ order, onClose, onSaved }: OrderFormModalProps) => {
+  const isEdit = Boolean(order);
+  const client = useApolloClient();
+
+  const [values, setValues] = useState<OrderFormValues>(() =>
+    order
+      ? {
+          order_number: order.order_number,
+          product_id: order.product_id || '',
+          product_name: order.product_name,
+          quantity: String(order.quantity),
+          priority: String(order.priority),
+          scheduled_start: toDateTimeLocal(order.scheduled_start),
+          scheduled_end: toDateTimeLocal(order.scheduled_end),
+          notes: order.notes || '',
+        }
+      : emptyOrderForm
+  );
+  const [errors, setErrors] = useState<OrderFormErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: productsData } = useQuery(GET_PRODUCTS);
+  const [createOrder] = useMutation(CREATE_PRODUCTION_ORDER);
+  const [updateOrder] = useMutation(UPDATE_PRODUCTION_ORDER);
+
+  const products = productsData?.products || [];
+  const selectedProduct = products.find((product: any) => product.id === values.product_id);
+
+  // What the database will book for this product, see generate_order_allocations
+  const productPreview = useMemo(() => {
+    const quantity = Number(values.quantity);
+    if (!selectedProduct || !Number.isInteger(quantity) || quantity <= 0) return null;
+    return {
+      minutes: routingMinutes(selectedProduct.routing, quantity),
+      operations: values.scheduled_start
+        ? planRouting(selectedProduct.routing, quantity, new Date(values.scheduled_start))
+        : [],
+      materials: bomRequirements(selectedProduct.bill_of_materials, quantity),
+    };
+  }, [selectedProduct, values.quantity, values.scheduled_start]);
+
+  const handleProductChange = (productId: string) => {
+    const product = products.find((p: any) => p.id === productId);
+    setValues((prev) => ({
+      ...prev,
+      product_id: productId,
+      product_name: product ? product.name : prev.product_name,
+    }));
+    setErrors((prev) => ({ ...prev, product_name: undefined }));
+  };
+
+  const setField = (field: keyof OrderFormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError(null);
+
+    const validationErrors = validateOrderForm(values);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const variables = {
+      order_number: values.order_number.trim(),
+      product_id: values.product_id || null,
+      product_name: values.product_name.trim(),
+      quantity: Number(values.quantity),
+      priority: Number(values.priority),
+      scheduled_start: fromDateTimeLocal(values.scheduled_start),
+      scheduled_end: fromDateTimeLocal(values.scheduled_end),
+      notes: values.notes.trim() || null,
+    };
+
+    setSubmitting(true);
+    try {
+      // Hasura rejects a null _neq, so the order's own id is only excluded when editing
+      const where: Record<string, unknown> = { order_number: { _eq: variables.order_number } };
+      if (isEdit) where.id = { _neq: order.id };
+      const { data: existing } = await client.query({
+        query: CHECK_ORDER_NUMBER,
+        variables: { where },
+        fetchPolicy: 'network-only',
+      });
+      if (existing.production_orders.length > 0) {
+        setErrors({ order_number: `Order number ${variables.order_number} is already in use` });
+        return;
+      }
+
+      if (isEdit) {
+        await updateOrder({
+          variables: { id: order.id, ...variables },
+          optimisticResponse: {
+            update_production_orders_by_pk: {
+              __typename: 'production_orders',
+              id: order.id,
+              status: order.status,
+              ...variables,
+              updated_at: new Date().toISOString(),
+            },
+          },
+        });
+        onSaved?.(order.id);
+      } else {
+        // The orders list picks the new row up through its subscription
+        const { data } = await createOrder({ variables });
+        onSaved?.(data.insert_production_orders_one.id);
+      }
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving order:', error);
+      if (error?.message?.includes('production_orders_order_number_key')) {
+        setErrors({ order_number: `Order number ${variables.order_number} is already in use` });
+      } else if (parseStockError(error?.message)) {
+        setSubmitError(parseStockError(error?.message));
+      } else if (parseDependencyError(error?.message)) {
+        setSubmitError(parseDependencyError(error?.message));
+      } else {
+        setSubmitError(error?.message || 'Failed to save order');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = (field: keyof OrderFormValues) => `
+    w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500
+    ${errors[field] ? 'border-red-300' : 'border-gray-300'}
+  `;
+
+  const renderError = (field: keyof OrderFormValues) =>
+    errors[field] && <p className="text-xs text-red-600 mt-1">{errors[field]}</p>;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-lg"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {isEdit ? `Edit ${order.order_number}` : 'New Production Order'}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Fields */}
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Order Number</label>
+              <input
+                value={values.order_number}
+                onChange={(e) => setField('order_number', e.target.value)}
+                placeholder="PO-2024-006"
+                className={inputClass('order_number')}
+              />
+              {renderError('order_number')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+              <select
+                value={values.product_id}
+                onChange={(e) => handleProductChange(e.target.value)}
+                className={inputClass('product_id')}
+              >
+                <option value="">Custom product</option>
+                {products.map((product: any) => (
+                  <option key={product.id} value={product.id}>
+                    {product.name}
+                  </option>
+                ))}
+              </select>
+              {!values.product_id && (
+                <input
+                  value={values.product_name}
+                  onChange={(e) => setField('product_name', e.target.value)}
+                  placeholder="Product name"
+                  className={`${inputClass('product_name')} mt-2`}
+                />
+              )}
+              {renderError('product_name')}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={values.quantity}
+                onChange={(e) => setField('quantity', e.target.value)}
+                className={inputClass('quantity')}
+              />
+              {renderError('quantity')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+              <select
+                value={values.priority}
+                onChange={(e) => setField('priority', e.target.value)}
+                className={inputClass('priority')}
+              >
+                {[1, 2, 3, 4, 5].map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+              {renderError('priority')}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Scheduled Start</label>
+              <input
+                type="datetime-local"
+                value={values.scheduled_start}
+                onChange={(e) => setField('scheduled_start', e.target.value)}
+                className={inputClass('scheduled_start')}
+              />
+              {renderError('scheduled_start')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Scheduled End</label>
+              <input
+                type="datetime-local"
+                value={values.scheduled_end}
+                onChange={(e) => setField('scheduled_end', e.target.value)}
+                className={inputClass('scheduled_end')}
+              />
+              {renderError('scheduled_end')}
+              {selectedProduct && !values.scheduled_end && productPreview && productPreview.minutes > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Left blank, the routing sets it ({formatMinutes(productPreview.minutes)})
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Routing & Materials Preview */}
+          {selectedProduct && productPreview && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">
+                  Routing ({formatMinutes(productPreview.minutes)})
+                </p>
+                {selectedProduct.routing.length === 0 ? (
+                  <p className="text-xs text-gray-400">No operations</p>
+                ) : productPreview.operations.length === 0 ? (
+                  <p className="text-xs text-gray-400">Set a scheduled start to see operation times</p>
+                ) : (
+                  productPreview.operations.map(({ operation, start, end }) => (
+                    <div key={operation.sequence} className="flex justify-between text-xs">
+                      <span className="text-gray-700">
+                        {operation.sequence}. {operation.name} •{' '}
+                        {operation.resource?.name || `any ${operation.resource_type}`}
+                      </span>
+                      <span className="text-gray-600">
+                        {format(start, 'MMM dd HH:mm')} – {format(end, 'HH:mm')}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Materials</p>
+                {productPreview.materials.length === 0 ? (
+                  <p className="text-xs text-gray-400">No bill of materials</p>
+                ) : (
+                  productPreview.materials.map(({ resource, required, available, short }) => (
+                    <div key={resource.id} className="flex justify-between text-xs">
+                      <span className="text-gray-700">{resource.name}</span>
+                      <span className={short ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                        {required} needed • {available} available
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {isEdit
+                  ? 'Changing the product does not re-plan existing allocations.'
+                  : 'These allocations are created with the order; busy resources are swapped for a free one of the same type.'}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              rows={3}
+              value={values.notes}
+              onChange={(e) => setField('notes', e.target.value)}
+              className={inputClass('notes')}
+            />
+          </div>
+
+          {submitError && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+              {submitError}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Saving…' : isEdit ? 'Save Changes' : 'Create Order'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default OrderFormModal;
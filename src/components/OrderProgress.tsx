@@ -0,0 +1,283 @@
+import { useSubscription, useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import useAuth from '../hooks/useAuth';
+import ProgressBar from './ProgressBar';
+import { countsAsFinished, operationProgress, parseReportError, yieldRate } from '../utils/progress';
+
+const WATCH_ORDER_PROGRESS = gql`
+  subscription WatchOrderProgress($id: uuid!) {
+    production_orders_by_pk(id: $id) {
+      id
+      status
+      quantity
+      good_quantity
+      scrap_quantity
+      product {
+        id
+        routing(order_by: { sequence: asc }) {
+          id
+          sequence
+          name
+        }
+      }
+      production_reports(order_by: { created_at: desc }) {
+        id
+        operation_id
+        good_quantity
+        scrap_quantity
+        note
+        reported_by
+        created_at
+        operation {
+          id
+          sequence
+          name
+        }
+        allocation {
+          id
+          resource {
+            id
+            name
+          }
+        }
+      }
+    }
+  }
+`;
+
+const REPORT_PRODUCTION = gql`
+  mutation ReportProduction(
+    $order_id: uuid!
+    $allocation_id: uuid
+    $operation_id: uuid
+    $good_quantity: Int!
+    $scrap_quantity: Int!
+    $note: String
+  ) {
+    insert_production_reports_one(
+      object: {
+        order_id: $order_id
+        allocation_id: $allocation_id
+        operation_id: $operation_id
+        good_quantity: $good_quantity
+        scrap_quantity: $scrap_quantity
+        note: $note
+      }
+    ) {
+      id
+    }
+  }
+`;
+
+interface OrderProgressProps {
+  order: any;
+}
+
+const OrderProgress = ({ order }: OrderProgressProps) => {
+  const [showForm, setShowForm] = useState(false);
+  // '' for the whole order, otherwise 'operation:<id>' or 'allocation:<id>'
+  const [target, setTarget] = useState('');
+  const [good, setGood] = useState('');
+  const [scrap, setScrap] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useSubscription(WATCH_ORDER_PROGRESS, { variables: { id: order.id } });
+  const [reportProduction, { loading: reporting }] = useMutation(REPORT_PRODUCTION);
+  const { canPlan, canReportOn } = useAuth();
+
+  const progress = data?.production_orders_by_pk;
+  const goodTotal = progress?.good_quantity ?? order.good_quantity ?? 0;
+  const scrapTotal = progress?.scrap_quantity ?? order.scrap_quantity ?? 0;
+  const routing = progress?.product?.routing || [];
+  const reports = progress?.production_reports || [];
+  const status = progress?.status || order.status;
+  const rate = yieldRate(goodTotal, scrapTotal);
+
+  const reportableAllocations = (order.resource_allocations || []).filter(
+    (alloc: any) => alloc.resource.type !== 'material' && canReportOn(alloc.resource.id)
+  );
+  // Planners report on any order; operators on orders allocated to their resource
+  const canReport = canPlan || reportableAllocations.length > 0;
+
+  const [targetKind, targetId] = target ? target.split(':') : [null, null];
+  const goodValue = Number(good) || 0;
+  const completes =
+    goodTotal + goodValue >= order.quantity &&
+    goodValue > 0 &&
+    (targetKind !== 'operation' || countsAsFinished(targetId, routing));
+
+  const resetForm = () => {
+    setShowForm(false);
+    setTarget('');
+    setGood('');
+    setScrap('');
+    setNote('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const goodQuantity = Number(good || 0);
+    const scrapQuantity = Number(scrap || 0);
+    if (![goodQuantity, scrapQuantity].every((value) => Number.isInteger(value) && value >= 0)) {
+      setError('Quantities must be whole numbers of 0 or more');
+      return;
+    }
+    if (goodQuantity + scrapQuantity === 0) {
+      setError('Report at least one good or scrapped unit');
+      return;
+    }
+
+    try {
+      await reportProduction({
+        variables: {
+          order_id: order.id,
+          allocation_id: targetKind === 'allocation' ? targetId : null,
+          operation_id: targetKind === 'operation' ? targetId : null,
+          good_quantity: goodQuantity,
+          scrap_quantity: scrapQuantity,
+          note: note.trim() || null,
+        },
+      });
+      resetForm();
+    } catch (error: any) {
+      console.error('Error reporting production:', error);
+      setError(parseReportError(error?.message) || error?.message || 'Failed to report production');
+    }
+  };
+
+  const inputClass =
+    'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="font-semibold text-gray-900">Progress</h5>
+        {canReport && status === 'in_progress' && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+          >
+            + Report
+          </button>
+        )}
+      </div>
+
+      <ProgressBar good={goodTotal} scrap={scrapTotal} quantity={order.quantity} />
+      {rate !== null && <p className="text-xs text-gray-500 mt-1">Yield {rate.toFixed(1)}%</p>}
+
+      {routing.length > 0 && reports.some((report: any) => report.operation_id) && (
+        <div className="mt-3 space-y-2">
+          {operationProgress(routing, reports).map(({ operation, good: opGood, scrap: opScrap }) => (
+            <div key={operation.id}>
+              <p className="text-xs font-medium text-gray-700">
+                {operation.sequence}. {operation.name}
+              </p>
+              <ProgressBar good={opGood} scrap={opScrap} quantity={order.quantity} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mt-3 p-3 border border-gray-200 rounded-lg space-y-2">
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className={inputClass}>
+            <option value="">Whole order</option>
+            {routing.map((operation: any) => (
+              <option key={operation.id} value={`operation:${operation.id}`}>
+                Operation {operation.sequence}. {operation.name}
+              </option>
+            ))}
+            {reportableAllocations.map((alloc: any) => (
+              <option key={alloc.id} value={`allocation:${alloc.id}`}>
+                {alloc.resource.name}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              min={0}
+              step={1}
+              placeholder="Good"
+              value={good}
+              onChange={(e) => setGood(e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={0}
+              step={1}
+              placeholder="Scrap"
+              value={scrap}
+              onChange={(e) => setScrap(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="text"
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className={inputClass}
+          />
+          {targetKind === 'operation' && !countsAsFinished(targetId, routing) && (
+            <p className="text-xs text-gray-500">
+              Good units from this operation go on to the next one and do not count as finished yet
+            </p>
+          )}
+          {completes && <p className="text-xs text-green-700">This completes {order.order_number}</p>}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={reporting}
+              className="px-2 py-1 text-xs font-medium text-white bg-primary-500 hover:bg-primary-600 rounded disabled:opacity-50"
+            >
+              {reporting ? 'Reporting…' : 'Report'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {reports.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {reports.slice(0, 5).map((report: any) => (
+            <div key={report.id} className="flex items-start justify-between text-xs">
+              <div>
+                <span className="font-medium text-gray-900">+{report.good_quantity} good</span>
+                {report.scrap_quantity > 0 && (
+                  <span className="text-red-600"> • {report.scrap_quantity} scrap</span>
+                )}
+                <span className="text-gray-500">
+                  {' '}
+                  •{' '}
+                  {report.operation
+                    ? `${report.operation.sequence}. ${report.operation.name}`
+                    : report.allocation?.resource.name || 'Whole order'}
+                </span>
+                {report.note && <p className="text-gray-500">{report.note}</p>}
+              </div>
+              <span className="text-gray-400 whitespace-nowrap ml-2">
+                {format(new Date(report.created_at), 'MMM dd HH:mm')}
+                {report.reported_by && ` • ${report.reported_by}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderProgress;
@@ -0,0 +1,95 @@
+import { useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import useAuth from '../hooks/useAuth';
+import {
+  OrderStatus,
+  STATUS_ACTION_LABELS,
+  getNextStatuses,
+  parseTransitionError,
+} from '../utils/orderStatus';
+import { parseDependencyError } from '../utils/dependencies';
+
+const UPDATE_ORDER_STATUS = gql`
+  mutation UpdateOrderStatus($id: uuid!, $status: order_status!) {
+    update_production_orders_by_pk(
+      pk_columns: { id: $id }
+      _set: { status: $status }
+    ) {
+      id
+      status
+      updated_at
+    }
+  }
+`;
+
+interface OrderStatusActionsProps {
+  order: { id: string; status: string };
+  layout?: 'stack' | 'row';
+}
+
+const OrderStatusActions = ({ order, layout = 'stack' }: OrderStatusActionsProps) => {
+  const [updateStatus] = useMutation(UPDATE_ORDER_STATUS);
+  const [error, setError] = useState<string | null>(null);
+  const { canChangeStatus } = useAuth();
+
+  const getActionColor = (status: OrderStatus) => {
+    const colors = {
+      pending: 'text-gray-600 hover:bg-gray-50',
+      scheduled: 'text-blue-600 hover:bg-blue-50',
+      in_progress: 'text-yellow-600 hover:bg-yellow-50',
+      completed: 'text-green-600 hover:bg-green-50',
+      cancelled: 'text-red-600 hover:bg-red-50',
+    };
+    return colors[status];
+  };
+
+  const handleStatusChange = async (newStatus: OrderStatus) => {
+    setError(null);
+    try {
+      await updateStatus({
+        variables: { id: order.id, status: newStatus },
+        optimisticResponse: {
+          update_production_orders_by_pk: {
+            __typename: 'production_orders',
+            id: order.id,
+            status: newStatus,
+            updated_at: new Date().toISOString(),
+          },
+        },
+      });
+    } catch (error: any) {
+      console.error('Error updating status:', error);
+      const rejected = parseTransitionError(error?.message);
+      setError(
+        rejected
+          ? `Order is already ${rejected.from.replace('_', ' ')}; it cannot move to ${rejected.to.replace('_', ' ')}`
+          : parseDependencyError(error?.message) || error?.message || 'Failed to update status'
+      );
+    }
+  };
+
+  const nextStatuses = canChangeStatus ? getNextStatuses(order.status) : [];
+  if (nextStatuses.length === 0 && !error) return null;
+
+  return (
+    <div className={layout === 'stack' ? 'flex flex-col items-end space-y-1' : 'space-y-1'}>
+      <div className={layout === 'stack' ? 'flex flex-col space-y-1' : 'flex flex-wrap gap-2'}>
+        {nextStatuses.map((status) => (
+          <button
+            key={status}
+            onClick={(e) => {
+              e.stopPropagation();
+              handleStatusChange(status);
+            }}
+            className={`px-2 py-1 text-xs font-medium rounded ${getActionColor(status)}`}
+          >
+            {STATUS_ACTION_LABELS[status]}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-xs text-red-600 max-w-[12rem]">{error}</p>}
+    </div>
+  );
+};
+
+export default OrderStatusActions;
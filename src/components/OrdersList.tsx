@@ -1,16 +1,50 @@
-import { useQuery, useMutation, useSubscription } from '@apollo/client';
-import { useState, useMemo } from 'react';
+import { useQuery, useSubscription, useMutation } from '@apollo/client';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { format } from 'date-fns';
 import { gql } from '@apollo/client';
+import OrderFormModal from './OrderFormModal';
+import OrderStatusActions from './OrderStatusActions';
+import ConfirmDialog from './ConfirmDialog';
+import ProgressBar from './ProgressBar';
+import useAuth from '../hooks/useAuth';
+import { OrderStatus } from '../utils/orderStatus';
+import { mergeIssue, mergeSurvivor, parseLineageError, toPostgresArray } from '../utils/orderLineage';
+import { parseDependencyError } from '../utils/dependencies';
+import { parseConflictError } from '../utils/conflicts';
+import { subscribeRoute } from '../utils/appRoutes';
+import {
+  DEFAULT_ORDER_FILTERS,
+  ORDERS_PAGE_SIZE,
+  ORDER_FILTER_PARAMS,
+  ORDER_SORT_COLUMNS,
+  OrderCursor,
+  OrderFilters,
+  OrderSortColumn,
+  afterCursorWhere,
+  formatOrderFilters,
+  orderCursor,
+  orderFiltersOrderBy,
+  orderFiltersWhere,
+  parseOrderFilters,
+} from '../utils/orderFilters';
 
 // We'll use inline queries for now until codegen is run
+// One page at a time: $where holds the filters and the keyset cursor, and
+// one row past the page size is fetched to tell whether there is a next page
 const GET_PRODUCTION_ORDERS = gql`
-  query GetProductionOrders {
-    production_orders(order_by: { priority: desc, scheduled_start: asc }) {
+  query GetProductionOrders(
+    $where: production_orders_bool_exp!
+    $order_by: [production_orders_order_by!]!
+    $limit: Int!
+  ) {
+    production_orders(where: $where, order_by: $order_by, limit: $limit) {
       id
       order_number
+      product_id
       product_name
       quantity
+      good_quantity
+      scrap_quantity
       status
       priority
       scheduled_start
@@ -26,30 +60,71 @@ const GET_PRODUCTION_ORDERS = gql`
 `;
 
 const WATCH_PRODUCTION_ORDERS = gql`
-  subscription WatchProductionOrders {
-    production_orders(order_by: { priority: desc, scheduled_start: asc }) {
+  subscription WatchProductionOrders(
+    $where: production_orders_bool_exp!
+    $order_by: [production_orders_order_by!]!
+    $limit: Int!
+  ) {
+    production_orders(where: $where, order_by: $order_by, limit: $limit) {
       id
       order_number
+      product_id
       product_name
       quantity
+      good_quantity
+      scrap_quantity
       status
       priority
       scheduled_start
       scheduled_end
       updated_at
+      resource_allocations_aggregate {
+        aggregate {
+          count
+        }
+      }
     }
   }
 `;
 
-const UPDATE_ORDER_STATUS = gql`
-  mutation UpdateOrderStatus($id: uuid!, $status: order_status!) {
-    update_production_orders_by_pk(
-      pk_columns: { id: $id }
-      _set: { status: $status }
-    ) {
+const WATCH_ORDER_COUNT = gql`
+  subscription WatchOrderCount($where: production_orders_bool_exp!) {
+    production_orders_aggregate(where: $where) {
+      aggregate {
+        count
+      }
+    }
+  }
+`;
+
+const WATCH_OPEN_ISSUES = gql`
+  subscription WatchOpenIssues {
+    downtime_records(where: { ended_at: { _is_null: true }, order_id: { _is_null: false } }) {
       id
-      status
-      updated_at
+      order_id
+      started_at
+      reason {
+        code
+        label
+      }
+      resource {
+        id
+        name
+      }
+    }
+  }
+`;
+
+// Runs merge_production_orders (init.sql) in one transaction
+const MERGE_PRODUCTION_ORDERS = gql`
+  mutation MergeProductionOrders($order_ids: _uuid!) {
+    merge_production_orders(args: { order_ids: $order_ids }) {
+      id
+      order_number
+      quantity
+      priority
+      scheduled_start
+      scheduled_end
     }
   }
 `;
@@ -59,24 +134,173 @@ interface OrdersListProps {
   selectedOrderId: string | null;
 }
 
-type OrderStatus = 'pending' | 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
-
 const OrdersList = ({ onSelectOrder, selectedOrderId }: OrdersListProps) => {
-  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
-  
-  // Use subscription for real-time updates
-  const { data: subData } = useSubscription(WATCH_PRODUCTION_ORDERS);
-  const { data: queryData, loading } = useQuery(GET_PRODUCTION_ORDERS);
-  
-  const [updateStatus] = useMutation(UPDATE_ORDER_STATUS);
-
-  // Use subscription data if available, otherwise use query data
-  const orders = subData?.production_orders || queryData?.production_orders || [];
-
-  const filteredOrders = useMemo(() => {
-    if (statusFilter === 'all') return orders;
-    return orders.filter((order: any) => order.status === statusFilter);
-  }, [orders, statusFilter]);
+  const [filters, setFilters] = useState<OrderFilters>(() => parseOrderFilters(window.location.search));
+  const [searchText, setSearchText] = useState(filters.search);
+  // Cursors of the pages before this one; the last is where this page starts
+  const [cursors, setCursors] = useState<OrderCursor[]>([]);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [mergeSelection, setMergeSelection] = useState<any[]>([]);
+  const [showMergeConfirm, setShowMergeConfirm] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const { canPlan } = useAuth();
+  // Read by the debounced search, which should not restart when other filters change
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
+  const filterWhere = useMemo(() => orderFiltersWhere(filters), [filters]);
+  const cursor = cursors[cursors.length - 1];
+  const variables = useMemo(
+    () => ({
+      where: cursor ? { _and: [filterWhere, afterCursorWhere(filters, cursor)] } : filterWhere,
+      order_by: orderFiltersOrderBy(filters),
+      limit: ORDERS_PAGE_SIZE + 1,
+    }),
+    [filters, filterWhere, cursor]
+  );
+
+  const { data: pageData, previousData, loading, subscribeToMore } = useQuery(GET_PRODUCTION_ORDERS, { variables });
+  // Keep showing the last page while the next one loads
+  const data = pageData ?? previousData;
+  const { data: countData } = useSubscription(WATCH_ORDER_COUNT, { variables: { where: filterWhere } });
+  const [mergeOrders, { loading: mergeBusy }] = useMutation(MERGE_PRODUCTION_ORDERS);
+  const { data: issuesData } = useSubscription(WATCH_OPEN_ISSUES);
+
+  // Stream subscription results for the same page into the query cache so
+  // optimistic edits and deletes show up in the same list. The page is
+  // anchored on its cursor, so rows changing elsewhere don't shift it.
+  useEffect(() => {
+    return subscribeToMore({
+      document: WATCH_PRODUCTION_ORDERS,
+      variables,
+      updateQuery: (prev, { subscriptionData }) => {
+        if (!subscriptionData.data) return prev;
+        return { ...prev, production_orders: subscriptionData.data.production_orders };
+      },
+    });
+  }, [subscribeToMore, variables]);
+
+  // Debounce the search box so each keystroke isn't a new query
+  useEffect(() => {
+    if (searchText === filtersRef.current.search) return;
+    const timer = setTimeout(() => {
+      setFilters((prev) => ({ ...prev, search: searchText }));
+      setCursors([]);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // Back and Forward restore the filters of that history entry. Moving
+  // between orders keeps the query string, so the page stays put then.
+  useEffect(
+    () =>
+      subscribeRoute(() => {
+        const next = parseOrderFilters(window.location.search);
+        if (formatOrderFilters(next) === formatOrderFilters(filtersRef.current)) return;
+        setFilters(next);
+        setSearchText(next.search);
+        setCursors([]);
+      }),
+    []
+  );
+
+  // Keep the filters in the URL so a filtered view can be shared
+  useEffect(() => {
+    const query = formatOrderFilters(filters, window.location.search);
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [filters]);
+
+  useEffect(
+    () => () => {
+      const params = new URLSearchParams(window.location.search);
+      ORDER_FILTER_PARAMS.forEach((param) => params.delete(param));
+      const query = params.toString();
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    },
+    []
+  );
+
+  const updateFilters = (changes: Partial<OrderFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setCursors([]);
+  };
+
+  const sortBy = (column: OrderSortColumn) =>
+    updateFilters(
+      filters.sort === column
+        ? { dir: filters.dir === 'asc' ? 'desc' : 'asc' }
+        : { sort: column, dir: column === 'priority' ? 'desc' : 'asc' }
+    );
+
+  const clearFilters = () => {
+    setSearchText('');
+    updateFilters({ ...DEFAULT_ORDER_FILTERS, sort: filters.sort, dir: filters.dir });
+  };
+
+  const fetched = data?.production_orders || [];
+  const orders = fetched.slice(0, ORDERS_PAGE_SIZE);
+  const hasNextPage = fetched.length > ORDERS_PAGE_SIZE;
+  const totalCount = countData?.production_orders_aggregate.aggregate.count;
+  const firstRow = cursors.length * ORDERS_PAGE_SIZE + 1;
+  const filtered =
+    filters.search.trim() !== '' ||
+    filters.status !== 'all' ||
+    filters.priority !== null ||
+    filters.from !== '' ||
+    filters.to !== '';
+
+  const nextPage = () => setCursors((prev) => [...prev, orderCursor(filters, orders[orders.length - 1])]);
+  const previousPage = () => setCursors((prev) => prev.slice(0, -1));
+
+  const openIssuesByOrder = useMemo(() => {
+    const grouped: Record<string, any[]> = {};
+    (issuesData?.downtime_records || []).forEach((record: any) => {
+      if (!grouped[record.order_id]) {
+        grouped[record.order_id] = [];
+      }
+      grouped[record.order_id].push(record);
+    });
+    return grouped;
+  }, [issuesData]);
+
+  // Picks are kept as rows so a merge can span pages
+  const mergeIds = mergeSelection.map((order: any) => order.id);
+  const mergeValidation = mergeIssue(mergeSelection);
+  const mergeTarget = mergeSelection.length >= 2 ? mergeSurvivor(mergeSelection) : null;
+
+  const toggleMergeOrder = (order: any) =>
+    setMergeSelection((prev) =>
+      prev.some((picked) => picked.id === order.id) ? prev.filter((picked) => picked.id !== order.id) : [...prev, order]
+    );
+
+  const exitMerge = () => {
+    setMerging(false);
+    setMergeSelection([]);
+    setShowMergeConfirm(false);
+    setMergeError(null);
+  };
+
+  const handleMerge = async () => {
+    setMergeError(null);
+    try {
+      const { data: result } = await mergeOrders({ variables: { order_ids: toPostgresArray(mergeIds) } });
+      exitMerge();
+      const [survivor] = result?.merge_production_orders || [];
+      if (survivor) onSelectOrder(survivor.id);
+    } catch (error: any) {
+      console.error('Error merging orders:', error);
+      const conflicts = parseConflictError(error?.message);
+      setMergeError(
+        conflicts
+          ? conflicts.join('; ')
+          : parseLineageError(error?.message) ||
+              parseDependencyError(error?.message) ||
+              error?.message ||
+              'Failed to merge orders'
+      );
+    }
+  };
 
   const getStatusColor = (status: string) => {
     const colors = {
@@ -95,25 +319,10 @@ const OrdersList = ({ onSelectOrder, selectedOrderId }: OrdersListProps) => {
     return 'bg-blue-500';
   };
 
-  const handleStatusChange = async (orderId: string, newStatus: OrderStatus) => {
-    try {
-      await updateStatus({
-        variables: { id: orderId, status: newStatus },
-        optimisticResponse: {
-          update_production_orders_by_pk: {
-            __typename: 'production_orders',
-            id: orderId,
-            status: newStatus,
-            updated_at: new Date().toISOString(),
-          },
-        },
-      });
-    } catch (error) {
-      console.error('Error updating status:', error);
-    }
-  };
+  const inputClass =
+    'px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
 
-  if (loading && !subData) {
+  if (loading && !data) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
         <div className="flex items-center justify-center">
@@ -129,14 +338,68 @@ const OrdersList = ({ onSelectOrder, selectedOrderId }: OrdersListProps) => {
       <div className="px-6 py-4 border-b border-gray-200">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900">
-            Production Orders ({filteredOrders.length})
+            Production Orders{totalCount !== undefined && ` (${totalCount})`}
           </h2>
           
-          {/* Status Filter */}
+          <div className="flex items-center space-x-2">
+            {canPlan &&
+              (merging ? (
+                <>
+                  <button
+                    onClick={exitMerge}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => setShowMergeConfirm(true)}
+                    disabled={Boolean(mergeValidation)}
+                    title={mergeValidation || undefined}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Merge selected ({mergeIds.length})
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setMerging(true)}
+                  className="px-3 py-1.5 text-sm font-medium text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                >
+                  Merge
+                </button>
+              ))}
+
+            {canPlan && !merging && (
+              <button
+                onClick={() => setShowCreateForm(true)}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors"
+              >
+                + New Order
+              </button>
+            )}
+          </div>
+        </div>
+        {merging && (
+          <p className={`mt-2 text-xs ${mergeIds.length >= 2 && mergeValidation ? 'text-red-600' : 'text-gray-500'}`}>
+            {mergeIds.length >= 2 && mergeValidation
+              ? mergeValidation
+              : 'Tick the pending orders for the same product to combine into one'}
+          </p>
+        )}
+
+        {/* Filters */}
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            type="search"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search order or product"
+            className={`${inputClass} w-56`}
+          />
           <select
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as OrderStatus | 'all')}
-            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            value={filters.status}
+            onChange={(e) => updateFilters({ status: e.target.value as OrderStatus | 'all' })}
+            className={inputClass}
           >
             <option value="all">All Status</option>
             <option value="pending">Pending</option>
@@ -145,20 +408,73 @@ const OrdersList = ({ onSelectOrder, selectedOrderId }: OrdersListProps) => {
             <option value="completed">Completed</option>
             <option value="cancelled">Cancelled</option>
           </select>
+          <select
+            value={filters.priority ?? ''}
+            onChange={(e) => updateFilters({ priority: e.target.value ? Number(e.target.value) : null })}
+            className={inputClass}
+          >
+            <option value="">All Priorities</option>
+            {[5, 4, 3, 2, 1].map((priority) => (
+              <option key={priority} value={priority}>
+                Priority {priority}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-1 text-sm text-gray-600">
+            <span>Start</span>
+            <input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className={inputClass}
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          {filtered && (
+            <button
+              onClick={clearFilters}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Clear
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Sort */}
+      <div className="px-6 py-2 border-b border-gray-200 bg-gray-50 flex items-center space-x-4 text-xs">
+        <span className="text-gray-500">Sort by</span>
+        {ORDER_SORT_COLUMNS.map(({ column, label }) => (
+          <button
+            key={column}
+            onClick={() => sortBy(column)}
+            className={`font-medium ${filters.sort === column ? 'text-primary-600' : 'text-gray-600 hover:text-gray-900'}`}
+          >
+            {label}
+            {filters.sort === column && (filters.dir === 'asc' ? ' ▲' : ' ▼')}
+          </button>
+        ))}
+      </div>
+
       {/* Orders List */}
       <div className="divide-y divide-gray-200">
-        {filteredOrders.length === 0 ? (
+        {orders.length === 0 ? (
           <div className="px-6 py-12 text-center text-gray-500">
             No orders found
           </div>
         ) : (
-          filteredOrders.map((order: any) => (
+          orders.map((order: any) => (
             <div
               key={order.id}
-              onClick={() => onSelectOrder(order.id)}
+              onClick={() => (merging ? order.status === 'pending' && toggleMergeOrder(order) : onSelectOrder(order.id))}
               className={`
                 px-6 py-4 hover:bg-gray-50 cursor-pointer transition-colors
                 ${selectedOrderId === order.id ? 'bg-blue-50 border-l-4 border-primary-500' : ''}
@@ -167,6 +483,17 @@ const OrdersList = ({ onSelectOrder, selectedOrderId }: OrdersListProps) => {
               <div className="flex items-start justify-between">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center space-x-3 mb-2">
+                    {merging && (
+                      <input
+                        type="checkbox"
+                        checked={mergeIds.includes(order.id)}
+                        disabled={order.status !== 'pending'}
+                        onChange={() => toggleMergeOrder(order)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                      />
+                    )}
+
                     {/* Priority Badge */}
                     <div className={`w-2 h-2 rounded-full ${getPriorityBadge(order.priority)}`} />
                     
@@ -181,6 +508,18 @@ const OrdersList = ({ onSelectOrder, selectedOrderId }: OrdersListProps) => {
                     `}>
                       {order.status.replace('_', ' ')}
                     </span>
+
+                    {openIssuesByOrder[order.id] && (
+                      <span
+                        title={openIssuesByOrder[order.id]
+                          .map((issue: any) => `${issue.reason.label} on ${issue.resource.name}`)
+                          .join('\n')}
+                        className="px-2 py-1 text-xs font-medium rounded-full border bg-red-50 text-red-700 border-red-200"
+                      >
+                        ⚠ {openIssuesByOrder[order.id].length} open issue
+                        {openIssuesByOrder[order.id].length > 1 ? 's' : ''}
+                      </span>
+                    )}
                   </div>
 
                   <p className="text-sm text-gray-700 mb-2">
@@ -196,49 +535,82 @@ const OrdersList = ({ onSelectOrder, selectedOrderId }: OrdersListProps) => {
                       </span>
                     )}
                   </div>
+
+                  {(order.status === 'in_progress' || order.good_quantity + order.scrap_quantity > 0) && (
+                    <div className="mt-2 max-w-xs">
+                      <ProgressBar good={order.good_quantity} scrap={order.scrap_quantity} quantity={order.quantity} />
+                    </div>
+                  )}
                 </div>
 
                 {/* Quick Status Actions */}
-                <div className="ml-4 flex flex-col space-y-1">
-                  {order.status === 'pending' && (
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleStatusChange(order.id, 'scheduled');
-                      }}
-                      className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded"
-                    >
-                      Schedule
-                    </button>
-                  )}
-                  {order.status === 'scheduled' && (
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleStatusChange(order.id, 'in_progress');
-                      }}
-                      className="px-2 py-1 text-xs font-medium text-yellow-600 hover:bg-yellow-50 rounded"
-                    >
-                      Start
-                    </button>
-                  )}
-                  {order.status === 'in_progress' && (
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleStatusChange(order.id, 'completed');
-                      }}
-                      className="px-2 py-1 text-xs font-medium text-green-600 hover:bg-green-50 rounded"
-                    >
-                      Complete
-                    </button>
-                  )}
+                <div className="ml-4">
+                  <OrderStatusActions order={order} />
                 </div>
               </div>
             </div>
           ))
         )}
       </div>
+
+      {/* Pagination */}
+      {(cursors.length > 0 || hasNextPage) && (
+        <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+          <span className="text-gray-500">
+            {orders.length > 0 &&
+              `${firstRow}–${firstRow + orders.length - 1}${totalCount !== undefined ? ` of ${totalCount}` : ''}`}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={previousPage}
+              disabled={cursors.length === 0}
+              className="px-3 py-1.5 font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              ← Previous
+            </button>
+            <button
+              onClick={nextPage}
+              disabled={!hasNextPage}
+              className="px-3 py-1.5 font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showCreateForm && (
+        <OrderFormModal
+          onClose={() => setShowCreateForm(false)}
+          onSaved={onSelectOrder}
+        />
+      )}
+
+      {showMergeConfirm && mergeTarget && (
+        <ConfirmDialog
+          title={`Merge ${mergeSelection.length} orders?`}
+          message={
+            <>
+              {mergeSelection
+                .filter((order: any) => order.id !== mergeTarget.id)
+                .map((order: any) => order.order_number)
+                .join(', ')}{' '}
+              will be merged into {mergeTarget.order_number} for{' '}
+              {mergeSelection.reduce((sum: number, order: any) => sum + order.quantity, 0)} ×{' '}
+              {mergeSelection[0].product_name}. Their allocations and dependencies move across and they are
+              cancelled.
+              {mergeError && <p className="mt-2 text-red-600">{mergeError}</p>}
+            </>
+          }
+          confirmLabel="Merge Orders"
+          busy={mergeBusy}
+          onConfirm={handleMerge}
+          onCancel={() => {
+            setShowMergeConfirm(false);
+            setMergeError(null);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,402 @@
+import { useQuery, useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+
+const GET_ROUTING_RESOURCES = gql`
+  query GetRoutingResources {
+    resources(where: { decommissioned_at: { _is_null: true } }, order_by: { name: asc }) {
+      id
+      name
+      type
+    }
+  }
+`;
+
+const CREATE_PRODUCT = gql`
+  mutation CreateProduct($object: products_insert_input!) {
+    insert_products_one(object: $object) {
+      id
+    }
+  }
+`;
+
+// Hasura runs the root fields in order within one transaction, so the lines
+// are replaced atomically
+const UPDATE_PRODUCT = gql`
+  mutation UpdateProduct(
+    $id: uuid!
+    $name: String!
+    $description: String
+    $materials: [product_materials_insert_input!]!
+    $operations: [product_operations_insert_input!]!
+  ) {
+    update_products_by_pk(pk_columns: { id: $id }, _set: { name: $name, description: $description }) {
+      id
+      name
+      description
+    }
+    delete_product_materials(where: { product_id: { _eq: $id } }) {
+      affected_rows
+    }
+    delete_product_operations(where: { product_id: { _eq: $id } }) {
+      affected_rows
+    }
+    insert_product_materials(objects: $materials) {
+      affected_rows
+    }
+    insert_product_operations(objects: $operations) {
+      affected_rows
+    }
+  }
+`;
+
+interface MaterialLine {
+  resource_id: string;
+  quantity_per_unit: string;
+}
+
+interface OperationLine {
+  name: string;
+  resource_type: 'machine' | 'worker';
+  resource_id: string;
+  setup_minutes: string;
+  run_minutes_per_unit: string;
+}
+
+interface ProductFormModalProps {
+  product?: any;
+  onClose: () => void;
+}
+
+const ProductFormModal = ({ product, onClose }: ProductFormModalProps) => {
+  const isEdit = Boolean(product);
+  const [name, setName] = useState(product?.name || '');
+  const [description, setDescription] = useState(product?.description || '');
+  const [materials, setMaterials] = useState<MaterialLine[]>(() =>
+    (product?.bill_of_materials || []).map((line: any) => ({
+      resource_id: line.resource.id,
+      quantity_per_unit: String(Number(line.quantity_per_unit)),
+    }))
+  );
+  const [operations, setOperations] = useState<OperationLine[]>(() =>
+    (product?.routing || []).map((operation: any) => ({
+      name: operation.name,
+      resource_type: operation.resource_type,
+      resource_id: operation.resource?.id || '',
+      setup_minutes: String(Number(operation.setup_minutes)),
+      run_minutes_per_unit: String(Number(operation.run_minutes_per_unit)),
+    }))
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: resourcesData } = useQuery(GET_ROUTING_RESOURCES);
+  const [createProduct, { loading: creating }] = useMutation(CREATE_PRODUCT);
+  const [updateProduct, { loading: updating }] = useMutation(UPDATE_PRODUCT);
+  const saving = creating || updating;
+
+  const resources = resourcesData?.resources || [];
+  const resourcesOfType = (type: string) => resources.filter((resource: any) => resource.type === type);
+
+  const updateMaterial = (index: number, changes: Partial<MaterialLine>) =>
+    setMaterials((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const updateOperation = (index: number, changes: Partial<OperationLine>) =>
+    setOperations((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const moveOperation = (index: number, offset: number) =>
+    setOperations((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const validate = () => {
+    if (!name.trim()) return 'Product name is required';
+    if (materials.some((line) => !line.resource_id || !(Number(line.quantity_per_unit) > 0))) {
+      return 'Every material needs a resource and a quantity per unit greater than 0';
+    }
+    const materialIds = materials.map((line) => line.resource_id);
+    if (new Set(materialIds).size !== materialIds.length) {
+      return 'Each material can only be listed once';
+    }
+    if (
+      operations.some(
+        (line) =>
+          !line.name.trim() || Number(line.setup_minutes) < 0 || !(Number(line.run_minutes_per_unit) >= 0)
+      )
+    ) {
+      return 'Every operation needs a name and non-negative times';
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validate();
+    setError(validationError);
+    if (validationError) return;
+
+    const materialRows = materials.map((line) => ({
+      resource_id: line.resource_id,
+      quantity_per_unit: Number(line.quantity_per_unit),
+    }));
+    // Sequence in steps of 10, leaving room to insert operations in SQL later
+    const operationRows = operations.map((line, index) => ({
+      sequence: (index + 1) * 10,
+      name: line.name.trim(),
+      resource_type: line.resource_type,
+      resource_id: line.resource_id || null,
+      setup_minutes: Number(line.setup_minutes || 0),
+      run_minutes_per_unit: Number(line.run_minutes_per_unit),
+    }));
+
+    try {
+      if (isEdit) {
+        await updateProduct({
+          variables: {
+            id: product.id,
+            name: name.trim(),
+            description: description.trim() || null,
+            materials: materialRows.map((row) => ({ ...row, product_id: product.id })),
+            operations: operationRows.map((row) => ({ ...row, product_id: product.id })),
+          },
+        });
+      } else {
+        await createProduct({
+          variables: {
+            object: {
+              name: name.trim(),
+              description: description.trim() || null,
+              bill_of_materials: { data: materialRows },
+              routing: { data: operationRows },
+            },
+          },
+        });
+      }
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving product:', error);
+      if (error?.message?.includes('products_name_key')) {
+        setError(`A product named ${name.trim()} already exists`);
+      } else {
+        setError(error?.message || 'Failed to save product');
+      }
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-3xl max-h-full flex flex-col"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">{isEdit ? `Edit ${product.name}` : 'New Product'}</h3>
+        </div>
+
+        <div className="px-6 py-4 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          {/* Bill of Materials */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold text-gray-900">Bill of Materials</h4>
+              <button
+                type="button"
+                onClick={() => setMaterials((prev) => [...prev, { resource_id: '', quantity_per_unit: '' }])}
+                className="text-sm font-medium text-primary-600 hover:text-primary-700"
+              >
+                + Add material
+              </button>
+            </div>
+            {materials.length === 0 ? (
+              <p className="text-sm text-gray-500">No materials</p>
+            ) : (
+              <div className="space-y-2">
+                {materials.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={line.resource_id}
+                      onChange={(e) => updateMaterial(index, { resource_id: e.target.value })}
+                      className={`${inputClass} col-span-7`}
+                    >
+                      <option value="">Select material</option>
+                      {resourcesOfType('material').map((resource: any) => (
+                        <option key={resource.id} value={resource.id}>
+                          {resource.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.0001"
+                      value={line.quantity_per_unit}
+                      onChange={(e) => updateMaterial(index, { quantity_per_unit: e.target.value })}
+                      placeholder="Qty per unit"
+                      className={`${inputClass} col-span-4`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setMaterials((prev) => prev.filter((_, i) => i !== index))}
+                      className="col-span-1 text-sm text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Routing */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-semibold text-gray-900">Routing</h4>
+              <button
+                type="button"
+                onClick={() =>
+                  setOperations((prev) => [
+                    ...prev,
+                    { name: '', resource_type: 'machine', resource_id: '', setup_minutes: '0', run_minutes_per_unit: '' },
+                  ])
+                }
+                className="text-sm font-medium text-primary-600 hover:text-primary-700"
+              >
+                + Add operation
+              </button>
+            </div>
+            {operations.length === 0 ? (
+              <p className="text-sm text-gray-500">No operations</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs text-gray-500">
+                  <span className="col-span-3">Operation</span>
+                  <span className="col-span-2">Type</span>
+                  <span className="col-span-3">Preferred resource</span>
+                  <span className="col-span-1">Setup (min)</span>
+                  <span className="col-span-1">Min / unit</span>
+                </div>
+                {operations.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      value={line.name}
+                      onChange={(e) => updateOperation(index, { name: e.target.value })}
+                      placeholder={`Step ${index + 1}`}
+                      className={`${inputClass} col-span-3`}
+                    />
+                    <select
+                      value={line.resource_type}
+                      onChange={(e) =>
+                        updateOperation(index, {
+                          resource_type: e.target.value as 'machine' | 'worker',
+                          resource_id: '',
+                        })
+                      }
+                      className={`${inputClass} col-span-2`}
+                    >
+                      <option value="machine">Machine</option>
+                      <option value="worker">Worker</option>
+                    </select>
+                    <select
+                      value={line.resource_id}
+                      onChange={(e) => updateOperation(index, { resource_id: e.target.value })}
+                      className={`${inputClass} col-span-3`}
+                    >
+                      <option value="">Any {line.resource_type}</option>
+                      {resourcesOfType(line.resource_type).map((resource: any) => (
+                        <option key={resource.id} value={resource.id}>
+                          {resource.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={line.setup_minutes}
+                      onChange={(e) => updateOperation(index, { setup_minutes: e.target.value })}
+                      className={`${inputClass} col-span-1`}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={line.run_minutes_per_unit}
+                      onChange={(e) => updateOperation(index, { run_minutes_per_unit: e.target.value })}
+                      className={`${inputClass} col-span-1`}
+                    />
+                    <div className="col-span-2 flex items-center justify-end space-x-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => moveOperation(index, -1)}
+                        disabled={index === 0}
+                        className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveOperation(index, 1)}
+                        disabled={index === operations.length - 1}
+                        className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setOperations((prev) => prev.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : isEdit ? 'Save Changes' : 'Create Product'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProductFormModal;
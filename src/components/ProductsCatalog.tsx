@@ -0,0 +1,212 @@
+import { useSubscription, useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import useAuth from '../hooks/useAuth';
+import ConfirmDialog from './ConfirmDialog';
+import ProductFormModal from './ProductFormModal';
+import { formatMinutes, operationMinutes } from '../utils/routing';
+
+const WATCH_PRODUCTS = gql`
+  subscription WatchProducts {
+    products(order_by: { name: asc }) {
+      id
+      name
+      description
+      bill_of_materials(order_by: { resource: { name: asc } }) {
+        id
+        quantity_per_unit
+        resource {
+          id
+          name
+        }
+      }
+      routing(order_by: { sequence: asc }) {
+        id
+        sequence
+        name
+        resource_type
+        setup_minutes
+        run_minutes_per_unit
+        resource {
+          id
+          name
+        }
+      }
+      production_orders_aggregate {
+        aggregate {
+          count
+        }
+      }
+    }
+  }
+`;
+
+const DELETE_PRODUCT = gql`
+  mutation DeleteProduct($id: uuid!) {
+    delete_products_by_pk(id: $id) {
+      id
+    }
+  }
+`;
+
+const ProductsCatalog = () => {
+  const [editingProduct, setEditingProduct] = useState<any | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [deletingProduct, setDeletingProduct] = useState<any | null>(null);
+
+  const { data, loading } = useSubscription(WATCH_PRODUCTS);
+  const [deleteProduct, { loading: deleting }] = useMutation(DELETE_PRODUCT);
+  const { canPlan } = useAuth();
+
+  const products = data?.products || [];
+
+  const handleDelete = async () => {
+    if (!deletingProduct) return;
+    try {
+      await deleteProduct({ variables: { id: deletingProduct.id } });
+      setDeletingProduct(null);
+    } catch (error) {
+      console.error('Error deleting product:', error);
+    }
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+        <div className="flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Products ({products.length})</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Orders created for a product get their routing and materials allocated automatically
+          </p>
+        </div>
+        {canPlan && (
+          <button
+            onClick={() => setCreating(true)}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors"
+          >
+            New Product
+          </button>
+        )}
+      </div>
+
+      {products.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">No products found</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {products.map((product: any) => (
+            <div key={product.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h4 className="font-semibold text-gray-900">{product.name}</h4>
+                  {product.description && <p className="text-xs text-gray-600 mt-1">{product.description}</p>}
+                </div>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {product.production_orders_aggregate.aggregate.count} order(s)
+                </span>
+              </div>
+
+              <div className="space-y-3 text-sm">
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">Bill of materials (per unit)</p>
+                  {product.bill_of_materials.length === 0 ? (
+                    <p className="text-xs text-gray-400">None</p>
+                  ) : (
+                    product.bill_of_materials.map((line: any) => (
+                      <div key={line.id} className="flex justify-between">
+                        <span className="text-gray-700">{line.resource.name}</span>
+                        <span className="font-medium text-gray-900">{Number(line.quantity_per_unit)}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">Routing</p>
+                  {product.routing.length === 0 ? (
+                    <p className="text-xs text-gray-400">None</p>
+                  ) : (
+                    <ol className="space-y-1">
+                      {product.routing.map((operation: any) => (
+                        <li key={operation.id} className="flex justify-between">
+                          <span className="text-gray-700">
+                            {operation.sequence}. {operation.name}
+                            <span className="text-xs text-gray-500">
+                              {' '}
+                              • {operation.resource?.name || `any ${operation.resource_type}`}
+                            </span>
+                          </span>
+                          <span className="text-xs text-gray-600">
+                            {formatMinutes(Number(operation.setup_minutes))} +{' '}
+                            {Number(operation.run_minutes_per_unit)}m/unit
+                            <span className="text-gray-400"> ({formatMinutes(operationMinutes(operation, 100))} per 100)</span>
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              </div>
+
+              {canPlan && (
+                <div className="mt-3 flex items-center space-x-4">
+                  <button
+                    onClick={() => setEditingProduct(product)}
+                    className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setDeletingProduct(product)}
+                    className="text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(creating || editingProduct) && (
+        <ProductFormModal
+          product={editingProduct || undefined}
+          onClose={() => {
+            setCreating(false);
+            setEditingProduct(null);
+          }}
+        />
+      )}
+
+      {deletingProduct && (
+        <ConfirmDialog
+          title={`Delete ${deletingProduct.name}?`}
+          message={
+            <>
+              This removes the product with its bill of materials and routing. Its{' '}
+              {deletingProduct.production_orders_aggregate.aggregate.count} order(s) keep their product name and
+              allocations.
+            </>
+          }
+          confirmLabel="Delete Product"
+          busy={deleting}
+          onConfirm={handleDelete}
+          onCancel={() => setDeletingProduct(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProductsCatalog;
@@ -0,0 +1,31 @@
+import { progressPercent } from '../utils/progress';
+
+interface ProgressBarProps {
+  good: number;
+  scrap: number;
+  quantity: number;
+  showLabel?: boolean;
+}
+
+// Good output in green against the order quantity, scrap in red after it
+const ProgressBar = ({ good, scrap, quantity, showLabel = true }: ProgressBarProps) => {
+  const goodPercent = progressPercent(good, quantity);
+  const scrapPercent = Math.min(100 - goodPercent, progressPercent(scrap, quantity));
+
+  return (
+    <div>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-gray-200">
+        <div className="bg-green-500" style={{ width: `${goodPercent}%` }} />
+        <div className="bg-red-400" style={{ width: `${scrapPercent}%` }} />
+      </div>
+      {showLabel && (
+        <p className="mt-1 text-xs text-gray-500">
+          {good}/{quantity} good ({goodPercent.toFixed(0)}%)
+          {scrap > 0 && <span className="text-red-600"> • {scrap} scrap</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProgressBar;
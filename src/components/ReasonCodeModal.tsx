@@ -0,0 +1,110 @@
+import { useQuery, gql } from '@apollo/client';
+import { useState } from 'react';
+import { ReasonCategory } from '../utils/shopFloor';
+
+const GET_REASON_CODES = gql`
+  query GetReasonCodes($category: String!) {
+    reason_codes(where: { category: { _eq: $category }, active: { _eq: true } }, order_by: { label: asc }) {
+      code
+      label
+    }
+  }
+`;
+
+interface ReasonCodeModalProps {
+  title: string;
+  category: ReasonCategory;
+  confirmLabel: string;
+  busy?: boolean;
+  error?: string | null;
+  // Shows a "takes the machine down" toggle when set
+  takeDownLabel?: string;
+  onConfirm: (reasonCode: string, note: string, takeDown: boolean) => void;
+  onCancel: () => void;
+}
+
+// Large, touch-friendly reason picker for the operator view
+const ReasonCodeModal = ({
+  title,
+  category,
+  confirmLabel,
+  busy = false,
+  error,
+  takeDownLabel,
+  onConfirm,
+  onCancel,
+}: ReasonCodeModalProps) => {
+  const [reasonCode, setReasonCode] = useState('');
+  const [note, setNote] = useState('');
+  const [takeDown, setTakeDown] = useState(false);
+  const { data, loading } = useQuery(GET_REASON_CODES, { variables: { category } });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-xl font-semibold text-gray-900">{title}</h3>
+        </div>
+        <div className="px-6 py-4 space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading reasons…</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {(data?.reason_codes || []).map((reason: any) => (
+                <button
+                  key={reason.code}
+                  type="button"
+                  onClick={() => setReasonCode(reason.code)}
+                  className={`px-4 py-4 text-base font-medium rounded-lg border-2 transition-colors ${
+                    reasonCode === reason.code
+                      ? 'border-primary-500 bg-primary-50 text-primary-700'
+                      : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {reason.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          {takeDownLabel && (
+            <label className="flex items-center space-x-3 text-base text-gray-700">
+              <input
+                type="checkbox"
+                checked={takeDown}
+                onChange={(e) => setTakeDown(e.target.checked)}
+                className="h-6 w-6 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>{takeDownLabel}</span>
+            </label>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <div className="px-6 py-4 border-t border-gray-200 grid grid-cols-2 gap-3">
+          <button
+            onClick={onCancel}
+            disabled={busy}
+            className="px-4 py-4 text-base font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(reasonCode, note.trim(), takeDown)}
+            disabled={busy || !reasonCode}
+            className="px-4 py-4 text-base font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {busy ? 'Saving…' : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReasonCodeModal;
@@ -0,0 +1,232 @@
+import { useSubscription, useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import { ReasonCategory } from '../utils/shopFloor';
+
+const WATCH_REASON_CODES = gql`
+  subscription WatchReasonCodes {
+    reason_codes(order_by: [{ category: asc }, { label: asc }]) {
+      code
+      category
+      label
+      active
+    }
+  }
+`;
+
+const ADD_REASON_CODE = gql`
+  mutation AddReasonCode($code: String!, $category: String!, $label: String!) {
+    insert_reason_codes_one(object: { code: $code, category: $category, label: $label }) {
+      code
+      category
+      label
+      active
+    }
+  }
+`;
+
+const UPDATE_REASON_CODE = gql`
+  mutation UpdateReasonCode($code: String!, $label: String!, $active: Boolean!) {
+    update_reason_codes_by_pk(pk_columns: { code: $code }, _set: { label: $label, active: $active }) {
+      code
+      label
+      active
+    }
+  }
+`;
+
+const CATEGORY_LABELS: Record<ReasonCategory, string> = {
+  pause: 'Pause reasons',
+  issue: 'Issue and downtime reasons',
+};
+
+// "Waiting for tooling" -> "waiting_for_tooling"
+const toCode = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50);
+
+interface ReasonCodesModalProps {
+  onClose: () => void;
+}
+
+const ReasonCodesModal = ({ onClose }: ReasonCodesModalProps) => {
+  const [category, setCategory] = useState<ReasonCategory>('issue');
+  const [label, setLabel] = useState('');
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useSubscription(WATCH_REASON_CODES);
+  const [addReasonCode, { loading: adding }] = useMutation(ADD_REASON_CODE);
+  const [updateReasonCode] = useMutation(UPDATE_REASON_CODE);
+
+  const reasons = data?.reason_codes || [];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const code = toCode(label);
+    if (!code) {
+      setError('Enter a label');
+      return;
+    }
+    if (reasons.some((reason: any) => reason.code === code)) {
+      setError(`There is already a reason "${code}"`);
+      return;
+    }
+    try {
+      await addReasonCode({ variables: { code, category, label: label.trim() } });
+      setLabel('');
+    } catch (error: any) {
+      console.error('Error adding reason code:', error);
+      setError(error?.message || 'Failed to add reason');
+    }
+  };
+
+  const handleUpdate = async (reason: any, changes: { label?: string; active?: boolean }) => {
+    setError(null);
+    const next = { label: changes.label ?? reason.label, active: changes.active ?? reason.active };
+    try {
+      await updateReasonCode({
+        variables: { code: reason.code, ...next },
+        optimisticResponse: {
+          update_reason_codes_by_pk: { __typename: 'reason_codes', code: reason.code, ...next },
+        },
+      });
+      setEditingCode(null);
+    } catch (error: any) {
+      console.error('Error updating reason code:', error);
+      setError(error?.message || 'Failed to update reason');
+    }
+  };
+
+  const inputClass =
+    'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Reason codes</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Retired reasons stay on past records but can no longer be picked
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6 overflow-y-auto">
+          {(Object.keys(CATEGORY_LABELS) as ReasonCategory[]).map((group) => (
+            <div key={group}>
+              <h4 className="font-semibold text-gray-900 mb-2">{CATEGORY_LABELS[group]}</h4>
+              <div className="space-y-1">
+                {reasons
+                  .filter((reason: any) => reason.category === group)
+                  .map((reason: any) => (
+                    <div
+                      key={reason.code}
+                      className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200"
+                    >
+                      {editingCode === reason.code ? (
+                        <input
+                          value={editingLabel}
+                          onChange={(e) => setEditingLabel(e.target.value)}
+                          autoFocus
+                          className={`${inputClass} mr-2`}
+                        />
+                      ) : (
+                        <div>
+                          <p className={`text-sm ${reason.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                            {reason.label}
+                          </p>
+                          <p className="text-xs text-gray-400">{reason.code}</p>
+                        </div>
+                      )}
+                      <div className="flex items-center space-x-3 whitespace-nowrap">
+                        {editingCode === reason.code ? (
+                          <>
+                            <button
+                              onClick={() => setEditingCode(null)}
+                              className="text-xs font-medium text-gray-600 hover:text-gray-700"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => editingLabel.trim() && handleUpdate(reason, { label: editingLabel.trim() })}
+                              className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                            >
+                              Save
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => {
+                                setEditingCode(reason.code);
+                                setEditingLabel(reason.label);
+                              }}
+                              className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                            >
+                              Rename
+                            </button>
+                            <button
+                              onClick={() => handleUpdate(reason, { active: !reason.active })}
+                              className={`text-xs font-medium ${
+                                reason.active ? 'text-red-600 hover:text-red-700' : 'text-green-600 hover:text-green-700'
+                              }`}
+                            >
+                              {reason.active ? 'Retire' : 'Restore'}
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+
+          <form onSubmit={handleAdd} className="p-3 border border-gray-200 rounded-lg space-y-2">
+            <p className="text-sm font-medium text-gray-700">Add a reason</p>
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as ReasonCategory)}
+                className={inputClass}
+              >
+                <option value="issue">Issue / downtime</option>
+                <option value="pause">Pause</option>
+              </select>
+              <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label, e.g. Hydraulic leak"
+                className={`${inputClass} col-span-2`}
+              />
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={adding}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg disabled:opacity-50"
+              >
+                {adding ? 'Adding…' : 'Add'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReasonCodesModal;
@@ -0,0 +1,418 @@
+import { useSubscription, useMutation, gql } from '@apollo/client';
+import { useMemo, useState } from 'react';
+import useAuth from '../hooks/useAuth';
+import {
+  DAY_LABELS,
+  formatWindowTime,
+  fromZonedDateTimeLocal,
+  timeZoneOptions,
+  toZonedDateTimeLocal,
+} from '../utils/availability';
+
+const WATCH_RESOURCE_CALENDAR = gql`
+  subscription WatchResourceCalendar($resource_id: uuid!, $now: timestamptz!) {
+    resources_by_pk(id: $resource_id) {
+      id
+      time_zone
+    }
+    resource_shifts(
+      where: { resource_id: { _eq: $resource_id } }
+      order_by: [{ day_of_week: asc }, { start_time: asc }]
+    ) {
+      id
+      day_of_week
+      start_time
+      end_time
+    }
+    resource_downtime_windows(
+      where: {
+        ends_at: { _gte: $now }
+        _or: [{ resource_id: { _eq: $resource_id } }, { resource_id: { _is_null: true } }]
+      }
+      order_by: { starts_at: asc }
+    ) {
+      id
+      resource_id
+      kind
+      starts_at
+      ends_at
+      reason
+    }
+  }
+`;
+
+const UPDATE_RESOURCE_TIME_ZONE = gql`
+  mutation UpdateResourceTimeZone($id: uuid!, $time_zone: String!) {
+    update_resources_by_pk(pk_columns: { id: $id }, _set: { time_zone: $time_zone }) {
+      id
+      time_zone
+    }
+  }
+`;
+
+const INSERT_RESOURCE_SHIFTS = gql`
+  mutation InsertResourceShifts($objects: [resource_shifts_insert_input!]!) {
+    insert_resource_shifts(objects: $objects) {
+      affected_rows
+    }
+  }
+`;
+
+const DELETE_RESOURCE_SHIFT = gql`
+  mutation DeleteResourceShift($id: uuid!) {
+    delete_resource_shifts_by_pk(id: $id) {
+      id
+    }
+  }
+`;
+
+const INSERT_DOWNTIME_WINDOW = gql`
+  mutation InsertDowntimeWindow($object: resource_downtime_windows_insert_input!) {
+    insert_resource_downtime_windows_one(object: $object) {
+      id
+    }
+  }
+`;
+
+const DELETE_DOWNTIME_WINDOW = gql`
+  mutation DeleteDowntimeWindow($id: uuid!) {
+    delete_resource_downtime_windows_by_pk(id: $id) {
+      id
+    }
+  }
+`;
+
+// Shortcuts for the shift day picker; values are EXTRACT(DOW) numbers
+const DAY_PRESETS: Record<string, number[]> = {
+  'Mon–Fri': [1, 2, 3, 4, 5],
+  'Every day': [0, 1, 2, 3, 4, 5, 6],
+  ...Object.fromEntries(DAY_LABELS.map((label, day) => [label, [day]])),
+};
+
+interface ResourceCalendarModalProps {
+  resource: { id: string; name: string; type: string };
+  onClose: () => void;
+}
+
+const ResourceCalendarModal = ({ resource, onClose }: ResourceCalendarModalProps) => {
+  const { canPlan } = useAuth();
+  const now = useMemo(() => new Date().toISOString(), []);
+  const { data, loading } = useSubscription(WATCH_RESOURCE_CALENDAR, {
+    variables: { resource_id: resource.id, now },
+  });
+
+  const [updateTimeZone] = useMutation(UPDATE_RESOURCE_TIME_ZONE);
+  const [insertShifts] = useMutation(INSERT_RESOURCE_SHIFTS);
+  const [deleteShift] = useMutation(DELETE_RESOURCE_SHIFT);
+  const [insertWindow] = useMutation(INSERT_DOWNTIME_WINDOW);
+  const [deleteWindow] = useMutation(DELETE_DOWNTIME_WINDOW);
+
+  const [shiftDays, setShiftDays] = useState('Mon–Fri');
+  const [shiftStart, setShiftStart] = useState('06:00');
+  const [shiftEnd, setShiftEnd] = useState('14:00');
+  const [windowKind, setWindowKind] = useState<'maintenance' | 'holiday'>('maintenance');
+  const [windowStart, setWindowStart] = useState('');
+  const [windowEnd, setWindowEnd] = useState('');
+  const [windowReason, setWindowReason] = useState('');
+  const [allResources, setAllResources] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shifts = data?.resource_shifts || [];
+  const windows = data?.resource_downtime_windows || [];
+  // Shifts are wall-clock times in this zone; windows are shown and entered in it too
+  const timeZone: string = data?.resources_by_pk?.time_zone || 'UTC';
+  const zones = useMemo(() => timeZoneOptions(), []);
+
+  const handleTimeZoneChange = async (value: string) => {
+    setError(null);
+    try {
+      await updateTimeZone({ variables: { id: resource.id, time_zone: value } });
+    } catch (error: any) {
+      console.error('Error changing time zone:', error);
+      setError(error?.message || 'Failed to change time zone');
+    }
+  };
+
+  const handleAddShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (shiftEnd <= shiftStart) {
+      setError('Shift end must be after its start; split overnight shifts in two');
+      return;
+    }
+    try {
+      await insertShifts({
+        variables: {
+          objects: DAY_PRESETS[shiftDays].map((day) => ({
+            resource_id: resource.id,
+            day_of_week: day,
+            start_time: shiftStart,
+            end_time: shiftEnd,
+          })),
+        },
+      });
+    } catch (error: any) {
+      console.error('Error adding shift:', error);
+      setError(error?.message || 'Failed to add shift');
+    }
+  };
+
+  const handleAddWindow = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!windowStart || !windowEnd) {
+      setError('Start and end are required');
+      return;
+    }
+    if (new Date(windowEnd) <= new Date(windowStart)) {
+      setError('End must be after start');
+      return;
+    }
+    try {
+      await insertWindow({
+        variables: {
+          object: {
+            resource_id: windowKind === 'holiday' && allResources ? null : resource.id,
+            kind: windowKind,
+            starts_at: fromZonedDateTimeLocal(windowStart, timeZone),
+            ends_at: fromZonedDateTimeLocal(windowEnd, timeZone),
+            reason: windowReason.trim() || null,
+          },
+        },
+      });
+      setWindowStart('');
+      setWindowEnd('');
+      setWindowReason('');
+    } catch (error: any) {
+      console.error('Error adding downtime window:', error);
+      setError(error?.message || 'Failed to add window');
+    }
+  };
+
+  const handleDelete = async (mutate: typeof deleteShift, id: string, label: string) => {
+    setError(null);
+    try {
+      await mutate({ variables: { id } });
+    } catch (error: any) {
+      console.error(`Error removing ${label}:`, error);
+      setError(error?.message || `Failed to remove ${label}`);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{resource.name} Calendar</h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Allocations outside these hours or inside a downtime window are rejected unless overridden
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {loading && !data ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ) : (
+            <>
+              {/* Time zone */}
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">Times below are local to the resource</p>
+                {canPlan ? (
+                  <select
+                    value={timeZone}
+                    onChange={(e) => handleTimeZoneChange(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    {!zones.includes(timeZone) && <option value={timeZone}>{timeZone}</option>}
+                    {zones.map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm font-medium text-gray-900">{timeZone}</span>
+                )}
+              </div>
+
+              {/* Shifts */}
+              <div>
+                <h5 className="font-semibold text-gray-900 mb-3">Working Shifts</h5>
+                {shifts.length === 0 ? (
+                  <p className="text-sm text-gray-500">No shifts defined; available around the clock</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {shifts.map((shift: any) => (
+                      <div
+                        key={shift.id}
+                        className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200 text-sm"
+                      >
+                        <span>
+                          <span className="font-medium text-gray-900">{DAY_LABELS[shift.day_of_week]}</span>{' '}
+                          <span className="text-gray-600">
+                            {shift.start_time.slice(0, 5)}–{shift.end_time.slice(0, 5)}
+                          </span>
+                        </span>
+                        {canPlan && (
+                          <button
+                            onClick={() => handleDelete(deleteShift, shift.id, 'shift')}
+                            className="text-xs font-medium text-red-600 hover:text-red-700"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {canPlan && (
+                  <form onSubmit={handleAddShift} className="mt-3 grid grid-cols-4 gap-2 items-end">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Days</label>
+                      <select value={shiftDays} onChange={(e) => setShiftDays(e.target.value)} className={inputClass}>
+                        {Object.keys(DAY_PRESETS).map((preset) => (
+                          <option key={preset} value={preset}>
+                            {preset}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                      <input type="time" value={shiftStart} onChange={(e) => setShiftStart(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                      <input type="time" value={shiftEnd} onChange={(e) => setShiftEnd(e.target.value)} className={inputClass} />
+                    </div>
+                    <button
+                      type="submit"
+                      className="px-3 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg"
+                    >
+                      Add Shift
+                    </button>
+                  </form>
+                )}
+              </div>
+
+              {/* Downtime windows */}
+              <div>
+                <h5 className="font-semibold text-gray-900 mb-3">Upcoming Maintenance & Holidays</h5>
+                {windows.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nothing planned</p>
+                ) : (
+                  <div className="space-y-2">
+                    {windows.map((downtime: any) => (
+                      <div key={downtime.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">
+                              {downtime.kind === 'maintenance' ? '🔧 Planned maintenance' : '🏖 Holiday'}
+                              {!downtime.resource_id && (
+                                <span className="ml-2 text-xs font-normal text-gray-500">(all resources)</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-gray-600 mt-1">
+                              {formatWindowTime(downtime.starts_at, timeZone)} –{' '}
+                              {formatWindowTime(downtime.ends_at, timeZone)}
+                            </p>
+                            {downtime.reason && <p className="text-xs text-gray-500 mt-1">{downtime.reason}</p>}
+                          </div>
+                          {canPlan && (
+                            <button
+                              onClick={() => handleDelete(deleteWindow, downtime.id, 'window')}
+                              className="text-xs font-medium text-red-600 hover:text-red-700"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {canPlan && (
+                  <form onSubmit={handleAddWindow} className="mt-3 space-y-2">
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Kind</label>
+                        <select
+                          value={windowKind}
+                          onChange={(e) => setWindowKind(e.target.value as 'maintenance' | 'holiday')}
+                          className={inputClass}
+                        >
+                          <option value="maintenance">Maintenance</option>
+                          <option value="holiday">Holiday</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Start</label>
+                        <input
+                          type="datetime-local"
+                          value={windowStart}
+                          onChange={(e) => setWindowStart(e.target.value)}
+                          min={toZonedDateTimeLocal(new Date(), timeZone)}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">End</label>
+                        <input
+                          type="datetime-local"
+                          value={windowEnd}
+                          onChange={(e) => setWindowEnd(e.target.value)}
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        value={windowReason}
+                        onChange={(e) => setWindowReason(e.target.value)}
+                        placeholder="Reason"
+                        className={inputClass}
+                      />
+                      {windowKind === 'holiday' && (
+                        <label className="flex items-center space-x-1 text-xs text-gray-700 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={allResources}
+                            onChange={(e) => setAllResources(e.target.checked)}
+                          />
+                          <span>All resources</span>
+                        </label>
+                      )}
+                      <button
+                        type="submit"
+                        className="px-3 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg whitespace-nowrap"
+                      >
+                        Add Window
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResourceCalendarModal;
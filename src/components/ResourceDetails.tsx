@@ -0,0 +1,446 @@
+import { useQuery, useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import useAuth from '../hooks/useAuth';
+import ConfirmDialog from './ConfirmDialog';
+import NotFound from './NotFound';
+import ResourceFormModal from './ResourceFormModal';
+import ResourceHistoryDrawer from './ResourceHistoryDrawer';
+import ResourceCalendarModal from './ResourceCalendarModal';
+import { availableStock } from '../utils/inventory';
+import { formatCost, resourceRate } from '../utils/cost';
+import { followLink, navigate, orderPath, tabPath } from '../utils/appRoutes';
+import { parseResourceInUseError } from '../utils/resourceValidation';
+
+// Current and upcoming work only; past allocations are just counted
+const GET_RESOURCE_DETAILS = gql`
+  query GetResourceDetails($id: uuid!, $now: timestamptz!) {
+    resources_by_pk(id: $id) {
+      id
+      name
+      type
+      status
+      status_reason
+      capacity
+      hourly_cost
+      unit_cost
+      description
+      stock_on_hand
+      stock_reserved
+      reorder_point
+      decommissioned_at
+      created_at
+      resource_allocations(
+        where: {
+          _or: [{ end_time: { _is_null: true } }, { end_time: { _gt: $now } }]
+          order: { status: { _nin: [completed, cancelled] } }
+        }
+        order_by: { start_time: asc }
+      ) {
+        id
+        allocated_quantity
+        start_time
+        end_time
+        notes
+        planned_cost
+        order {
+          id
+          order_number
+          product_name
+          status
+          priority
+        }
+      }
+      resource_allocations_aggregate {
+        aggregate {
+          count
+        }
+      }
+    }
+  }
+`;
+
+const DECOMMISSION_RESOURCE = gql`
+  mutation DecommissionResource($id: uuid!, $decommissioned_at: timestamptz, $status: resource_status!, $reason: String) {
+    update_resources_by_pk(
+      pk_columns: { id: $id }
+      _set: { decommissioned_at: $decommissioned_at, status: $status, status_reason: $reason }
+    ) {
+      id
+      status
+      status_reason
+      decommissioned_at
+      updated_at
+    }
+  }
+`;
+
+const DELETE_RESOURCE = gql`
+  mutation DeleteResource($id: uuid!) {
+    delete_resources_by_pk(id: $id) {
+      id
+      name
+    }
+  }
+`;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const STATUS_COLORS: Record<string, string> = {
+  available: 'bg-green-100 text-green-700 border-green-200',
+  in_use: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+  maintenance: 'bg-orange-100 text-orange-700 border-orange-200',
+  unavailable: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const TYPE_ICONS: Record<string, string> = {
+  machine: '🏭',
+  worker: '👷',
+  material: '📦',
+};
+
+type PendingAction = 'decommission' | 'reinstate' | 'delete';
+
+interface ResourceDetailsProps {
+  resourceId: string;
+}
+
+const ResourceDetails = ({ resourceId }: ResourceDetailsProps) => {
+  const validId = UUID_PATTERN.test(resourceId);
+  const [now] = useState(() => new Date().toISOString());
+  const { data, loading, error } = useQuery(GET_RESOURCE_DETAILS, {
+    variables: { id: resourceId, now },
+    skip: !validId,
+    pollInterval: 5000,
+  });
+  const [decommissionResource, { loading: decommissioning }] = useMutation(DECOMMISSION_RESOURCE);
+  const [deleteResource, { loading: deleting }] = useMutation(DELETE_RESOURCE);
+  const { canPlan } = useAuth();
+
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const resource = data?.resources_by_pk;
+
+  if (loading && !data) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <p className="text-red-600">Error loading resource details</p>
+      </div>
+    );
+  }
+
+  if (!validId || !resource) {
+    return (
+      <NotFound
+        title="Resource not found"
+        message="No resource has this ID. It may have been deleted."
+        backLabel="Back to resources"
+        backHref={tabPath('resources')}
+      />
+    );
+  }
+
+  const decommissioned = resource.decommissioned_at !== null;
+  const openAllocations = resource.resource_allocations;
+  const totalAllocations = resource.resource_allocations_aggregate.aggregate.count;
+  const pastAllocations = totalAllocations - openAllocations.length;
+  const nowDate = new Date();
+
+  const openAction = (action: PendingAction) => {
+    setReason('');
+    setActionError(null);
+    setPendingAction(action);
+  };
+
+  const handleDecommission = async (retire: boolean) => {
+    setActionError(null);
+    try {
+      await decommissionResource({
+        variables: {
+          id: resource.id,
+          decommissioned_at: retire ? new Date().toISOString() : null,
+          status: retire ? 'unavailable' : 'available',
+          reason: reason.trim() || (retire ? 'Decommissioned' : 'Reinstated'),
+        },
+      });
+      setPendingAction(null);
+    } catch (error: any) {
+      console.error('Error decommissioning resource:', error);
+      setActionError(parseResourceInUseError(error?.message) || error?.message || 'Failed to update resource');
+    }
+  };
+
+  const handleDelete = async () => {
+    setActionError(null);
+    try {
+      await deleteResource({
+        variables: { id: resource.id },
+        update(cache, { data }) {
+          const deleted = data?.delete_resources_by_pk;
+          if (!deleted) return;
+          cache.evict({ id: cache.identify(deleted) });
+          cache.gc();
+        },
+      });
+      setPendingAction(null);
+      navigate(tabPath('resources'));
+    } catch (error: any) {
+      console.error('Error deleting resource:', error);
+      setActionError(parseResourceInUseError(error?.message) || error?.message || 'Failed to delete resource');
+    }
+  };
+
+  const detailRow = (label: string, value: React.ReactNode) => (
+    <div className="flex justify-between text-sm">
+      <span className="text-gray-500">{label}</span>
+      <span className="font-medium text-gray-900 text-right">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <a
+              href={tabPath('resources')}
+              onClick={(e) => followLink(e, tabPath('resources'))}
+              className="text-xs font-medium text-primary-600 hover:text-primary-700"
+            >
+              ← All resources
+            </a>
+            <div className="mt-1 flex items-center space-x-2">
+              <span className="text-2xl">{TYPE_ICONS[resource.type] || '📋'}</span>
+              <h2 className="text-xl font-semibold text-gray-900">{resource.name}</h2>
+              <span
+                className={`px-2 py-1 text-xs font-medium rounded-full border ${
+                  STATUS_COLORS[resource.status] || STATUS_COLORS.available
+                }`}
+              >
+                {resource.status.replace('_', ' ')}
+              </span>
+              {decommissioned && (
+                <span className="px-2 py-1 text-xs font-medium rounded-full border bg-gray-100 text-gray-600 border-gray-300">
+                  decommissioned {format(new Date(resource.decommissioned_at), 'MMM dd, yyyy')}
+                </span>
+              )}
+            </div>
+            {resource.status_reason && <p className="text-xs text-gray-500 mt-1">{resource.status_reason}</p>}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setShowHistory(true)}
+              className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+            >
+              History
+            </button>
+            {resource.type !== 'material' && (
+              <button
+                onClick={() => setShowCalendar(true)}
+                className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+              >
+                Calendar
+              </button>
+            )}
+            {canPlan && (
+              <>
+                <button
+                  onClick={() => setShowEditForm(true)}
+                  className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+                >
+                  Edit
+                </button>
+                {decommissioned ? (
+                  <button
+                    onClick={() => openAction('reinstate')}
+                    className="px-2 py-1 text-xs font-medium text-green-600 hover:bg-green-50 rounded"
+                  >
+                    Reinstate
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => openAction('decommission')}
+                    className="px-2 py-1 text-xs font-medium text-orange-600 hover:bg-orange-50 rounded"
+                  >
+                    Decommission
+                  </button>
+                )}
+                <button
+                  onClick={() => openAction('delete')}
+                  className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {detailRow('Type', <span className="capitalize">{resource.type}</span>)}
+            {detailRow('Capacity', resource.capacity ?? 'N/A')}
+            {detailRow('Cost', resourceRate(resource) || 'N/A')}
+            {resource.type === 'material' && (
+              <>
+                {detailRow('Stock', `${availableStock(resource)} available of ${Number(resource.stock_on_hand)}`)}
+                {detailRow('Reorder Point', resource.reorder_point ?? 'N/A')}
+              </>
+            )}
+            {detailRow('Created', format(new Date(resource.created_at), 'MMM dd, yyyy'))}
+          </div>
+          <div className="md:col-span-2">
+            <p className="text-xs font-medium text-gray-500 mb-1">Description</p>
+            <p className="text-sm text-gray-700">{resource.description || 'No description'}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Allocations */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Current & Upcoming Allocations ({openAllocations.length})
+          </h3>
+          <span className="text-xs text-gray-500">{pastAllocations} past allocation(s) kept for history</span>
+        </div>
+
+        {openAllocations.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">Nothing scheduled on this resource</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-6 py-2 text-left font-medium">Order</th>
+                <th className="px-6 py-2 text-left font-medium">Product</th>
+                <th className="px-6 py-2 text-right font-medium">Qty</th>
+                <th className="px-6 py-2 text-left font-medium">Start</th>
+                <th className="px-6 py-2 text-left font-medium">End</th>
+                <th className="px-6 py-2 text-right font-medium">Planned Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {openAllocations.map((alloc: any) => {
+                const running = new Date(alloc.start_time) <= nowDate;
+                return (
+                  <tr key={alloc.id} className={running ? 'bg-blue-50' : ''}>
+                    <td className="px-6 py-2">
+                      <a
+                        href={orderPath(alloc.order.order_number)}
+                        onClick={(e) => followLink(e, orderPath(alloc.order.order_number))}
+                        className="font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        {alloc.order.order_number}
+                      </a>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {running ? 'now' : 'upcoming'} • {alloc.order.status.replace('_', ' ')}
+                      </span>
+                    </td>
+                    <td className="px-6 py-2 text-gray-700">{alloc.order.product_name}</td>
+                    <td className="px-6 py-2 text-right text-gray-700">{Number(alloc.allocated_quantity)}</td>
+                    <td className="px-6 py-2 text-gray-700">{format(new Date(alloc.start_time), 'MMM dd HH:mm')}</td>
+                    <td className="px-6 py-2 text-gray-700">
+                      {alloc.end_time ? format(new Date(alloc.end_time), 'MMM dd HH:mm') : 'Open'}
+                    </td>
+                    <td className="px-6 py-2 text-right text-gray-700">{formatCost(Number(alloc.planned_cost))}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showEditForm && <ResourceFormModal resource={resource} onClose={() => setShowEditForm(false)} />}
+
+      {showHistory && (
+        <ResourceHistoryDrawer resourceId={resource.id} periodDays={30} onClose={() => setShowHistory(false)} />
+      )}
+
+      {showCalendar && <ResourceCalendarModal resource={resource} onClose={() => setShowCalendar(false)} />}
+
+      {(pendingAction === 'decommission' || pendingAction === 'reinstate') && (
+        <ConfirmDialog
+          title={`${pendingAction === 'decommission' ? 'Decommission' : 'Reinstate'} ${resource.name}`}
+          message={
+            <div className="space-y-3">
+              <p>
+                {pendingAction === 'decommission'
+                  ? 'The resource stays unavailable and is left out of scheduling. Its allocation history is kept.'
+                  : 'The resource becomes available for scheduling again.'}
+              </p>
+              {pendingAction === 'decommission' && openAllocations.length > 0 && (
+                <p className="text-orange-700">
+                  It still has {openAllocations.length} current or upcoming allocation(s). Move them to another
+                  resource first.
+                </p>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason (optional)</label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+              {actionError && <p className="text-red-600">{actionError}</p>}
+            </div>
+          }
+          confirmLabel={pendingAction === 'decommission' ? 'Decommission' : 'Reinstate'}
+          busy={decommissioning}
+          confirmDisabled={pendingAction === 'decommission' && openAllocations.length > 0}
+          onConfirm={() => handleDecommission(pendingAction === 'decommission')}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+
+      {pendingAction === 'delete' && (
+        <ConfirmDialog
+          title={`Delete ${resource.name}`}
+          message={
+            <div className="space-y-3">
+              {totalAllocations > 0 ? (
+                <p className="text-orange-700">
+                  {resource.name} has {totalAllocations} allocation(s) on production orders. Deleting it would remove
+                  them from those orders, so it can't be deleted. Decommission it instead.
+                </p>
+              ) : (
+                <p>
+                  This permanently deletes {resource.name} together with its shifts, calendar, status history and
+                  any bill-of-materials lines that use it.
+                </p>
+              )}
+              {actionError && <p className="text-red-600">{actionError}</p>}
+            </div>
+          }
+          confirmLabel="Delete"
+          busy={deleting}
+          confirmDisabled={totalAllocations > 0}
+          onConfirm={handleDelete}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ResourceDetails;
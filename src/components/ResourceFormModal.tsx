@@ -0,0 +1,288 @@
+import { useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import {
+  ResourceFormErrors,
+  ResourceFormValues,
+  ResourceType,
+  emptyResourceForm,
+  resourceFormVariables,
+  validateResourceForm,
+} from '../utils/resourceValidation';
+import { browserTimeZone } from '../utils/availability';
+
+const CREATE_RESOURCE = gql`
+  mutation CreateResource(
+    $name: String!
+    $type: resource_type!
+    $capacity: numeric
+    $hourly_cost: numeric
+    $unit_cost: numeric
+    $reorder_point: numeric
+    $description: String
+    $time_zone: String!
+  ) {
+    insert_resources_one(
+      object: {
+        name: $name
+        type: $type
+        time_zone: $time_zone
+        capacity: $capacity
+        hourly_cost: $hourly_cost
+        unit_cost: $unit_cost
+        reorder_point: $reorder_point
+        description: $description
+      }
+    ) {
+      id
+      name
+      type
+      status
+    }
+  }
+`;
+
+const UPDATE_RESOURCE = gql`
+  mutation UpdateResource(
+    $id: uuid!
+    $name: String!
+    $capacity: numeric
+    $hourly_cost: numeric
+    $unit_cost: numeric
+    $reorder_point: numeric
+    $description: String
+  ) {
+    update_resources_by_pk(
+      pk_columns: { id: $id }
+      _set: {
+        name: $name
+        capacity: $capacity
+        hourly_cost: $hourly_cost
+        unit_cost: $unit_cost
+        reorder_point: $reorder_point
+        description: $description
+      }
+    ) {
+      id
+      name
+      capacity
+      hourly_cost
+      unit_cost
+      reorder_point
+      description
+      updated_at
+    }
+  }
+`;
+
+const optionalField = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? '' : String(Number(value));
+
+interface ResourceFormModalProps {
+  resource?: any;
+  onClose: () => void;
+  onSaved?: (resourceId: string) => void;
+}
+
+const ResourceFormModal = ({ resource, onClose, onSaved }: ResourceFormModalProps) => {
+  const isEdit = Boolean(resource);
+
+  const [values, setValues] = useState<ResourceFormValues>(() =>
+    resource
+      ? {
+          name: resource.name,
+          type: resource.type,
+          capacity: optionalField(resource.capacity),
+          hourly_cost: optionalField(resource.hourly_cost),
+          unit_cost: optionalField(resource.unit_cost),
+          reorder_point: optionalField(resource.reorder_point),
+          description: resource.description || '',
+        }
+      : emptyResourceForm
+  );
+  const [errors, setErrors] = useState<ResourceFormErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [createResource] = useMutation(CREATE_RESOURCE);
+  const [updateResource] = useMutation(UPDATE_RESOURCE);
+
+  const setField = (field: keyof ResourceFormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError(null);
+
+    const validationErrors = validateResourceForm(values);
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    const changes = resourceFormVariables(values);
+
+    setSubmitting(true);
+    try {
+      if (isEdit) {
+        await updateResource({
+          variables: { id: resource.id, ...changes },
+          optimisticResponse: {
+            update_resources_by_pk: {
+              __typename: 'resources',
+              id: resource.id,
+              ...changes,
+              updated_at: new Date().toISOString(),
+            },
+          },
+        });
+        onSaved?.(resource.id);
+      } else {
+        // Shifts start out on the clock of whoever set the resource up;
+        // the calendar can change the zone later
+        const { data } = await createResource({
+          variables: { type: values.type, time_zone: browserTimeZone(), ...changes },
+        });
+        onSaved?.(data.insert_resources_one.id);
+      }
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving resource:', error);
+      setSubmitError(error?.message || 'Failed to save resource');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = (field: keyof ResourceFormValues) => `
+    w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500
+    ${errors[field] ? 'border-red-300' : 'border-gray-300'}
+  `;
+
+  const renderError = (field: keyof ResourceFormValues) =>
+    errors[field] && <p className="text-xs text-red-600 mt-1">{errors[field]}</p>;
+
+  const renderAmount = (field: keyof ResourceFormValues, label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={values[field]}
+        onChange={(e) => setField(field, e.target.value)}
+        className={inputClass(field)}
+      />
+      {renderError(field)}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-lg"
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {isEdit ? `Edit ${resource.name}` : 'New Resource'}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Fields */}
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                value={values.name}
+                onChange={(e) => setField('name', e.target.value)}
+                placeholder="CNC Machine 3"
+                className={inputClass('name')}
+              />
+              {renderError('name')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              {/* Fixed once created: routings and allocations depend on it */}
+              <select
+                value={values.type}
+                onChange={(e) => setField('type', e.target.value as ResourceType)}
+                disabled={isEdit}
+                className={`${inputClass('type')} disabled:bg-gray-100`}
+              >
+                <option value="machine">Machine</option>
+                <option value="worker">Worker</option>
+                <option value="material">Material</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Machines and workers are costed per hour, materials per unit */}
+          {values.type === 'material' ? (
+            <div className="grid grid-cols-3 gap-4">
+              {renderAmount('capacity', 'Capacity')}
+              {renderAmount('unit_cost', 'Unit Cost')}
+              {renderAmount('reorder_point', 'Reorder Point')}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              {renderAmount('capacity', 'Capacity')}
+              {renderAmount('hourly_cost', 'Hourly Cost')}
+            </div>
+          )}
+          {values.type === 'material' && !isEdit && (
+            <p className="text-xs text-gray-500">Stock starts at 0; book the first delivery with Manage stock.</p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              rows={3}
+              value={values.description}
+              onChange={(e) => setField('description', e.target.value)}
+              className={inputClass('description')}
+            />
+          </div>
+
+          {submitError && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+              {submitError}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Saving…' : isEdit ? 'Save Changes' : 'Create Resource'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ResourceFormModal;
@@ -0,0 +1,220 @@
+import { useSubscription, gql } from '@apollo/client';
+import { useMemo } from 'react';
+import { format, subDays } from 'date-fns';
+import { downtimeHours, formatHours } from '../utils/downtime';
+import { STOCK_MOVEMENT_LABELS } from '../utils/inventory';
+
+const WATCH_RESOURCE_HISTORY = gql`
+  subscription WatchResourceHistory($id: uuid!, $from: timestamptz!) {
+    resources_by_pk(id: $id) {
+      id
+      name
+      type
+      status
+      resource_events(order_by: { created_at: desc }, limit: 50) {
+        id
+        event_type
+        old_status
+        new_status
+        changed_by
+        reason
+        created_at
+      }
+      stock_movements(order_by: { created_at: desc }, limit: 50) {
+        id
+        movement_type
+        quantity
+        on_hand_after
+        reserved_after
+        note
+        changed_by
+        created_at
+        order {
+          id
+          order_number
+        }
+      }
+      status_periods(
+        where: { _or: [{ ended_at: { _is_null: true } }, { ended_at: { _gte: $from } }] }
+        order_by: { started_at: asc }
+      ) {
+        status
+        reason
+        started_at
+        ended_at
+      }
+    }
+  }
+`;
+
+interface ResourceHistoryDrawerProps {
+  resourceId: string;
+  periodDays: number;
+  onClose: () => void;
+}
+
+const ResourceHistoryDrawer = ({ resourceId, periodDays, onClose }: ResourceHistoryDrawerProps) => {
+  const from = useMemo(() => subDays(new Date(), periodDays), [periodDays]);
+  const { data, loading } = useSubscription(WATCH_RESOURCE_HISTORY, {
+    variables: { id: resourceId, from: from.toISOString() },
+  });
+
+  const resource = data?.resources_by_pk;
+
+  const downtime = useMemo(() => {
+    const periods = resource?.status_periods || [];
+    return {
+      maintenance: downtimeHours(periods.filter((p: any) => p.status === 'maintenance'), from, new Date()),
+      unavailable: downtimeHours(periods.filter((p: any) => p.status === 'unavailable'), from, new Date()),
+    };
+  }, [resource, from]);
+
+  const getStatusColor = (status: string) => {
+    const colors = {
+      available: 'text-green-700',
+      in_use: 'text-yellow-700',
+      maintenance: 'text-orange-700',
+      unavailable: 'text-red-700',
+    };
+    return colors[status as keyof typeof colors] || 'text-gray-700';
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+      <div
+        className="w-full max-w-md h-full bg-white shadow-lg border-l border-gray-200 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{resource?.name || 'Resource'} History</h3>
+            {resource && (
+              <p className="text-xs text-gray-500 mt-1 capitalize">
+                {resource.type} • {resource.status.replace('_', ' ')}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading && !resource ? (
+          <div className="p-6 animate-pulse space-y-4">
+            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {/* Downtime */}
+            <div>
+              <h5 className="font-semibold text-gray-900 mb-3">Downtime (last {periodDays} days)</h5>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="p-3 bg-orange-50 rounded-lg">
+                  <p className="text-xs text-orange-700">Maintenance</p>
+                  <p className="text-lg font-semibold text-orange-900">{formatHours(downtime.maintenance)}</p>
+                </div>
+                <div className="p-3 bg-red-50 rounded-lg">
+                  <p className="text-xs text-red-700">Unavailable</p>
+                  <p className="text-lg font-semibold text-red-900">{formatHours(downtime.unavailable)}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600">Total</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {formatHours(downtime.maintenance + downtime.unavailable)}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Stock Movements */}
+            {resource?.type === 'material' && (
+              <div>
+                <h5 className="font-semibold text-gray-900 mb-3">
+                  Stock Movements ({resource.stock_movements.length})
+                </h5>
+                {resource.stock_movements.length === 0 ? (
+                  <p className="text-sm text-gray-500">No stock movements recorded</p>
+                ) : (
+                  <div className="space-y-2">
+                    {resource.stock_movements.map((movement: any) => (
+                      <div key={movement.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <p className="text-sm font-medium text-gray-900">
+                              {STOCK_MOVEMENT_LABELS[movement.movement_type] || movement.movement_type}{' '}
+                              {Number(movement.quantity)}
+                              {movement.order && (
+                                <span className="font-normal text-gray-500"> • {movement.order.order_number}</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-gray-600 mt-1">
+                              On hand {Number(movement.on_hand_after)} • Reserved {Number(movement.reserved_after)}
+                            </p>
+                            {movement.note && <p className="text-xs text-gray-500 mt-1">{movement.note}</p>}
+                          </div>
+                          <div className="text-right">
+                            <p className="text-xs text-gray-500">
+                              {format(new Date(movement.created_at), 'MMM dd, HH:mm')}
+                            </p>
+                            <p className="text-xs text-gray-400 mt-1">by {movement.changed_by || 'system'}</p>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Events */}
+            <div>
+              <h5 className="font-semibold text-gray-900 mb-3">
+                Status History ({resource?.resource_events.length || 0})
+              </h5>
+              {!resource || resource.resource_events.length === 0 ? (
+                <p className="text-sm text-gray-500">No events recorded</p>
+              ) : (
+                <div className="space-y-2">
+                  {resource.resource_events.map((event: any) => (
+                    <div key={event.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <p className="text-sm font-medium text-gray-900">
+                            {event.event_type.replace('_', ' ')}
+                          </p>
+                          <p className="text-xs mt-1">
+                            {event.old_status && (
+                              <span className={getStatusColor(event.old_status)}>
+                                {event.old_status.replace('_', ' ')} →{' '}
+                              </span>
+                            )}
+                            <span className={getStatusColor(event.new_status)}>
+                              {event.new_status?.replace('_', ' ')}
+                            </span>
+                          </p>
+                          {event.reason && <p className="text-xs text-gray-600 mt-1">{event.reason}</p>}
+                        </div>
+                        <div className="text-right">
+                          <p className="text-xs text-gray-500">
+                            {format(new Date(event.created_at), 'MMM dd, HH:mm')}
+                          </p>
+                          <p className="text-xs text-gray-400 mt-1">by {event.changed_by || 'system'}</p>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResourceHistoryDrawer;
@@ -1,5 +1,24 @@
 import { useQuery, useSubscription, useMutation, gql } from '@apollo/client';
 import { useState, useMemo } from 'react';
+import { format, subDays } from 'date-fns';
+import useAuth from '../hooks/useAuth';
+import ConfirmDialog from './ConfirmDialog';
+import ResourceHistoryDrawer from './ResourceHistoryDrawer';
+import ResourceCalendarModal from './ResourceCalendarModal';
+import StockAdjustmentModal from './StockAdjustmentModal';
+import DowntimeReportModal from './DowntimeReportModal';
+import ReasonCodesModal from './ReasonCodesModal';
+import ResourceFormModal from './ResourceFormModal';
+import {
+  DOWNTIME_PERIOD_DAYS,
+  DOWNTIME_STATUSES,
+  downtimeHours,
+  formatHours,
+  parseDowntimeError,
+} from '../utils/downtime';
+import { availableStock, isLowStock } from '../utils/inventory';
+import { resourceRate } from '../utils/cost';
+import { followLink, navigate, resourcePath } from '../utils/appRoutes';
 
 const GET_RESOURCES = gql`
   query GetResources {
@@ -10,7 +29,12 @@ const GET_RESOURCES = gql`
       status
       capacity
       hourly_cost
+      unit_cost
       description
+      stock_on_hand
+      stock_reserved
+      reorder_point
+      decommissioned_at
       resource_allocations_aggregate {
         aggregate {
           count
@@ -19,6 +43,20 @@ const GET_RESOURCES = gql`
           }
         }
       }
+      downtime_records(where: { ended_at: { _is_null: true } }, order_by: { started_at: desc }) {
+        id
+        started_at
+        notes
+        takes_resource_down
+        reason {
+          code
+          label
+        }
+        order {
+          id
+          order_number
+        }
+      }
     }
   }
 `;
@@ -30,45 +68,130 @@ const WATCH_RESOURCES = gql`
       name
       type
       status
+      stock_on_hand
+      stock_reserved
+      reorder_point
+      decommissioned_at
       resource_allocations_aggregate {
         aggregate {
           count
         }
       }
+      downtime_records(where: { ended_at: { _is_null: true } }, order_by: { started_at: desc }) {
+        id
+        started_at
+        notes
+        takes_resource_down
+        reason {
+          code
+          label
+        }
+        order {
+          id
+          order_number
+        }
+      }
+    }
+  }
+`;
+
+const WATCH_DOWNTIME = gql`
+  subscription WatchDowntime($from: timestamptz!, $statuses: [resource_status!]!) {
+    resource_status_periods(
+      where: {
+        status: { _in: $statuses }
+        _or: [{ ended_at: { _is_null: true } }, { ended_at: { _gte: $from } }]
+      }
+    ) {
+      resource_id
+      status
+      started_at
+      ended_at
     }
   }
 `;
 
 const UPDATE_RESOURCE_STATUS = gql`
-  mutation UpdateResourceStatus($id: uuid!, $status: resource_status!) {
-    update_resources_by_pk(pk_columns: { id: $id }, _set: { status: $status }) {
+  mutation UpdateResourceStatus($id: uuid!, $status: resource_status!, $reason: String) {
+    update_resources_by_pk(
+      pk_columns: { id: $id }
+      _set: { status: $status, status_reason: $reason }
+    ) {
       id
       status
+      status_reason
       updated_at
     }
   }
 `;
 
+const RESOLVE_DOWNTIME = gql`
+  mutation ResolveDowntime($id: uuid!, $ended_at: timestamptz!) {
+    update_downtime_records_by_pk(pk_columns: { id: $id }, _set: { ended_at: $ended_at }) {
+      id
+      ended_at
+      resource {
+        id
+        status
+      }
+    }
+  }
+`;
+
 type ResourceType = 'machine' | 'worker' | 'material';
 type ResourceStatus = 'available' | 'in_use' | 'maintenance' | 'unavailable';
 
 const ResourcesList = () => {
   const [typeFilter, setTypeFilter] = useState<ResourceType | 'all'>('all');
   const [statusFilter, setStatusFilter] = useState<ResourceStatus | 'all'>('all');
+  const [periodDays, setPeriodDays] = useState(30);
+  const [historyResourceId, setHistoryResourceId] = useState<string | null>(null);
+  const [calendarResource, setCalendarResource] = useState<any | null>(null);
+  const [stockResource, setStockResource] = useState<any | null>(null);
+  const [pendingStatus, setPendingStatus] = useState<{ resource: any; status: ResourceStatus } | null>(null);
+  const [statusReason, setStatusReason] = useState('');
+  const [downtimeResource, setDowntimeResource] = useState<any | null>(null);
+  const [showReasonCodes, setShowReasonCodes] = useState(false);
+  const [showDecommissioned, setShowDecommissioned] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [resolveErrors, setResolveErrors] = useState<Record<string, string>>({});
 
   const { data: subData } = useSubscription(WATCH_RESOURCES);
   const { data: queryData, loading } = useQuery(GET_RESOURCES);
   const [updateStatus] = useMutation(UPDATE_RESOURCE_STATUS);
+  const [resolveDowntime] = useMutation(RESOLVE_DOWNTIME);
+  const { canChangeStatus, canPlan, canReportOn } = useAuth();
+
+  const downtimeFrom = useMemo(() => subDays(new Date(), periodDays), [periodDays]);
+  const { data: downtimeData } = useSubscription(WATCH_DOWNTIME, {
+    variables: { from: downtimeFrom.toISOString(), statuses: DOWNTIME_STATUSES },
+  });
+
+  const downtimeByResource = useMemo(() => {
+    const periodsByResource: Record<string, any[]> = {};
+    (downtimeData?.resource_status_periods || []).forEach((period: any) => {
+      if (!periodsByResource[period.resource_id]) {
+        periodsByResource[period.resource_id] = [];
+      }
+      periodsByResource[period.resource_id].push(period);
+    });
+    const totals: Record<string, number> = {};
+    Object.entries(periodsByResource).forEach(([resourceId, periods]) => {
+      totals[resourceId] = downtimeHours(periods, downtimeFrom, new Date());
+    });
+    return totals;
+  }, [downtimeData, downtimeFrom]);
 
   const resources = subData?.resources || queryData?.resources || [];
 
   const filteredResources = useMemo(() => {
     return resources.filter((resource: any) => {
+      if (!showDecommissioned && resource.decommissioned_at) return false;
       if (typeFilter !== 'all' && resource.type !== typeFilter) return false;
       if (statusFilter !== 'all' && resource.status !== statusFilter) return false;
       return true;
     });
-  }, [resources, typeFilter, statusFilter]);
+  }, [resources, typeFilter, statusFilter, showDecommissioned]);
 
   const getStatusColor = (status: string) => {
     const colors = {
@@ -80,6 +203,12 @@ const ResourcesList = () => {
     return colors[status as keyof typeof colors] || colors.available;
   };
 
+  // Share of on-hand stock, for the stacked reserved/available bar
+  const stockPercent = (quantity: number | string, resource: any) => {
+    const onHand = Number(resource.stock_on_hand);
+    return onHand > 0 ? Math.min((Number(quantity) / onHand) * 100, 100) : 0;
+  };
+
   const getTypeIcon = (type: string) => {
     const icons = {
       machine: '🏭',
@@ -89,15 +218,22 @@ const ResourcesList = () => {
     return icons[type as keyof typeof icons] || '📋';
   };
 
-  const handleStatusChange = async (resourceId: string, newStatus: ResourceStatus) => {
+  const requestStatusChange = (resource: any, newStatus: ResourceStatus) => {
+    setStatusReason('');
+    setPendingStatus({ resource, status: newStatus });
+  };
+
+  const handleStatusChange = async (resourceId: string, newStatus: ResourceStatus, reason: string) => {
+    setPendingStatus(null);
     try {
       await updateStatus({
-        variables: { id: resourceId, status: newStatus },
+        variables: { id: resourceId, status: newStatus, reason: reason.trim() || null },
         optimisticResponse: {
           update_resources_by_pk: {
             __typename: 'resources',
             id: resourceId,
             status: newStatus,
+            status_reason: reason.trim() || null,
             updated_at: new Date().toISOString(),
           },
         },
@@ -107,6 +243,27 @@ const ResourcesList = () => {
     }
   };
 
+  const handleResolve = async (record: any) => {
+    setResolveErrors((prev) => ({ ...prev, [record.id]: '' }));
+    try {
+      await resolveDowntime({ variables: { id: record.id, ended_at: new Date().toISOString() } });
+    } catch (error: any) {
+      console.error('Error resolving downtime:', error);
+      setResolveErrors((prev) => ({
+        ...prev,
+        [record.id]: parseDowntimeError(error?.message) || error?.message || 'Failed to resolve',
+      }));
+    }
+  };
+
+  const lowStockResources = useMemo(
+    () =>
+      resources.filter(
+        (resource: any) => resource.type === 'material' && !resource.decommissioned_at && isLowStock(resource)
+      ),
+    [resources]
+  );
+
   const groupedResources = useMemo(() => {
     const grouped: Record<string, any[]> = {};
     filteredResources.forEach((resource: any) => {
@@ -165,9 +322,68 @@ const ResourcesList = () => {
               <option value="unavailable">Unavailable</option>
             </select>
           </div>
+
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Downtime Period
+            </label>
+            <select
+              value={periodDays}
+              onChange={(e) => setPeriodDays(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {DOWNTIME_PERIOD_DAYS.map((days) => (
+                <option key={days} value={days}>
+                  Last {days} days
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="self-end flex items-center space-x-2 py-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showDecommissioned}
+              onChange={(e) => setShowDecommissioned(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Show decommissioned</span>
+          </label>
+
+          {canPlan && (
+            <button
+              onClick={() => setShowReasonCodes(true)}
+              className="self-end px-3 py-2 text-sm font-medium text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+            >
+              Reason codes
+            </button>
+          )}
+
+          {canPlan && (
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="self-end px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors"
+            >
+              + New Resource
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Low Stock Alerts */}
+      {lowStockResources.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <p className="text-sm font-semibold text-amber-800">Low stock</p>
+          <ul className="mt-1 text-sm text-amber-800 list-disc list-inside">
+            {lowStockResources.map((resource: any) => (
+              <li key={resource.id}>
+                {resource.name}: {availableStock(resource)} available, reorder point {Number(resource.reorder_point)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Resources by Type */}
       {Object.keys(groupedResources).length === 0 ? (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
@@ -196,12 +412,20 @@ const ResourcesList = () => {
                 return (
                   <div
                     key={resource.id}
-                    className="p-4 border border-gray-200 rounded-lg hover:shadow-md transition-shadow"
+                    className={`p-4 border border-gray-200 rounded-lg hover:shadow-md transition-shadow ${
+                      resource.decommissioned_at ? 'opacity-60' : ''
+                    }`}
                   >
                     <div className="flex items-start justify-between mb-3">
-                      <h4 className="font-semibold text-gray-900">{resource.name}</h4>
+                      <a
+                        href={resourcePath(resource.id)}
+                        onClick={(e) => followLink(e, resourcePath(resource.id))}
+                        className="font-semibold text-gray-900 hover:text-primary-600"
+                      >
+                        {resource.name}
+                      </a>
                       <span className={`px-2 py-1 text-xs font-medium rounded-full border ${getStatusColor(resource.status)}`}>
-                        {resource.status.replace('_', ' ')}
+                        {resource.decommissioned_at ? 'decommissioned' : resource.status.replace('_', ' ')}
                       </span>
                     </div>
 
@@ -209,8 +433,62 @@ const ResourcesList = () => {
                       <p className="text-xs text-gray-600 mb-3">{resource.description}</p>
                     )}
 
+                    {resource.downtime_records.length > 0 && (
+                      <div className="mb-3 space-y-1">
+                        {resource.downtime_records.map((record: any) => (
+                          <div key={record.id} className="p-2 bg-red-50 border border-red-200 rounded-lg">
+                            <div className="flex items-start justify-between">
+                              <div className="text-xs text-red-800">
+                                <p className="font-medium">
+                                  {record.reason.label} since {format(new Date(record.started_at), 'MMM dd HH:mm')}
+                                </p>
+                                {record.order && <p>Holding up {record.order.order_number}</p>}
+                                {record.notes && <p className="text-red-700">{record.notes}</p>}
+                              </div>
+                              {canReportOn(resource.id) && (
+                                <button
+                                  onClick={() => handleResolve(record)}
+                                  className="ml-2 text-xs font-medium text-green-700 hover:text-green-800"
+                                >
+                                  Resolve
+                                </button>
+                              )}
+                            </div>
+                            {resolveErrors[record.id] && (
+                              <p className="text-xs text-red-600 mt-1">{resolveErrors[record.id]}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="space-y-2 text-sm">
-                      {resource.capacity && (
+                      {resource.type === 'material' ? (
+                        <div>
+                          <div className="flex justify-between text-xs text-gray-500 mb-1">
+                            <span>Stock</span>
+                            <span>
+                              {availableStock(resource)} available of {Number(resource.stock_on_hand)}
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2 flex overflow-hidden">
+                            <div
+                              className="h-2 bg-blue-400"
+                              style={{ width: `${stockPercent(resource.stock_reserved, resource)}%` }}
+                              title={`${Number(resource.stock_reserved)} reserved`}
+                            />
+                            <div
+                              className={`h-2 ${isLowStock(resource) ? 'bg-red-500' : 'bg-green-500'}`}
+                              style={{ width: `${stockPercent(availableStock(resource), resource)}%` }}
+                            />
+                          </div>
+                          {isLowStock(resource) && (
+                            <p className="text-xs text-red-600 mt-1">
+                              ⚠ At or below reorder point ({Number(resource.reorder_point)})
+                            </p>
+                          )}
+                        </div>
+                      ) : resource.capacity && (
                         <div>
                           <div className="flex justify-between text-xs text-gray-500 mb-1">
                             <span>Utilization</span>
@@ -231,49 +509,96 @@ const ResourcesList = () => {
                         </div>
                       )}
 
+                      {resource.type === 'material' ? (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Reserved:</span>
+                          <span className="font-medium text-gray-900">{Number(resource.stock_reserved)}</span>
+                        </div>
+                      ) : (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Capacity:</span>
+                          <span className="font-medium text-gray-900">
+                            {resource.capacity || 'N/A'}
+                          </span>
+                        </div>
+                      )}
+
                       <div className="flex justify-between">
-                        <span className="text-gray-500">Capacity:</span>
+                        <span className="text-gray-500">Cost:</span>
                         <span className="font-medium text-gray-900">
-                          {resource.capacity || 'N/A'}
+                          {resourceRate(resource) || 'N/A'}
                         </span>
                       </div>
 
                       <div className="flex justify-between">
-                        <span className="text-gray-500">Cost:</span>
+                        <span className="text-gray-500">Active Jobs:</span>
                         <span className="font-medium text-gray-900">
-                          ${resource.hourly_cost}/hr
+                          {resource.resource_allocations_aggregate.aggregate.count}
                         </span>
                       </div>
 
                       <div className="flex justify-between">
-                        <span className="text-gray-500">Active Jobs:</span>
+                        <span className="text-gray-500">Downtime ({periodDays}d):</span>
                         <span className="font-medium text-gray-900">
-                          {resource.resource_allocations_aggregate.aggregate.count}
+                          {formatHours(downtimeByResource[resource.id] || 0)}
                         </span>
                       </div>
                     </div>
 
+                    <div className="mt-3 flex items-center space-x-4">
+                      <button
+                        onClick={() => setHistoryResourceId(resource.id)}
+                        className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        View history
+                      </button>
+                      <button
+                        onClick={() => setCalendarResource(resource)}
+                        className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        Calendar
+                      </button>
+                      {canPlan && resource.type === 'material' && (
+                        <button
+                          onClick={() => setStockResource(resource)}
+                          className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          Manage stock
+                        </button>
+                      )}
+                    </div>
+
                     {/* Quick Status Actions */}
-                    <div className="mt-4 pt-4 border-t border-gray-200">
-                      <div className="grid grid-cols-2 gap-2">
-                        {resource.status !== 'available' && (
-                          <button
-                            onClick={() => handleStatusChange(resource.id, 'available')}
-                            className="px-2 py-1 text-xs font-medium text-green-600 bg-green-50 hover:bg-green-100 rounded transition-colors"
-                          >
-                            Set Available
-                          </button>
-                        )}
-                        {resource.status !== 'maintenance' && (
-                          <button
-                            onClick={() => handleStatusChange(resource.id, 'maintenance')}
-                            className="px-2 py-1 text-xs font-medium text-orange-600 bg-orange-50 hover:bg-orange-100 rounded transition-colors"
-                          >
-                            Maintenance
-                          </button>
-                        )}
+                    {canChangeStatus && !resource.decommissioned_at && (
+                      <div className="mt-4 pt-4 border-t border-gray-200">
+                        <div className="grid grid-cols-2 gap-2">
+                          {resource.status !== 'available' && (
+                            <button
+                              onClick={() => requestStatusChange(resource, 'available')}
+                              className="px-2 py-1 text-xs font-medium text-green-600 bg-green-50 hover:bg-green-100 rounded transition-colors"
+                            >
+                              Set Available
+                            </button>
+                          )}
+                          {resource.status !== 'maintenance' && (
+                            <button
+                              onClick={() => requestStatusChange(resource, 'maintenance')}
+                              className="px-2 py-1 text-xs font-medium text-orange-600 bg-orange-50 hover:bg-orange-100 rounded transition-colors"
+                            >
+                              Maintenance
+                            </button>
+                          )}
+                          {resource.type !== 'material' && canReportOn(resource.id) && (
+                            <button
+                              onClick={() => setDowntimeResource(resource)}
+                              className="px-2 py-1 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded transition-colors"
+                            >
+                              Report Downtime
+                            </button>
+                          )}
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 );
               })}
@@ -281,6 +606,57 @@ const ResourcesList = () => {
           </div>
         ))
       )}
+
+      {historyResourceId && (
+        <ResourceHistoryDrawer
+          resourceId={historyResourceId}
+          periodDays={periodDays}
+          onClose={() => setHistoryResourceId(null)}
+        />
+      )}
+
+      {calendarResource && (
+        <ResourceCalendarModal resource={calendarResource} onClose={() => setCalendarResource(null)} />
+      )}
+
+      {stockResource && (
+        <StockAdjustmentModal resource={stockResource} onClose={() => setStockResource(null)} />
+      )}
+
+      {downtimeResource && (
+        <DowntimeReportModal resource={downtimeResource} onClose={() => setDowntimeResource(null)} />
+      )}
+
+      {showReasonCodes && <ReasonCodesModal onClose={() => setShowReasonCodes(false)} />}
+
+      {showCreateForm && (
+        <ResourceFormModal
+          onClose={() => setShowCreateForm(false)}
+          onSaved={(resourceId) => navigate(resourcePath(resourceId))}
+        />
+      )}
+
+      {pendingStatus && (
+        <ConfirmDialog
+          title={`Set ${pendingStatus.resource.name} to ${pendingStatus.status.replace('_', ' ')}`}
+          message={
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason (optional)</label>
+              <textarea
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                rows={3}
+                autoFocus
+                placeholder={pendingStatus.status === 'maintenance' ? 'e.g. Scheduled spindle service' : ''}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          }
+          confirmLabel="Update Status"
+          onConfirm={() => handleStatusChange(pendingStatus.resource.id, pendingStatus.status, statusReason)}
+          onCancel={() => setPendingStatus(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,243 @@
+import { useLazyQuery, useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { parseDependencyError } from '../utils/dependencies';
+
+// Served by the preview_schedule Hasura Action (server/actions.ts)
+const PREVIEW_SCHEDULE = gql`
+  query PreviewSchedule($objective: String) {
+    preview_schedule(objective: $objective) {
+      total_cost
+      weighted_lateness_hours
+      orders {
+        order_id
+        order_number
+        scheduled_start
+        scheduled_end
+        cost
+        lateness_hours
+        allocations {
+          resource_id
+          resource_name
+          allocated_quantity
+          start_time
+          end_time
+        }
+      }
+      unscheduled {
+        order_id
+        order_number
+        reason
+      }
+    }
+  }
+`;
+
+// Replaces the machine and worker allocations the planned orders already had,
+// in one transaction. Material rows (the bill of materials) and their stock
+// reservations stay as they are.
+const ACCEPT_SCHEDULE_PLAN = gql`
+  mutation AcceptSchedulePlan(
+    $order_ids: [uuid!]!
+    $orders: [production_orders_updates!]!
+    $allocations: [resource_allocations_insert_input!]!
+  ) {
+    delete_resource_allocations(
+      where: { order_id: { _in: $order_ids }, resource: { type: { _neq: "material" } } }
+    ) {
+      affected_rows
+    }
+    update_production_orders_many(updates: $orders) {
+      affected_rows
+    }
+    insert_resource_allocations(objects: $allocations) {
+      affected_rows
+    }
+  }
+`;
+
+interface SchedulePlannerProps {
+  onClose: () => void;
+}
+
+const SchedulePlanner = ({ onClose }: SchedulePlannerProps) => {
+  const [objective, setObjective] = useState<'lateness' | 'cost'>('lateness');
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  const [previewSchedule, { data, loading, error }] = useLazyQuery(PREVIEW_SCHEDULE, {
+    fetchPolicy: 'network-only',
+  });
+  const [acceptPlan, { loading: accepting }] = useMutation(ACCEPT_SCHEDULE_PLAN);
+
+  const plan = data?.preview_schedule;
+
+  const handleAccept = async () => {
+    if (!plan || plan.orders.length === 0) return;
+    setAcceptError(null);
+    try {
+      await acceptPlan({
+        variables: {
+          order_ids: plan.orders.map((order: any) => order.order_id),
+          orders: plan.orders.map((order: any) => ({
+            where: { id: { _eq: order.order_id } },
+            _set: {
+              scheduled_start: order.scheduled_start,
+              scheduled_end: order.scheduled_end,
+              status: 'scheduled',
+            },
+          })),
+          allocations: plan.orders.flatMap((order: any) =>
+            order.allocations.map((alloc: any) => ({
+              order_id: order.order_id,
+              resource_id: alloc.resource_id,
+              allocated_quantity: alloc.allocated_quantity,
+              start_time: alloc.start_time,
+              end_time: alloc.end_time,
+              notes: 'Auto-scheduled',
+            }))
+          ),
+        },
+      });
+      onClose();
+    } catch (error: any) {
+      // The plan can go stale if someone books a resource after the preview
+      console.error('Error accepting plan:', error);
+      setAcceptError(parseDependencyError(error?.message) || error?.message || 'Failed to accept plan');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-3xl">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Auto-Schedule Pending Orders</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 max-h-[calc(100vh-200px)] overflow-y-auto">
+          <div className="flex items-end space-x-2">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Optimise for</label>
+              <select
+                value={objective}
+                onChange={(e) => setObjective(e.target.value as 'lateness' | 'cost')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="lateness">Priority-weighted lateness</option>
+                <option value="cost">Cost</option>
+              </select>
+            </div>
+            <button
+              onClick={() => previewSchedule({ variables: { objective } })}
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Planning…' : 'Preview Plan'}
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+              {error.message}
+            </p>
+          )}
+
+          {plan && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-xs text-gray-500">Orders planned</p>
+                  <p className="text-xl font-bold text-gray-900">{plan.orders.length}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-xs text-gray-500">Planned cost</p>
+                  <p className="text-xl font-bold text-gray-900">${plan.total_cost.toFixed(2)}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-xs text-gray-500">Weighted lateness</p>
+                  <p className="text-xl font-bold text-gray-900">
+                    {plan.weighted_lateness_hours.toFixed(1)}h
+                  </p>
+                </div>
+              </div>
+
+              {plan.orders.length === 0 ? (
+                <p className="text-sm text-gray-500">No pending orders could be planned</p>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {plan.orders.map((order: any) => (
+                    <div key={order.order_id} className="p-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold text-gray-900">{order.order_number}</span>
+                        <span className="text-xs text-gray-500">
+                          {format(new Date(order.scheduled_start), 'MMM dd HH:mm')} –{' '}
+                          {format(new Date(order.scheduled_end), 'MMM dd HH:mm')}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between mt-1 text-xs text-gray-600">
+                        <span>
+                          {order.allocations.map((alloc: any) => alloc.resource_name).join(' • ')}
+                        </span>
+                        <span>
+                          ${order.cost.toFixed(2)}
+                          {order.lateness_hours > 0 && (
+                            <span className="ml-2 text-red-600">
+                              {order.lateness_hours.toFixed(1)}h late
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {plan.unscheduled.length > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-xs font-semibold text-amber-800 mb-1">Could not schedule</p>
+                  <ul className="text-xs text-amber-800 list-disc list-inside">
+                    {plan.unscheduled.map((order: any) => (
+                      <li key={order.order_id}>
+                        {order.order_number}: {order.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {acceptError && (
+            <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+              {acceptError}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={!plan || plan.orders.length === 0 || accepting}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {accepting ? 'Accepting…' : 'Accept Plan'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePlanner;
@@ -0,0 +1,762 @@
+import { useSubscription, useMutation, gql } from '@apollo/client';
+import { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import {
+  TimelineZoom,
+  ZOOM_CONFIG,
+  getTimelineRange,
+  getTimelineTicks,
+  getBarPosition,
+  shiftTimelineAnchor,
+  shiftTime,
+  timeToPercent,
+} from '../utils/timeline';
+import { AllocationWindow, detectAllocationConflicts, parseConflictError } from '../utils/conflicts';
+import { analyseCriticalPath, dependencyIssuesForMove, parseDependencyError } from '../utils/dependencies';
+import { formatHours } from '../utils/downtime';
+import useTimelineDrag, { DragPreview, DragSubject } from '../hooks/useTimelineDrag';
+import SchedulePlanner from './SchedulePlanner';
+import useAuth from '../hooks/useAuth';
+
+const WATCH_SCHEDULE = gql`
+  subscription WatchSchedule($from: timestamptz!, $to: timestamptz!) {
+    resources(order_by: { type: asc, name: asc }) {
+      id
+      name
+      type
+      status
+      resource_allocations(
+        where: {
+          start_time: { _lt: $to }
+          _or: [{ end_time: { _gt: $from } }, { end_time: { _is_null: true } }]
+        }
+        order_by: { start_time: asc }
+      ) {
+        id
+        allocated_quantity
+        start_time
+        end_time
+        order {
+          id
+          order_number
+          product_name
+          status
+          priority
+        }
+      }
+    }
+  }
+`;
+
+const WATCH_SCHEDULED_ORDERS = gql`
+  subscription WatchScheduledOrders($from: timestamptz!, $to: timestamptz!) {
+    production_orders(
+      where: { scheduled_start: { _lt: $to }, scheduled_end: { _gt: $from } }
+      order_by: { scheduled_start: asc }
+    ) {
+      id
+      order_number
+      product_name
+      status
+      priority
+      scheduled_start
+      scheduled_end
+      resource_allocations {
+        id
+        resource_id
+        allocated_quantity
+        start_time
+        end_time
+      }
+    }
+  }
+`;
+
+const WATCH_ORDER_NETWORK = gql`
+  subscription WatchOrderNetwork {
+    order_dependencies {
+      id
+      predecessor_id
+      successor_id
+      dependency_type
+      predecessor {
+        id
+        order_number
+        status
+        scheduled_start
+        scheduled_end
+      }
+      successor {
+        id
+        order_number
+        status
+        scheduled_start
+        scheduled_end
+      }
+    }
+  }
+`;
+
+const RESCHEDULE_ALLOCATION = gql`
+  mutation RescheduleAllocation(
+    $id: uuid!
+    $resource_id: uuid!
+    $start_time: timestamptz!
+    $end_time: timestamptz
+  ) {
+    update_resource_allocations_by_pk(
+      pk_columns: { id: $id }
+      _set: { resource_id: $resource_id, start_time: $start_time, end_time: $end_time }
+    ) {
+      id
+      resource_id
+      start_time
+      end_time
+      updated_at
+    }
+  }
+`;
+
+// Moving an order carries its allocations along in the same transaction
+const RESCHEDULE_ORDER = gql`
+  mutation RescheduleOrder(
+    $id: uuid!
+    $scheduled_start: timestamptz
+    $scheduled_end: timestamptz
+    $allocations: [resource_allocations_updates!]!
+  ) {
+    update_production_orders_by_pk(
+      pk_columns: { id: $id }
+      _set: { scheduled_start: $scheduled_start, scheduled_end: $scheduled_end }
+    ) {
+      id
+      scheduled_start
+      scheduled_end
+      updated_at
+    }
+    update_resource_allocations_many(updates: $allocations) {
+      affected_rows
+    }
+  }
+`;
+
+const UNAVAILABLE_STATUSES = ['maintenance', 'unavailable'];
+const LOCKED_ORDER_STATUSES = ['completed', 'cancelled'];
+
+interface MoveRecord {
+  label: string;
+  undo: () => Promise<unknown>;
+}
+
+interface ScheduleTimelineProps {
+  onSelectOrder: (orderId: string) => void;
+  selectedOrderId: string | null;
+}
+
+const ScheduleTimeline = ({ onSelectOrder, selectedOrderId }: ScheduleTimelineProps) => {
+  const [zoom, setZoom] = useState<TimelineZoom>('day');
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const range = useMemo(() => getTimelineRange(anchor, zoom), [anchor, zoom]);
+  const ticks = useMemo(() => getTimelineTicks(range, zoom), [range, zoom]);
+
+  const variables = { from: range.start.toISOString(), to: range.end.toISOString() };
+  const { data, loading } = useSubscription(WATCH_SCHEDULE, { variables });
+  const { data: orderData } = useSubscription(WATCH_SCHEDULED_ORDERS, { variables });
+  const { data: networkData } = useSubscription(WATCH_ORDER_NETWORK);
+
+  const [rescheduleAllocation] = useMutation(RESCHEDULE_ALLOCATION);
+  const [rescheduleOrder] = useMutation(RESCHEDULE_ORDER);
+  const [history, setHistory] = useState<MoveRecord[]>([]);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const { canPlan } = useAuth();
+
+  const resourcesById = useMemo(() => {
+    const byId: Record<string, any> = {};
+    (data?.resources || []).forEach((resource: any) => {
+      byId[resource.id] = resource;
+    });
+    return byId;
+  }, [data]);
+
+  const allocationsById = useMemo(() => {
+    const byId: Record<string, any> = {};
+    (data?.resources || []).forEach((resource: any) => {
+      resource.resource_allocations.forEach((alloc: any) => {
+        byId[alloc.id] = { ...alloc, resource_id: resource.id };
+      });
+    });
+    return byId;
+  }, [data]);
+
+  const ordersById = useMemo(() => {
+    const byId: Record<string, any> = {};
+    (orderData?.production_orders || []).forEach((order: any) => {
+      byId[order.id] = order;
+    });
+    return byId;
+  }, [orderData]);
+
+  const dependencyLinks = networkData?.order_dependencies || [];
+
+  // Dependent orders may sit outside the visible range, so the network comes
+  // from the dependency subscription, overlaid with the fresher visible orders
+  const networkOrdersById = useMemo(() => {
+    const byId: Record<string, any> = {};
+    (networkData?.order_dependencies || []).forEach((link: any) => {
+      byId[link.predecessor.id] = link.predecessor;
+      byId[link.successor.id] = link.successor;
+    });
+    Object.values(ordersById).forEach((order: any) => {
+      if (byId[order.id]) byId[order.id] = order;
+    });
+    return byId;
+  }, [networkData, ordersById]);
+
+  const criticalPath = useMemo(
+    () => analyseCriticalPath(Object.values(networkOrdersById), networkData?.order_dependencies || []),
+    [networkOrdersById, networkData]
+  );
+
+  const toWindows = (resourceId: string): AllocationWindow[] =>
+    (resourcesById[resourceId]?.resource_allocations || []).map((alloc: any) => ({
+      id: alloc.id,
+      order_id: alloc.order.id,
+      order_number: alloc.order.order_number,
+      order_status: alloc.order.status,
+      allocated_quantity: alloc.allocated_quantity,
+      start_time: alloc.start_time,
+      end_time: alloc.end_time,
+    }));
+
+  // Returns a reason the move is not allowed, or null when it may be committed.
+  // The database triggers re-check all of this when the mutation lands.
+  const validateAllocationMove = (
+    alloc: any,
+    orderId: string,
+    resourceId: string,
+    startTime: string,
+    endTime: string | null
+  ) => {
+    const resource = resourcesById[resourceId];
+    if (!resource) return 'Drop the allocation onto a resource row';
+    if (UNAVAILABLE_STATUSES.includes(resource.status)) {
+      return `${resource.name} is ${resource.status} and cannot take work`;
+    }
+    const conflicts = detectAllocationConflicts(
+      {
+        id: alloc.id,
+        order_id: orderId,
+        allocated_quantity: alloc.allocated_quantity,
+        start_time: startTime,
+        end_time: endTime,
+      },
+      toWindows(resourceId),
+      resource
+    );
+    return conflicts.length > 0 ? conflicts.map((conflict) => conflict.message).join('; ') : null;
+  };
+
+  const describeMoveError = (error: any, fallback: string) => {
+    const conflicts = parseConflictError(error?.message);
+    if (conflicts) return conflicts.join('; ');
+    return parseDependencyError(error?.message) || error?.message || fallback;
+  };
+
+  const commitMove = async (label: string, apply: () => Promise<unknown>, undo: () => Promise<unknown>) => {
+    try {
+      await apply();
+      setHistory((prev) => [...prev, { label, undo }]);
+    } catch (error: any) {
+      console.error('Error rescheduling:', error);
+      setMoveError(describeMoveError(error, 'Failed to reschedule'));
+    }
+  };
+
+  const moveAllocation = (preview: DragPreview) => {
+    const alloc = allocationsById[preview.subject.id];
+    if (!alloc) return;
+    const targetResourceId = preview.targetResourceId || alloc.resource_id;
+    const targetResource = resourcesById[targetResourceId];
+    const startTime = shiftTime(alloc.start_time, preview.deltaMs)!;
+    const endTime = shiftTime(alloc.end_time, preview.deltaMs);
+
+    if (targetResource && targetResource.type !== preview.subject.resourceType) {
+      setMoveError(`A ${preview.subject.resourceType} allocation cannot move onto a ${targetResource.type}`);
+      return;
+    }
+    const problem = validateAllocationMove(alloc, alloc.order.id, targetResourceId, startTime, endTime);
+    if (problem) {
+      setMoveError(problem);
+      return;
+    }
+
+    const original = {
+      id: alloc.id,
+      resource_id: alloc.resource_id,
+      start_time: alloc.start_time,
+      end_time: alloc.end_time,
+    };
+    const moved = { id: alloc.id, resource_id: targetResourceId, start_time: startTime, end_time: endTime };
+
+    commitMove(
+      `${alloc.order.order_number} on ${targetResource?.name}`,
+      () => rescheduleAllocation({ variables: moved }),
+      () => rescheduleAllocation({ variables: original })
+    );
+  };
+
+  const moveOrder = (preview: DragPreview) => {
+    const order = ordersById[preview.subject.id];
+    if (!order) return;
+
+    for (const alloc of order.resource_allocations) {
+      const problem = validateAllocationMove(
+        alloc,
+        order.id,
+        alloc.resource_id,
+        shiftTime(alloc.start_time, preview.deltaMs)!,
+        shiftTime(alloc.end_time, preview.deltaMs)
+      );
+      if (problem) {
+        setMoveError(problem);
+        return;
+      }
+    }
+
+    const dependencyIssues = dependencyIssuesForMove(
+      order,
+      shiftTime(order.scheduled_start, preview.deltaMs),
+      shiftTime(order.scheduled_end, preview.deltaMs),
+      dependencyLinks,
+      networkOrdersById
+    );
+    if (dependencyIssues.length > 0) {
+      setMoveError(dependencyIssues.join('; '));
+      return;
+    }
+
+    const buildVariables = (deltaMs: number) => ({
+      id: order.id,
+      scheduled_start: shiftTime(order.scheduled_start, deltaMs),
+      scheduled_end: shiftTime(order.scheduled_end, deltaMs),
+      allocations: order.resource_allocations.map((alloc: any) => ({
+        where: { id: { _eq: alloc.id } },
+        _set: {
+          start_time: shiftTime(alloc.start_time, deltaMs),
+          end_time: shiftTime(alloc.end_time, deltaMs),
+        },
+      })),
+    });
+    const moved = buildVariables(preview.deltaMs);
+    const original = {
+      id: order.id,
+      scheduled_start: order.scheduled_start,
+      scheduled_end: order.scheduled_end,
+      allocations: order.resource_allocations.map((alloc: any) => ({
+        where: { id: { _eq: alloc.id } },
+        _set: { start_time: alloc.start_time, end_time: alloc.end_time },
+      })),
+    };
+
+    commitMove(
+      order.order_number,
+      () => rescheduleOrder({ variables: moved }),
+      () => rescheduleOrder({ variables: original })
+    );
+  };
+
+  const { preview, startDrag } = useTimelineDrag({
+    range,
+    zoom,
+    onDrop: (next) => {
+      setMoveError(null);
+      if (next.subject.kind === 'order') {
+        moveOrder(next);
+      } else {
+        moveAllocation(next);
+      }
+    },
+    onClick: (subject: DragSubject) => onSelectOrder(subject.orderId),
+  });
+
+  const handleUndo = async () => {
+    const last = history[history.length - 1];
+    if (!last) return;
+    setMoveError(null);
+    try {
+      await last.undo();
+      setHistory((prev) => prev.slice(0, -1));
+    } catch (error: any) {
+      console.error('Error undoing move:', error);
+      setMoveError(describeMoveError(error, 'Failed to undo'));
+    }
+  };
+
+  const groupedResources = useMemo(() => {
+    const grouped: Record<string, any[]> = {};
+    (data?.resources || []).forEach((resource: any) => {
+      if (!grouped[resource.type]) {
+        grouped[resource.type] = [];
+      }
+      grouped[resource.type].push(resource);
+    });
+    return grouped;
+  }, [data]);
+
+  const getStatusColor = (status: string) => {
+    const colors = {
+      pending: 'bg-gray-400',
+      scheduled: 'bg-blue-500',
+      in_progress: 'bg-yellow-500',
+      completed: 'bg-green-500',
+      cancelled: 'bg-red-400',
+    };
+    return colors[status as keyof typeof colors] || colors.pending;
+  };
+
+  const getPriorityRing = (priority: number) => {
+    if (priority >= 4) return 'ring-2 ring-red-600';
+    if (priority >= 3) return 'ring-2 ring-orange-400';
+    return '';
+  };
+
+  const getTypeIcon = (type: string) => {
+    const icons = {
+      machine: '🏭',
+      worker: '👷',
+      material: '📦',
+    };
+    return icons[type as keyof typeof icons] || '📋';
+  };
+
+  const nowOffset = timeToPercent(new Date(), range);
+
+  const renderBar = (
+    key: string,
+    subject: DragSubject,
+    order: any,
+    startTime: string,
+    endTime: string | null,
+    tooltip: string
+  ) => {
+    const isDragged = preview?.subject.kind === subject.kind && preview.subject.id === subject.id;
+    const position = getBarPosition(startTime, endTime, range);
+    if (!position) return null;
+    const locked = !canPlan || LOCKED_ORDER_STATUSES.includes(order.status);
+    const path = criticalPath[order.id];
+    return (
+      <button
+        key={key}
+        onPointerDown={(e) => (locked ? undefined : startDrag(e, subject))}
+        onClick={() => locked && onSelectOrder(order.id)}
+        title={
+          path
+            ? `${tooltip}\n${path.critical ? 'Critical path' : `Slack ${formatHours(path.slackMs / (1000 * 60 * 60))}`}`
+            : tooltip
+        }
+        className={`
+          absolute top-2 bottom-2 rounded px-2 text-left text-xs font-medium text-white truncate select-none
+          ${locked ? 'cursor-pointer' : 'cursor-grab'}
+          ${getStatusColor(order.status)}
+          ${getPriorityRing(order.priority)}
+          ${selectedOrderId === order.id ? 'outline outline-2 outline-offset-1 outline-primary-700' : ''}
+          ${path?.critical ? 'border-b-4 border-red-900' : ''}
+          ${isDragged ? 'opacity-40' : ''}
+        `}
+        style={{ left: `${position.left}%`, width: `${position.width}%` }}
+      >
+        {path?.critical && '◆ '}
+        {order.order_number}
+      </button>
+    );
+  };
+
+  // Dashed outline showing where the dragged bar will land
+  const renderGhost = (startTime: string, endTime: string | null) => {
+    if (!preview) return null;
+    const position = getBarPosition(
+      shiftTime(startTime, preview.deltaMs)!,
+      shiftTime(endTime, preview.deltaMs),
+      range
+    );
+    if (!position) return null;
+    return (
+      <div
+        className="absolute top-2 bottom-2 rounded border-2 border-dashed border-primary-700 bg-primary-100 bg-opacity-60 pointer-events-none z-20"
+        style={{ left: `${position.left}%`, width: `${position.width}%` }}
+      />
+    );
+  };
+
+  const formatWindow = (startTime: string, endTime: string | null) =>
+    `${format(new Date(startTime), 'MMM dd HH:mm')}${
+      endTime ? ` – ${format(new Date(endTime), 'MMM dd HH:mm')}` : ''
+    }`;
+
+  const renderGridLines = () => (
+    <>
+      {ticks.map((tick) => (
+        <div
+          key={tick.date.toISOString()}
+          className="absolute top-0 bottom-0 border-l border-gray-100"
+          style={{ left: `${tick.offset}%` }}
+        />
+      ))}
+
+      {nowOffset >= 0 && nowOffset <= 100 && (
+        <div
+          className="absolute top-0 bottom-0 border-l-2 border-red-400 z-10"
+          style={{ left: `${nowOffset}%` }}
+        />
+      )}
+    </>
+  );
+
+  const draggedAllocation =
+    preview?.subject.kind === 'allocation' ? allocationsById[preview.subject.id] : null;
+  const draggedOrder = preview?.subject.kind === 'order' ? ordersById[preview.subject.id] : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Schedule</h2>
+            <p className="text-xs text-gray-500 mt-1">
+              {format(range.start, 'MMM dd, yyyy HH:mm')} – {format(range.end, 'MMM dd, yyyy HH:mm')}
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            {canPlan && (
+              <button
+                onClick={() => setShowPlanner(true)}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors"
+              >
+                Auto-Schedule
+              </button>
+            )}
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              {(Object.keys(ZOOM_CONFIG) as TimelineZoom[]).map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setZoom(level)}
+                  className={`px-3 py-1.5 text-sm font-medium transition-colors ${
+                    zoom === level ? 'bg-primary-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {ZOOM_CONFIG[level].label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setAnchor((prev) => shiftTimelineAnchor(prev, zoom, -1))}
+              className="px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              ◀
+            </button>
+            <button
+              onClick={() => setAnchor(new Date())}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              Now
+            </button>
+            <button
+              onClick={() => setAnchor((prev) => shiftTimelineAnchor(prev, zoom, 1))}
+              className="px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              ▶
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {(moveError || history.length > 0) && (
+        <div className="px-6 py-2 border-b border-gray-200 flex items-center justify-between text-sm">
+          {moveError ? (
+            <span className="text-red-600">{moveError}</span>
+          ) : (
+            <span className="text-gray-600">Moved {history[history.length - 1].label}</span>
+          )}
+          <div className="flex items-center space-x-2">
+            {moveError && (
+              <button
+                onClick={() => setMoveError(null)}
+                className="px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded"
+              >
+                Dismiss
+              </button>
+            )}
+            {history.length > 0 && (
+              <button
+                onClick={handleUndo}
+                className="px-2 py-1 text-xs font-medium text-primary-600 hover:bg-primary-50 rounded"
+              >
+                Undo ({history.length})
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {loading && !data ? (
+        <div className="p-8 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="min-w-[800px]">
+            {/* Time Axis */}
+            <div className="flex border-b border-gray-200 bg-gray-50">
+              <div className="w-48 flex-shrink-0 px-4 py-2 text-xs font-medium text-gray-500">
+                Resource
+              </div>
+              <div className="relative flex-1 h-8">
+                {ticks.map((tick) => (
+                  <span
+                    key={tick.date.toISOString()}
+                    className="absolute top-2 text-xs text-gray-500 -translate-x-1/2"
+                    style={{ left: `${tick.offset}%` }}
+                  >
+                    {tick.label}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Orders */}
+            {(orderData?.production_orders || []).length > 0 && (
+              <div>
+                <div className="px-4 py-2 bg-gray-100 border-b border-gray-200 text-sm font-semibold text-gray-700">
+                  📋 Orders
+                </div>
+                {orderData.production_orders.map((order: any) => (
+                  <div key={order.id} className="flex border-b border-gray-100">
+                    <div className="w-48 flex-shrink-0 px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900 truncate">{order.order_number}</p>
+                      <p className="text-xs text-gray-500 truncate">{order.product_name}</p>
+                      {dependencyLinks
+                        .filter((link: any) => link.successor_id === order.id)
+                        .map((link: any) => (
+                          <p key={link.id} className="text-xs text-gray-400 truncate">
+                            after {link.predecessor.order_number}
+                          </p>
+                        ))}
+                    </div>
+                    <div className="relative flex-1 h-14">
+                      {renderGridLines()}
+                      {renderBar(
+                        order.id,
+                        { kind: 'order', id: order.id, orderId: order.id },
+                        order,
+                        order.scheduled_start,
+                        order.scheduled_end,
+                        `${order.order_number} • ${order.product_name}\n${formatWindow(
+                          order.scheduled_start,
+                          order.scheduled_end
+                        )}\nPriority ${order.priority}`
+                      )}
+                      {draggedOrder?.id === order.id &&
+                        renderGhost(order.scheduled_start, order.scheduled_end)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {Object.entries(groupedResources).map(([type, typeResources]) => (
+              <div key={type}>
+                {/* Type Header */}
+                <div className="px-4 py-2 bg-gray-100 border-b border-gray-200 text-sm font-semibold text-gray-700 capitalize">
+                  {getTypeIcon(type)} {type}s
+                </div>
+
+                {typeResources.map((resource: any) => {
+                  const isDropTarget =
+                    draggedAllocation && preview?.targetResourceId === resource.id;
+                  return (
+                    <div key={resource.id} className="flex border-b border-gray-100">
+                      <div className="w-48 flex-shrink-0 px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900 truncate">{resource.name}</p>
+                        <p
+                          className={`text-xs ${
+                            UNAVAILABLE_STATUSES.includes(resource.status) ? 'text-red-600' : 'text-gray-500'
+                          }`}
+                        >
+                          {resource.status.replace('_', ' ')}
+                        </p>
+                      </div>
+                      <div
+                        data-resource-id={resource.id}
+                        className={`relative flex-1 h-14 ${
+                          UNAVAILABLE_STATUSES.includes(resource.status) ? 'bg-red-50' : ''
+                        } ${isDropTarget ? 'bg-primary-50' : ''}`}
+                      >
+                        {renderGridLines()}
+
+                        {resource.resource_allocations.map((alloc: any) =>
+                          renderBar(
+                            alloc.id,
+                            {
+                              kind: 'allocation',
+                              id: alloc.id,
+                              orderId: alloc.order.id,
+                              resourceId: resource.id,
+                              resourceType: resource.type,
+                            },
+                            alloc.order,
+                            alloc.start_time,
+                            alloc.end_time,
+                            `${alloc.order.order_number} • ${alloc.order.product_name}\n${formatWindow(
+                              alloc.start_time,
+                              alloc.end_time
+                            )}\nQty: ${alloc.allocated_quantity} • Priority ${alloc.order.priority}`
+                          )
+                        )}
+
+                        {isDropTarget &&
+                          renderGhost(draggedAllocation.start_time, draggedAllocation.end_time)}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="px-6 py-3 border-t border-gray-200 flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        {['pending', 'scheduled', 'in_progress', 'completed', 'cancelled'].map((status) => (
+          <div key={status} className="flex items-center space-x-1">
+            <span className={`w-3 h-3 rounded ${getStatusColor(status)}`} />
+            <span className="capitalize">{status.replace('_', ' ')}</span>
+          </div>
+        ))}
+        <div className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-gray-200 ring-2 ring-red-600" />
+          <span>Priority 4–5</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-gray-200 ring-2 ring-orange-400" />
+          <span>Priority 3</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-gray-200 border-b-4 border-red-900" />
+          <span>◆ Critical path</span>
+        </div>
+        <span className="ml-auto text-gray-400">
+          Drag bars to reschedule; drop allocations on another row to reassign
+        </span>
+      </div>
+
+      {showPlanner && <SchedulePlanner onClose={() => setShowPlanner(false)} />}
+    </div>
+  );
+};
+
+export default ScheduleTimeline;
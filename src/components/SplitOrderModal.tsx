@@ -0,0 +1,172 @@
+import { useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+  childOrderNumber,
+  evenSplit,
+  parseLineageError,
+  splitWindow,
+  toPostgresArray,
+  validateSplit,
+} from '../utils/orderLineage';
+import { parseConflictError } from '../utils/conflicts';
+
+// Runs split_production_order (init.sql) in one transaction
+const SPLIT_PRODUCTION_ORDER = gql`
+  mutation SplitProductionOrder($target_id: uuid!, $quantities: _int4!) {
+    split_production_order(args: { target_id: $target_id, quantities: $quantities }) {
+      id
+      order_number
+      quantity
+      status
+      scheduled_start
+      scheduled_end
+    }
+  }
+`;
+
+interface SplitOrderModalProps {
+  order: any;
+  onClose: () => void;
+  onSplit?: (firstChildId: string) => void;
+}
+
+const SplitOrderModal = ({ order, onClose, onSplit }: SplitOrderModalProps) => {
+  const [quantities, setQuantities] = useState<string[]>(() => evenSplit(order.quantity, 2).map(String));
+  const [error, setError] = useState<string | null>(null);
+  const [splitOrder, { loading }] = useMutation(SPLIT_PRODUCTION_ORDER);
+
+  const parsed = quantities.map(Number);
+  const validationError = validateSplit(order.quantity, parsed);
+  const slices = parsed.map((quantity, index) =>
+    splitWindow(
+      order.scheduled_start,
+      order.scheduled_end,
+      parsed.slice(0, index).reduce((sum, value) => sum + (value || 0), 0),
+      quantity || 0,
+      order.quantity
+    )
+  );
+
+  const setParts = (parts: number) => setQuantities(evenSplit(order.quantity, parts).map(String));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    try {
+      const { data } = await splitOrder({
+        variables: { target_id: order.id, quantities: toPostgresArray(parsed) },
+      });
+      onClose();
+      const [first] = data?.split_production_order || [];
+      if (first) onSplit?.(first.id);
+    } catch (error: any) {
+      console.error('Error splitting order:', error);
+      const conflicts = parseConflictError(error?.message);
+      setError(
+        conflicts
+          ? conflicts.join('; ')
+          : parseLineageError(error?.message) || error?.message || 'Failed to split order'
+      );
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-lg"
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Split {order.order_number}</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {order.quantity} × {order.product_name}
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Parts</label>
+            <select
+              value={quantities.length}
+              onChange={(e) => setParts(Number(e.target.value))}
+              className={inputClass}
+            >
+              {[2, 3, 4, 5, 6]
+                .filter((parts) => parts <= order.quantity)
+                .map((parts) => (
+                  <option key={parts} value={parts}>
+                    {parts} orders
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            {quantities.map((quantity, index) => {
+              const slice = slices[index];
+              return (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <span className="col-span-4 text-sm font-medium text-gray-900">
+                    {childOrderNumber(order.order_number, index)}
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={quantity}
+                    onChange={(e) =>
+                      setQuantities((prev) => prev.map((value, i) => (i === index ? e.target.value : value)))
+                    }
+                    className={`${inputClass} col-span-3`}
+                  />
+                  <span className="col-span-5 text-xs text-gray-500">
+                    {slice.start && slice.end
+                      ? `${format(new Date(slice.start), 'MMM dd HH:mm')} – ${format(new Date(slice.end), 'MMM dd HH:mm')}`
+                      : 'Not scheduled'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The {order.resource_allocations?.length || 0} allocation(s) are sliced across the new orders in
+            proportion to their quantity, and {order.order_number} is cancelled.
+          </p>
+
+          {(error || validationError) && (
+            <p className="text-sm text-red-600">{error || validationError}</p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={loading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading || Boolean(validationError)}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Splitting…' : `Split into ${quantities.length}`}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SplitOrderModal;
@@ -0,0 +1,199 @@
+import { useMutation, gql } from '@apollo/client';
+import { useState } from 'react';
+import { availableStock } from '../utils/inventory';
+
+const RECORD_STOCK_MOVEMENT = gql`
+  mutation RecordStockMovement(
+    $resource_id: uuid!
+    $movement_type: stock_movement_type!
+    $quantity: numeric!
+    $note: String
+  ) {
+    insert_stock_movements_one(
+      object: { resource_id: $resource_id, movement_type: $movement_type, quantity: $quantity, note: $note }
+    ) {
+      id
+      on_hand_after
+      reserved_after
+      resource {
+        id
+        stock_on_hand
+        stock_reserved
+      }
+    }
+  }
+`;
+
+const UPDATE_REORDER_POINT = gql`
+  mutation UpdateReorderPoint($id: uuid!, $reorder_point: numeric) {
+    update_resources_by_pk(pk_columns: { id: $id }, _set: { reorder_point: $reorder_point }) {
+      id
+      reorder_point
+    }
+  }
+`;
+
+interface StockAdjustmentModalProps {
+  resource: any;
+  onClose: () => void;
+}
+
+const StockAdjustmentModal = ({ resource, onClose }: StockAdjustmentModalProps) => {
+  const [movementType, setMovementType] = useState<'receipt' | 'adjustment'>('receipt');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [reorderPoint, setReorderPoint] = useState(
+    resource.reorder_point === null || resource.reorder_point === undefined ? '' : String(resource.reorder_point)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const [recordMovement, { loading: recording }] = useMutation(RECORD_STOCK_MOVEMENT);
+  const [updateReorderPoint, { loading: savingReorderPoint }] = useMutation(UPDATE_REORDER_POINT);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const amount = Number(quantity);
+    if (!quantity || Number.isNaN(amount) || amount === 0) {
+      setError('Enter a quantity');
+      return;
+    }
+    if (movementType === 'receipt' && amount < 0) {
+      setError('Receipts must be positive; use an adjustment to write stock off');
+      return;
+    }
+
+    try {
+      await recordMovement({
+        variables: {
+          resource_id: resource.id,
+          movement_type: movementType,
+          quantity: amount,
+          note: note.trim() || null,
+        },
+      });
+      onClose();
+    } catch (error: any) {
+      console.error('Error recording stock movement:', error);
+      setError(error?.message || 'Failed to record stock movement');
+    }
+  };
+
+  const handleSaveReorderPoint = async () => {
+    setError(null);
+    if (Number(reorderPoint) < 0) {
+      setError('Reorder point cannot be negative');
+      return;
+    }
+    try {
+      await updateReorderPoint({
+        variables: { id: resource.id, reorder_point: reorderPoint === '' ? null : Number(reorderPoint) },
+      });
+    } catch (error: any) {
+      console.error('Error updating reorder point:', error);
+      setError(error?.message || 'Failed to update reorder point');
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-lg border border-gray-200 w-full max-w-md"
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Manage Stock – {resource.name}</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {Number(resource.stock_on_hand)} on hand • {Number(resource.stock_reserved)} reserved •{' '}
+            {availableStock(resource)} available
+          </p>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Movement</label>
+              <select
+                value={movementType}
+                onChange={(e) => setMovementType(e.target.value as 'receipt' | 'adjustment')}
+                className={inputClass}
+              >
+                <option value="receipt">Receipt</option>
+                <option value="adjustment">Adjustment (±)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+              <input
+                type="number"
+                step="0.01"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={movementType === 'receipt' ? 'e.g. PO 4471 from supplier' : 'e.g. Stock count correction'}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reorder Point</label>
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={reorderPoint}
+                onChange={(e) => setReorderPoint(e.target.value)}
+                placeholder="No alert"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={handleSaveReorderPoint}
+                disabled={savingReorderPoint}
+                className="px-3 py-2 text-sm font-medium text-primary-600 hover:bg-primary-50 rounded-lg disabled:opacity-50 whitespace-nowrap"
+              >
+                {savingReorderPoint ? 'Saving…' : 'Save'}
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={recording}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={recording}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-500 hover:bg-primary-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {recording ? 'Saving…' : 'Record Movement'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default StockAdjustmentModal;
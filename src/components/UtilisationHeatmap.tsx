@@ -0,0 +1,116 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { formatHours } from '../utils/downtime';
+import { DateRange, bucketKey, bucketStarts } from '../utils/trends';
+import { UtilisationBucket, formatPercent, heatColor, utilisationPercent } from '../utils/utilisation';
+
+interface UtilisationHeatmapProps {
+  // Daily rows from resource_utilisation_trend
+  rows: UtilisationBucket[];
+  range: DateRange;
+  threshold: number;
+}
+
+// Resource × day grid; a resource whose utilisation over the whole range is
+// at or above the threshold is a bottleneck
+const UtilisationHeatmap = ({ rows, range, threshold }: UtilisationHeatmapProps) => {
+  const days = useMemo(() => bucketStarts(range, 'day'), [range]);
+
+  const resources = useMemo(() => {
+    const byResource: Record<
+      string,
+      { id: string; name: string; type: string; booked: number; available: number; days: Record<string, UtilisationBucket> }
+    > = {};
+    rows.forEach((row) => {
+      if (!byResource[row.resource_id]) {
+        byResource[row.resource_id] = {
+          id: row.resource_id,
+          name: row.resource?.name || row.resource_id,
+          type: row.resource_type,
+          booked: 0,
+          available: 0,
+          days: {},
+        };
+      }
+      const entry = byResource[row.resource_id];
+      entry.booked += Number(row.booked_hours);
+      entry.available += Number(row.available_hours);
+      entry.days[bucketKey(row.bucket)] = row;
+    });
+    return Object.values(byResource)
+      .map((entry) => ({ ...entry, percent: utilisationPercent(entry.booked, entry.available) }))
+      .sort((a, b) => (a.type === b.type ? (a.name < b.name ? -1 : 1) : a.type < b.type ? -1 : 1));
+  }, [rows]);
+
+  const bottlenecks = resources.filter((resource) => resource.percent !== null && resource.percent >= threshold);
+
+  if (resources.length === 0) {
+    return <p className="text-sm text-gray-500">No machines or workers to show</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {bottlenecks.length > 0 ? (
+        <p className="text-sm text-red-700">
+          ⚠ {bottlenecks.length} bottleneck{bottlenecks.length === 1 ? '' : 's'}:{' '}
+          {bottlenecks.map((resource) => `${resource.name} (${formatPercent(resource.percent)})`).join(', ')}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500">No resource is above {threshold}% over this period</p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th className="sticky left-0 bg-white text-left font-medium text-gray-500 pr-3">Resource</th>
+              <th className="font-medium text-gray-500 px-2">Period</th>
+              {days.map((day) => (
+                <th key={day.toISOString()} className="font-normal text-gray-500 w-9">
+                  {days.length > 31 ? format(day, 'dd') : format(day, 'EEE dd')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {resources.map((resource) => {
+              const bottleneck = resource.percent !== null && resource.percent >= threshold;
+              return (
+                <tr key={resource.id}>
+                  <td
+                    className={`sticky left-0 bg-white pr-3 whitespace-nowrap ${
+                      bottleneck ? 'font-semibold text-red-700' : 'text-gray-900'
+                    }`}
+                  >
+                    {resource.name}
+                    <span className="text-gray-400 font-normal"> • {resource.type}</span>
+                  </td>
+                  <td className={`px-2 text-center font-medium rounded ${heatColor(resource.percent, threshold)}`}>
+                    {formatPercent(resource.percent)}
+                  </td>
+                  {days.map((day) => {
+                    const cell = resource.days[bucketKey(day)];
+                    const booked = Number(cell?.booked_hours || 0);
+                    const available = Number(cell?.available_hours || 0);
+                    const percent = cell ? utilisationPercent(booked, available) : null;
+                    return (
+                      <td
+                        key={day.toISOString()}
+                        title={`${resource.name}, ${format(day, 'EEE MMM dd')}: ${formatHours(booked)} booked of ${formatHours(available)} available`}
+                        className={`h-7 text-center rounded ${heatColor(percent, threshold)}`}
+                      >
+                        {percent !== null && percent > 0 ? Math.round(percent) : ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UtilisationHeatmap;
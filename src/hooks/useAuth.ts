@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import { getSession, subscribeSession } from '../auth/session';
+
+// UI-side mirror of the Hasura permissions: hide what the role cannot do.
+// Hasura still enforces every rule server-side.
+const useAuth = () => {
+  const session = useSyncExternalStore(subscribeSession, getSession);
+  const role = session?.role;
+
+  return {
+    session,
+    canPlan: role === 'planner',
+    canChangeStatus: role === 'planner' || role === 'operator',
+    // Operators report issues and output only for the worker or machine
+    // they are signed in as (x-hasura-resource-id)
+    canReportOn: (resourceId: string) =>
+      role === 'planner' || (role === 'operator' && session?.resourceId === resourceId),
+  };
+};
+
+export default useAuth;
@@ -0,0 +1,10 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getPathname, parseRoute, subscribeRoute } from '../utils/appRoutes';
+
+// The route for the current URL, or null when the path matches nothing
+const useRoute = () => {
+  const pathname = useSyncExternalStore(subscribeRoute, getPathname);
+  return useMemo(() => parseRoute(pathname), [pathname]);
+};
+
+export default useRoute;
@@ -0,0 +1,110 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TimelineRange, TimelineZoom, pixelsToSnappedMs } from '../utils/timeline';
+
+export interface DragSubject {
+  kind: 'allocation' | 'order';
+  id: string;
+  orderId: string;
+  resourceId?: string;
+  resourceType?: string;
+}
+
+export interface DragPreview {
+  subject: DragSubject;
+  deltaMs: number;
+  targetResourceId?: string;
+}
+
+interface DragOrigin {
+  subject: DragSubject;
+  startX: number;
+  trackWidth: number;
+  moved: boolean;
+}
+
+interface UseTimelineDragOptions {
+  range: TimelineRange;
+  zoom: TimelineZoom;
+  onDrop: (preview: DragPreview) => void;
+  onClick: (subject: DragSubject) => void;
+}
+
+// Rows that accept dropped allocations carry data-resource-id on their track element
+const findResourceIdAt = (x: number, y: number) => {
+  const element = document.elementFromPoint(x, y) as HTMLElement | null;
+  return element?.closest<HTMLElement>('[data-resource-id]')?.dataset.resourceId;
+};
+
+const useTimelineDrag = ({ range, zoom, onDrop, onClick }: UseTimelineDragOptions) => {
+  const [preview, setPreview] = useState<DragPreview | null>(null);
+  const originRef = useRef<DragOrigin | null>(null);
+
+  // Keep the latest callbacks without re-binding the window listeners mid-drag
+  const callbacksRef = useRef({ onDrop, onClick, range, zoom });
+  callbacksRef.current = { onDrop, onClick, range, zoom };
+
+  const startDrag = useCallback((e: React.PointerEvent<HTMLElement>, subject: DragSubject) => {
+    if (e.button !== 0) return;
+    const track = e.currentTarget.parentElement;
+    originRef.current = {
+      subject,
+      startX: e.clientX,
+      trackWidth: track ? track.getBoundingClientRect().width : 0,
+      moved: false,
+    };
+    setPreview({ subject, deltaMs: 0, targetResourceId: subject.resourceId });
+  }, []);
+
+  const dragging = preview !== null;
+
+  useEffect(() => {
+    if (!dragging) return;
+
+    const buildPreview = (e: PointerEvent): DragPreview | null => {
+      const origin = originRef.current;
+      if (!origin) return null;
+      const { range, zoom } = callbacksRef.current;
+      const deltaMs = pixelsToSnappedMs(e.clientX - origin.startX, origin.trackWidth, range, zoom);
+      const targetResourceId =
+        origin.subject.kind === 'allocation'
+          ? findResourceIdAt(e.clientX, e.clientY) || origin.subject.resourceId
+          : undefined;
+      return { subject: origin.subject, deltaMs, targetResourceId };
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      const origin = originRef.current;
+      if (!origin) return;
+      if (Math.abs(e.clientX - origin.startX) > 3) origin.moved = true;
+      const next = buildPreview(e);
+      if (next) setPreview(next);
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      const origin = originRef.current;
+      const final = buildPreview(e);
+      originRef.current = null;
+      setPreview(null);
+      if (!origin || !final) return;
+
+      const changed =
+        final.deltaMs !== 0 || final.targetResourceId !== origin.subject.resourceId;
+      if (origin.moved && changed) {
+        callbacksRef.current.onDrop(final);
+      } else if (!origin.moved) {
+        callbacksRef.current.onClick(origin.subject);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [dragging]);
+
+  return { preview, startDrag };
+};
+
+export default useTimelineDrag;
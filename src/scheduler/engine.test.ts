@@ -0,0 +1,384 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SchedulerInput,
+  SchedulerOrder,
+  SchedulerResource,
+  findEarliestSlot,
+  planSchedule,
+  sortOrdersForObjective,
+} from './engine';
+
+const NOW = '2026-01-05T08:00:00.000Z';
+const HOUR = 1000 * 60 * 60;
+
+const at = (hours: number) => new Date(new Date(NOW).getTime() + hours * HOUR).toISOString();
+
+const order = (overrides: Partial<SchedulerOrder> & { id: string }): SchedulerOrder => ({
+  order_number: overrides.id.toUpperCase(),
+  quantity: 40,
+  priority: 1,
+  due: null,
+  status: 'pending',
+  ...overrides,
+});
+
+const machine = (overrides: Partial<SchedulerResource> & { id: string }): SchedulerResource => ({
+  name: overrides.id,
+  type: 'machine',
+  status: 'available',
+  capacity: 80,
+  hourly_cost: 50,
+  ...overrides,
+});
+
+const worker = (overrides: Partial<SchedulerResource> & { id: string }): SchedulerResource => ({
+  name: overrides.id,
+  type: 'worker',
+  status: 'available',
+  capacity: 8,
+  hourly_cost: 30,
+  ...overrides,
+});
+
+const input = (overrides: Partial<SchedulerInput>): SchedulerInput => ({
+  orders: [],
+  resources: [machine({ id: 'm1' }), worker({ id: 'w1' })],
+  allocations: [],
+  now: NOW,
+  objective: 'lateness',
+  ...overrides,
+});
+
+describe('findEarliestSlot', () => {
+  it('starts at `from` when every timeline is free', () => {
+    expect(findEarliestSlot([[], []], 0, 4 * HOUR)).toBe(0);
+  });
+
+  it('waits for the latest busy interval on any timeline', () => {
+    const machineBusy = [{ start: 0, end: 2 * HOUR }];
+    const workerBusy = [{ start: 2 * HOUR, end: 3 * HOUR }];
+    expect(findEarliestSlot([machineBusy, workerBusy], 0, 4 * HOUR)).toBe(3 * HOUR);
+  });
+
+  it('fits into a gap that is long enough', () => {
+    const busy = [
+      { start: 0, end: HOUR },
+      { start: 3 * HOUR, end: 4 * HOUR },
+      { start: 6 * HOUR, end: 10 * HOUR },
+    ];
+    expect(findEarliestSlot([busy], 0, 2 * HOUR)).toBe(HOUR);
+    expect(findEarliestSlot([busy], 0, 3 * HOUR)).toBe(10 * HOUR);
+  });
+
+  it('returns null behind an open-ended interval', () => {
+    expect(findEarliestSlot([[{ start: 0, end: Infinity }]], 0, HOUR)).toBeNull();
+  });
+});
+
+describe('sortOrdersForObjective', () => {
+  const orders = [
+    order({ id: 'po-1', priority: 1, due: at(48) }),
+    order({ id: 'po-2', priority: 1, due: at(24) }),
+    order({ id: 'po-3', priority: 5, due: at(96) }),
+  ];
+
+  it('ranks higher priority first under both objectives', () => {
+    expect(sortOrdersForObjective(orders, 'lateness')[0].id).toBe('po-3');
+    expect(sortOrdersForObjective(orders, 'cost')[0].id).toBe('po-3');
+  });
+
+  it('breaks priority ties by due date for lateness and by order number for cost', () => {
+    expect(sortOrdersForObjective(orders, 'lateness').map((o) => o.id)).toEqual(['po-3', 'po-2', 'po-1']);
+    expect(sortOrdersForObjective(orders, 'cost').map((o) => o.id)).toEqual(['po-3', 'po-1', 'po-2']);
+  });
+
+  it('does not reorder its input', () => {
+    sortOrdersForObjective(orders, 'lateness');
+    expect(orders.map((o) => o.id)).toEqual(['po-1', 'po-2', 'po-3']);
+  });
+});
+
+describe('planSchedule', () => {
+  it('gives the same plan for the same input, whatever the row order', () => {
+    const orders = [order({ id: 'po-1' }), order({ id: 'po-2', due: at(10) }), order({ id: 'po-3', priority: 3 })];
+    const resources = [
+      machine({ id: 'm1' }),
+      machine({ id: 'm2', capacity: 40, hourly_cost: 20 }),
+      worker({ id: 'w1' }),
+      worker({ id: 'w2', hourly_cost: 25 }),
+    ];
+
+    const plan = planSchedule(input({ orders, resources }));
+    expect(planSchedule(input({ orders, resources }))).toEqual(plan);
+    expect(planSchedule(input({ orders: [...orders].reverse(), resources: [...resources].reverse() }))).toEqual(plan);
+  });
+
+  it('sizes the run from machine capacity and never double-books a resource', () => {
+    const plan = planSchedule(
+      input({ orders: [order({ id: 'po-1', quantity: 160 }), order({ id: 'po-2', quantity: 40 })] })
+    );
+
+    const [first, second] = plan.orders;
+    expect(first.scheduled_start).toBe(at(0));
+    expect(first.scheduled_end).toBe(at(16));
+    expect(first.allocations[0].allocated_quantity).toBe(80);
+    expect(second.scheduled_start).toBe(at(16));
+    expect(second.scheduled_end).toBe(at(20));
+  });
+
+  it('skips machines without capacity and unavailable resources', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' })],
+        resources: [
+          machine({ id: 'm1', capacity: null }),
+          machine({ id: 'm2', status: 'maintenance' }),
+          worker({ id: 'w1' }),
+        ],
+      })
+    );
+
+    expect(plan.orders).toEqual([]);
+    expect(plan.unscheduled).toEqual([
+      { order_id: 'po-1', order_number: 'PO-1', reason: 'No free machine and worker window' },
+    ]);
+  });
+
+  it('leaves completed and cancelled orders out of the plan', () => {
+    const plan = planSchedule(
+      input({
+        orders: [
+          order({ id: 'po-1', status: 'completed' }),
+          order({ id: 'po-2', status: 'cancelled' }),
+          order({ id: 'po-3' }),
+        ],
+        allocations: [
+          { resource_id: 'm1', allocated_quantity: 80, start_time: at(0), end_time: null, order_status: 'cancelled' },
+          { resource_id: 'w1', allocated_quantity: 8, start_time: at(0), end_time: at(8), order_status: 'completed' },
+        ],
+      })
+    );
+
+    expect(plan.orders.map((o) => o.order_id)).toEqual(['po-3']);
+    expect(plan.orders[0].scheduled_start).toBe(at(0));
+    expect(plan.unscheduled).toEqual([]);
+  });
+
+  it('packs new work around existing allocations', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' }), order({ id: 'po-2' })],
+        allocations: [
+          { resource_id: 'm1', allocated_quantity: 80, start_time: at(4), end_time: at(6), order_status: 'in_progress' },
+          { resource_id: 'w1', allocated_quantity: 8, start_time: at(12), end_time: null, order_status: 'in_progress' },
+        ],
+      })
+    );
+
+    expect(plan.orders.map((o) => [o.scheduled_start, o.scheduled_end])).toEqual([
+      [at(0), at(4)],
+      [at(6), at(10)],
+    ]);
+  });
+
+  it('replaces the holds of planned orders but packs around those of other pending orders', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' }), order({ id: 'po-2' })],
+        allocations: [
+          // po-1's own earlier booking: moved, not packed around
+          {
+            resource_id: 'm1',
+            order_id: 'po-1',
+            allocated_quantity: 80,
+            start_time: at(4),
+            end_time: at(8),
+            order_status: 'pending',
+          },
+          // Held by a pending order outside this plan
+          {
+            resource_id: 'w1',
+            order_id: 'po-9',
+            allocated_quantity: 8,
+            start_time: at(0),
+            end_time: at(2),
+            order_status: 'pending',
+          },
+        ],
+      })
+    );
+
+    expect(plan.orders.map((o) => [o.order_id, o.scheduled_start, o.scheduled_end])).toEqual([
+      ['po-1', at(2), at(6)],
+      ['po-2', at(6), at(10)],
+    ]);
+  });
+
+  it('places runs around planned downtime of one resource', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' }), order({ id: 'po-2' })],
+        resources: [machine({ id: 'm1' }), machine({ id: 'm2' }), worker({ id: 'w1' }), worker({ id: 'w2' })],
+        downtime: [
+          { resource_id: 'm1', starts_at: at(2), ends_at: at(6) },
+          { resource_id: 'm2', starts_at: at(0), ends_at: at(48) },
+        ],
+      })
+    );
+
+    // m2 is down for two days, and po-1 does not fit in m1's first two hours
+    expect(plan.orders.map((o) => [o.allocations[0].resource_id, o.scheduled_start, o.scheduled_end])).toEqual([
+      ['m1', at(6), at(10)],
+      ['m1', at(10), at(14)],
+    ]);
+  });
+
+  it('places runs after a holiday that closes every resource', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' }), order({ id: 'po-2' })],
+        downtime: [{ resource_id: null, starts_at: at(0), ends_at: at(24) }],
+      })
+    );
+
+    expect(plan.orders.map((o) => [o.scheduled_start, o.scheduled_end])).toEqual([
+      [at(24), at(28)],
+      [at(28), at(32)],
+    ]);
+  });
+
+  it('places runs inside the shifts of the resource, read in its time zone', () => {
+    // NOW is Monday 08:00 UTC
+    const weekdays = (resource_id: string) =>
+      [1, 2, 3, 4, 5].map((day) => ({ resource_id, day_of_week: day, start_time: '06:00:00', end_time: '14:00:00' }));
+
+    const utc = planSchedule(
+      input({ orders: [order({ id: 'po-1' }), order({ id: 'po-2' })], shifts: weekdays('w1') })
+    );
+    expect(utc.orders.map((o) => [o.scheduled_start, o.scheduled_end])).toEqual([
+      [at(0), at(4)],
+      [at(22), at(26)],
+    ]);
+
+    // 06:00 in New York is 11:00 UTC in January
+    const newYork = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' })],
+        resources: [machine({ id: 'm1' }), worker({ id: 'w1', time_zone: 'America/New_York' })],
+        shifts: weekdays('w1'),
+      })
+    );
+    expect(newYork.orders[0].scheduled_start).toBe(at(3));
+  });
+
+  it('reports a run longer than any shift as unscheduled', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1', quantity: 160 })],
+        shifts: [{ resource_id: 'w1', day_of_week: 1, start_time: '06:00:00', end_time: '14:00:00' }],
+      })
+    );
+
+    expect(plan.orders).toEqual([]);
+    expect(plan.unscheduled.map((o) => o.order_id)).toEqual(['po-1']);
+  });
+
+  it('starts a finish_to_start successor when its predecessor ends, whatever its priority', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' }), order({ id: 'po-2' }), order({ id: 'po-3', priority: 5 })],
+        resources: [machine({ id: 'm1' }), machine({ id: 'm2' }), worker({ id: 'w1' }), worker({ id: 'w2' })],
+        dependencies: [
+          { predecessor_id: 'po-1', successor_id: 'po-2', dependency_type: 'finish_to_start' },
+          { predecessor_id: 'po-2', successor_id: 'po-3', dependency_type: 'finish_to_start' },
+        ],
+      })
+    );
+
+    expect(plan.orders.map((o) => [o.order_id, o.scheduled_start, o.scheduled_end])).toEqual([
+      ['po-1', at(0), at(4)],
+      ['po-2', at(4), at(8)],
+      ['po-3', at(8), at(12)],
+    ]);
+  });
+
+  it('lets a start_to_start successor run alongside its predecessor but not before it', () => {
+    const resources = [machine({ id: 'm1' }), machine({ id: 'm2' }), worker({ id: 'w1' }), worker({ id: 'w2' })];
+    const alongside = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' }), order({ id: 'po-2' })],
+        resources,
+        dependencies: [{ predecessor_id: 'po-1', successor_id: 'po-2', dependency_type: 'start_to_start' }],
+      })
+    );
+    expect(alongside.orders.map((o) => o.scheduled_start)).toEqual([at(0), at(0)]);
+
+    const afterFixed = planSchedule(
+      input({
+        orders: [order({ id: 'po-2' })],
+        resources,
+        dependencies: [{ predecessor_id: 'po-f', successor_id: 'po-2', dependency_type: 'start_to_start' }],
+        fixedOrders: [{ id: 'po-f', order_number: 'PO-F', scheduled_start: at(5), scheduled_end: at(20) }],
+      })
+    );
+    expect(afterFixed.orders[0].scheduled_start).toBe(at(5));
+  });
+
+  it('keeps a predecessor finished before a fixed successor starts', () => {
+    const capped = (successorStart: number) =>
+      planSchedule(
+        input({
+          orders: [order({ id: 'po-1' })],
+          dependencies: [{ predecessor_id: 'po-1', successor_id: 'po-f', dependency_type: 'finish_to_start' }],
+          fixedOrders: [
+            { id: 'po-f', order_number: 'PO-F', scheduled_start: at(successorStart), scheduled_end: at(successorStart + 8) },
+          ],
+        })
+      );
+
+    expect(capped(6).orders[0].scheduled_end).toBe(at(4));
+    expect(capped(2).orders).toEqual([]);
+    expect(capped(2).unscheduled).toEqual([
+      { order_id: 'po-1', order_number: 'PO-1', reason: 'No window that keeps its dependent orders on schedule' },
+    ]);
+  });
+
+  it('leaves the successors of an unschedulable order unscheduled', () => {
+    const plan = planSchedule(
+      input({
+        orders: [order({ id: 'po-1' }), order({ id: 'po-2', priority: 5 })],
+        dependencies: [
+          { predecessor_id: 'po-1', successor_id: 'po-f', dependency_type: 'finish_to_start' },
+          { predecessor_id: 'po-1', successor_id: 'po-2', dependency_type: 'finish_to_start' },
+        ],
+        fixedOrders: [{ id: 'po-f', order_number: 'PO-F', scheduled_start: at(2), scheduled_end: at(10) }],
+      })
+    );
+
+    expect(plan.orders).toEqual([]);
+    expect(plan.unscheduled).toEqual([
+      { order_id: 'po-1', order_number: 'PO-1', reason: 'No window that keeps its dependent orders on schedule' },
+      { order_id: 'po-2', order_number: 'PO-2', reason: 'Waits for PO-1, which could not be scheduled' },
+    ]);
+  });
+
+  it('orders and places work differently for the lateness and cost objectives', () => {
+    const orders = [order({ id: 'po-1', quantity: 80, due: at(48) }), order({ id: 'po-2', quantity: 80, due: at(8) })];
+    const resources = [
+      machine({ id: 'fast', capacity: 160, hourly_cost: 100 }),
+      machine({ id: 'slow', capacity: 80, hourly_cost: 10 }),
+      worker({ id: 'w1' }),
+    ];
+
+    const lateness = planSchedule(input({ orders, resources, objective: 'lateness' }));
+    expect(lateness.orders.map((o) => o.order_id)).toEqual(['po-2', 'po-1']);
+    expect(lateness.orders[0].allocations[0].resource_id).toBe('fast');
+    expect(lateness.orders[0].lateness_hours).toBe(0);
+
+    const cost = planSchedule(input({ orders, resources, objective: 'cost' }));
+    expect(cost.orders.map((o) => o.order_id)).toEqual(['po-1', 'po-2']);
+    expect(cost.orders[0].allocations[0].resource_id).toBe('slow');
+    expect(cost.total_cost).toBeLessThan(lateness.total_cost);
+    expect(cost.weighted_lateness_hours).toBeGreaterThan(lateness.weighted_lateness_hours);
+  });
+});
@@ -0,0 +1,399 @@
+// Pure scheduling engine: given pending orders, resources and the allocations
+// already on the books, propose scheduled_start/scheduled_end and the
+// machine + worker allocations for each order. No I/O and no clock access,
+// so the same input always yields the same plan.
+import { ShiftWindow, workingIntervals } from '../utils/availability';
+
+export type SchedulerObjective = 'lateness' | 'cost';
+
+export interface SchedulerOrder {
+  id: string;
+  order_number: string;
+  quantity: number;
+  priority: number;
+  // The requested finish; lateness is measured against it
+  due?: string | null;
+  status?: string;
+}
+
+export interface SchedulerResource {
+  id: string;
+  name: string;
+  type: 'machine' | 'worker' | 'material';
+  status: string;
+  capacity: number | null;
+  hourly_cost: number | null;
+  // Zone its shifts are read in; UTC when not given, like the column default
+  time_zone?: string | null;
+}
+
+export interface SchedulerAllocation {
+  resource_id: string;
+  // Holds of an order being planned are replaced when it is placed
+  order_id?: string;
+  allocated_quantity: number;
+  start_time: string;
+  end_time: string | null;
+  // Status of the order holding the resource; closed orders free it
+  order_status?: string;
+}
+
+// Planned maintenance or holiday; a null resource_id closes every resource
+export interface SchedulerDowntime {
+  resource_id: string | null;
+  starts_at: string;
+  ends_at: string;
+}
+
+// Weekly working hours; a resource with none works around the clock
+export interface SchedulerShift extends ShiftWindow {
+  resource_id: string;
+}
+
+// The successor may not start before the predecessor finishes
+// (finish_to_start) or starts (start_to_start)
+export interface SchedulerDependency {
+  predecessor_id: string;
+  successor_id: string;
+  dependency_type: 'finish_to_start' | 'start_to_start' | string;
+}
+
+// An order outside the plan; its dates constrain the orders linked to it
+export interface SchedulerFixedOrder {
+  id: string;
+  order_number: string;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+}
+
+export interface SchedulerInput {
+  orders: SchedulerOrder[];
+  resources: SchedulerResource[];
+  allocations: SchedulerAllocation[];
+  downtime?: SchedulerDowntime[];
+  shifts?: SchedulerShift[];
+  dependencies?: SchedulerDependency[];
+  fixedOrders?: SchedulerFixedOrder[];
+  now: string;
+  objective: SchedulerObjective;
+}
+
+export interface PlannedAllocation {
+  resource_id: string;
+  resource_name: string;
+  allocated_quantity: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface PlannedOrder {
+  order_id: string;
+  order_number: string;
+  scheduled_start: string;
+  scheduled_end: string;
+  cost: number;
+  lateness_hours: number;
+  allocations: PlannedAllocation[];
+}
+
+export interface UnscheduledOrder {
+  order_id: string;
+  order_number: string;
+  reason: string;
+}
+
+export interface SchedulePlan {
+  orders: PlannedOrder[];
+  unscheduled: UnscheduledOrder[];
+  total_cost: number;
+  weighted_lateness_hours: number;
+}
+
+// A machine turns out `capacity` units per shift; workers cover the same window
+export const SHIFT_HOURS = 8;
+// Shifts are laid out this far past `now`; later time counts as busy
+export const SHIFT_HORIZON_DAYS = 60;
+const MS_PER_HOUR = 1000 * 60 * 60;
+const UNAVAILABLE_STATUSES = ['maintenance', 'unavailable'];
+const CLOSED_ORDER_STATUSES = ['completed', 'cancelled'];
+
+interface Interval {
+  start: number;
+  end: number;
+  order_id?: string;
+}
+
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+export const productionHours = (quantity: number, machine: SchedulerResource) => {
+  const perShift = Number(machine.capacity) || 0;
+  if (perShift <= 0) return null;
+  return Math.max(1, Math.ceil((quantity / perShift) * SHIFT_HOURS));
+};
+
+// The time between shifts from `from` on, so runs only land inside a shift
+const offShiftIntervals = (shifts: ShiftWindow[], timeZone: string, from: number, to: number) => {
+  const busy: Interval[] = [];
+  let cursor = from;
+  workingIntervals(shifts, timeZone, from, to).forEach((shift) => {
+    if (shift.start > cursor) busy.push({ start: cursor, end: shift.start });
+    cursor = Math.max(cursor, shift.end);
+  });
+  busy.push({ start: cursor, end: Infinity });
+  return busy;
+};
+
+const withoutOwnHolds = (busy: Interval[], orderId: string) =>
+  busy.filter((interval) => interval.order_id !== orderId);
+
+const isFree = (busy: Interval[], start: number, end: number) =>
+  busy.every((interval) => interval.end <= start || interval.start >= end);
+
+// Earliest start >= from where [start, start + duration) is free on every timeline.
+// Candidate starts are `from` and the end of every busy interval after it.
+export const findEarliestSlot = (timelines: Interval[][], from: number, durationMs: number) => {
+  const candidates = [from];
+  timelines.forEach((busy) =>
+    busy.forEach((interval) => {
+      if (interval.end > from && Number.isFinite(interval.end)) candidates.push(interval.end);
+    })
+  );
+  candidates.sort((a, b) => a - b);
+
+  for (const start of candidates) {
+    const end = start + durationMs;
+    if (timelines.every((busy) => isFree(busy, start, end))) return start;
+  }
+  return null;
+};
+
+const ceilToHour = (time: number) => Math.ceil(time / MS_PER_HOUR) * MS_PER_HOUR;
+
+export const sortOrdersForObjective = (orders: SchedulerOrder[], objective: SchedulerObjective) =>
+  [...orders].sort((a, b) => {
+    if (a.priority !== b.priority) return b.priority - a.priority;
+    if (objective === 'lateness') {
+      const aDue = a.due ? new Date(a.due).getTime() : Infinity;
+      const bDue = b.due ? new Date(b.due).getTime() : Infinity;
+      if (aDue !== bDue) return aDue - bDue;
+    }
+    return compareStrings(a.order_number, b.order_number);
+  });
+
+interface Candidate {
+  machine: SchedulerResource;
+  worker: SchedulerResource;
+  start: number;
+  end: number;
+  cost: number;
+}
+
+const isBetterCandidate = (next: Candidate, best: Candidate | null, objective: SchedulerObjective) => {
+  if (!best) return true;
+  const byFinish = next.end - best.end;
+  const byCost = next.cost - best.cost;
+  const primary = objective === 'lateness' ? byFinish : byCost;
+  const secondary = objective === 'lateness' ? byCost : byFinish;
+  if (primary !== 0) return primary < 0;
+  if (secondary !== 0) return secondary < 0;
+  const byMachine = compareStrings(next.machine.name, best.machine.name);
+  if (byMachine !== 0) return byMachine < 0;
+  return compareStrings(next.worker.name, best.worker.name) < 0;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const planSchedule = ({
+  orders: allOrders,
+  resources,
+  allocations,
+  downtime = [],
+  shifts = [],
+  dependencies = [],
+  fixedOrders = [],
+  now,
+  objective,
+}: SchedulerInput): SchedulePlan => {
+  const byName = (a: SchedulerResource, b: SchedulerResource) => compareStrings(a.name, b.name);
+  const usable = resources.filter((resource) => !UNAVAILABLE_STATUSES.includes(resource.status));
+  const machines = usable.filter((resource) => resource.type === 'machine').sort(byName);
+  const workers = usable.filter((resource) => resource.type === 'worker').sort(byName);
+  const orders = allOrders.filter((order) => !CLOSED_ORDER_STATUSES.includes(order.status ?? ''));
+
+  const timelines: Record<string, Interval[]> = {};
+  resources.forEach((resource) => {
+    timelines[resource.id] = [];
+  });
+  allocations.forEach((alloc) => {
+    if (CLOSED_ORDER_STATUSES.includes(alloc.order_status ?? '')) return;
+    timelines[alloc.resource_id]?.push({
+      start: new Date(alloc.start_time).getTime(),
+      end: alloc.end_time ? new Date(alloc.end_time).getTime() : Infinity,
+      order_id: alloc.order_id,
+    });
+  });
+  downtime.forEach((window) => {
+    const interval = { start: new Date(window.starts_at).getTime(), end: new Date(window.ends_at).getTime() };
+    const affected = window.resource_id ? [window.resource_id] : Object.keys(timelines);
+    affected.forEach((resourceId) => timelines[resourceId]?.push(interval));
+  });
+
+  const from = ceilToHour(new Date(now).getTime());
+  const horizon = from + SHIFT_HORIZON_DAYS * 24 * MS_PER_HOUR;
+  // The database rejects allocations outside a resource's shifts
+  resources.forEach((resource) => {
+    const own = shifts.filter((shift) => shift.resource_id === resource.id);
+    if (own.length === 0) return;
+    timelines[resource.id].push(...offShiftIntervals(own, resource.time_zone || 'UTC', from, horizon));
+  });
+  const plan: SchedulePlan = { orders: [], unscheduled: [], total_cost: 0, weighted_lateness_hours: 0 };
+
+  const orderNumbers: Record<string, string> = {};
+  const fixedWindows: Record<string, Interval> = {};
+  fixedOrders.forEach((order) => {
+    orderNumbers[order.id] = order.order_number;
+    if (order.scheduled_start && order.scheduled_end) {
+      fixedWindows[order.id] = {
+        start: new Date(order.scheduled_start).getTime(),
+        end: new Date(order.scheduled_end).getTime(),
+      };
+    }
+  });
+  const planning = new Set(orders.map((order) => order.id));
+  orders.forEach((order) => {
+    orderNumbers[order.id] = order.order_number;
+  });
+  const plannedWindows: Record<string, Interval> = {};
+  const decided = new Set<string>();
+
+  const queue = sortOrdersForObjective(orders, objective);
+  while (queue.length > 0) {
+    // Highest-ranked order whose predecessors in this plan are already placed.
+    // The database rejects dependency cycles, so one always exists.
+    const ready = queue.findIndex((candidate) =>
+      dependencies.every(
+        (dep) =>
+          dep.successor_id !== candidate.id || !planning.has(dep.predecessor_id) || decided.has(dep.predecessor_id)
+      )
+    );
+    const order = queue.splice(Math.max(ready, 0), 1)[0];
+    decided.add(order.id);
+
+    let earliest = from;
+    let latestStart = Infinity;
+    let latestEnd = Infinity;
+    let blockedBy: string | null = null;
+    for (const dep of dependencies) {
+      if (dep.successor_id === order.id) {
+        const pred = plannedWindows[dep.predecessor_id] || fixedWindows[dep.predecessor_id];
+        if (!pred) {
+          if (planning.has(dep.predecessor_id)) blockedBy = orderNumbers[dep.predecessor_id];
+          continue;
+        }
+        earliest = Math.max(earliest, dep.dependency_type === 'finish_to_start' ? pred.end : pred.start);
+      } else if (dep.predecessor_id === order.id) {
+        const succ = fixedWindows[dep.successor_id];
+        if (!succ) continue;
+        if (dep.dependency_type === 'finish_to_start') {
+          latestEnd = Math.min(latestEnd, succ.start);
+        } else {
+          latestStart = Math.min(latestStart, succ.start);
+        }
+      }
+    }
+    if (blockedBy) {
+      plan.unscheduled.push({
+        order_id: order.id,
+        order_number: order.order_number,
+        reason: `Waits for ${blockedBy}, which could not be scheduled`,
+      });
+      continue;
+    }
+    earliest = ceilToHour(earliest);
+
+    let best: Candidate | null = null;
+
+    for (const machine of machines) {
+      const hours = productionHours(order.quantity, machine);
+      if (hours === null) continue;
+      const durationMs = hours * MS_PER_HOUR;
+
+      for (const worker of workers) {
+        const start = findEarliestSlot(
+          [withoutOwnHolds(timelines[machine.id], order.id), withoutOwnHolds(timelines[worker.id], order.id)],
+          earliest,
+          durationMs
+        );
+        if (start === null) continue;
+        const cost = (Number(machine.hourly_cost || 0) + Number(worker.hourly_cost || 0)) * hours;
+        const candidate = { machine, worker, start, end: start + durationMs, cost };
+        if (isBetterCandidate(candidate, best, objective)) best = candidate;
+      }
+    }
+
+    if (!best) {
+      plan.unscheduled.push({
+        order_id: order.id,
+        order_number: order.order_number,
+        reason:
+          machines.length === 0 || workers.length === 0
+            ? 'No available machine and worker'
+            : 'No free machine and worker window',
+      });
+      continue;
+    }
+
+    if (best.start > latestStart || best.end > latestEnd) {
+      plan.unscheduled.push({
+        order_id: order.id,
+        order_number: order.order_number,
+        reason: 'No window that keeps its dependent orders on schedule',
+      });
+      continue;
+    }
+
+    plannedWindows[order.id] = { start: best.start, end: best.end };
+    // Accepting the plan replaces the order's machine and worker holds; an
+    // order left unscheduled keeps them, so they stay busy for the others
+    Object.keys(timelines).forEach((resourceId) => {
+      timelines[resourceId] = withoutOwnHolds(timelines[resourceId], order.id);
+    });
+    timelines[best.machine.id].push({ start: best.start, end: best.end });
+    timelines[best.worker.id].push({ start: best.start, end: best.end });
+
+    const startIso = new Date(best.start).toISOString();
+    const endIso = new Date(best.end).toISOString();
+    const dueTime = order.due ? new Date(order.due).getTime() : null;
+    const latenessHours = dueTime !== null ? Math.max(0, (best.end - dueTime) / MS_PER_HOUR) : 0;
+
+    plan.orders.push({
+      order_id: order.id,
+      order_number: order.order_number,
+      scheduled_start: startIso,
+      scheduled_end: endIso,
+      cost: roundMoney(best.cost),
+      lateness_hours: latenessHours,
+      allocations: [
+        {
+          resource_id: best.machine.id,
+          resource_name: best.machine.name,
+          allocated_quantity: Math.min(order.quantity, Number(best.machine.capacity)),
+          start_time: startIso,
+          end_time: endIso,
+        },
+        {
+          resource_id: best.worker.id,
+          resource_name: best.worker.name,
+          allocated_quantity: Math.min(SHIFT_HOURS, Number(best.worker.capacity) || SHIFT_HOURS),
+          start_time: startIso,
+          end_time: endIso,
+        },
+      ],
+    });
+    plan.total_cost += best.cost;
+    plan.weighted_lateness_hours += order.priority * latenessHours;
+  }
+
+  plan.total_cost = roundMoney(plan.total_cost);
+  return plan;
+};
@@ -0,0 +1,76 @@
+import { MouseEvent } from 'react';
+
+// Client-side routes for the planning dashboard. The path holds the tab and
+// the selected order or resource, so a page can be refreshed or shared:
+//   /orders/PO-2024-002, /schedule/PO-2024-002, /resources/<id>, /analytics
+// Navigation goes through the History API and notifies subscribers, the same
+// way the order filters keep their query string in sync.
+
+export type TabType = 'orders' | 'schedule' | 'resources' | 'products' | 'analytics';
+
+export const TABS: TabType[] = ['orders', 'schedule', 'resources', 'products', 'analytics'];
+
+export interface AppRoute {
+  tab: TabType;
+  orderNumber: string | null;
+  resourceId: string | null;
+}
+
+// Returns null for paths that match no route
+export const parseRoute = (pathname: string): AppRoute | null => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (segments.length === 0) return { tab: 'orders', orderNumber: null, resourceId: null };
+
+  const [tab, id, ...rest] = segments;
+  if (!TABS.includes(tab as TabType) || rest.length > 0) return null;
+  if (!id) return { tab: tab as TabType, orderNumber: null, resourceId: null };
+  if (tab === 'orders' || tab === 'schedule') return { tab, orderNumber: id, resourceId: null };
+  if (tab === 'resources') return { tab, orderNumber: null, resourceId: id };
+  return null;
+};
+
+export const tabPath = (tab: TabType) => `/${tab}`;
+
+export const orderPath = (orderNumber: string, tab: 'orders' | 'schedule' = 'orders') =>
+  `/${tab}/${encodeURIComponent(orderNumber)}`;
+
+export const resourcePath = (resourceId: string) => `/resources/${encodeURIComponent(resourceId)}`;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+export const getPathname = () => window.location.pathname;
+
+// Fires for navigate() and for the browser's back and forward buttons
+export const subscribeRoute = (listener: Listener) => {
+  listeners.add(listener);
+  window.addEventListener('popstate', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('popstate', listener);
+  };
+};
+
+// url is a path with an optional query string
+export const navigate = (url: string, { replace = false } = {}) => {
+  if (url === `${window.location.pathname}${window.location.search}`) return;
+  if (replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+// onClick for <a href> links: plain clicks navigate in place, while modified
+// clicks keep the browser's open-in-new-tab behaviour
+export const followLink = (event: MouseEvent, url: string) => {
+  if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+  event.preventDefault();
+  navigate(url);
+};
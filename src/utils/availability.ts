@@ -0,0 +1,202 @@
+// Client-side mirror of resource_calendar_issue in init.sql, so planners see
+// calendar problems before the database rejects the allocation. Shift times
+// are wall-clock times in the resource's time_zone, not the browser's.
+import { addDays } from 'date-fns';
+
+export interface ShiftWindow {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface DowntimeWindow {
+  kind: 'maintenance' | 'holiday' | string;
+  starts_at: string;
+  ends_at: string;
+  reason?: string | null;
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Zones offered when picking a resource's time zone
+export const timeZoneOptions = () => ['UTC', ...Intl.supportedValuesOf('timeZone').filter((zone) => zone !== 'UTC')];
+
+const zoneParts = (time: number, timeZone: string) => {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+    .formatToParts(new Date(time))
+    .forEach((part) => {
+      parts[part.type] = part.value;
+    });
+  return parts;
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// The zone's wall clock at `time`, as if it were UTC. Days are stepped on
+// this clock so a shift keeps its hours across daylight saving changes.
+const wallClock = (time: number, timeZone: string) => {
+  const parts = zoneParts(time, timeZone);
+  return Date.UTC(
+    Number(parts.year),
+    MONTHS.indexOf(parts.month),
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+};
+
+// The instant a wall-clock time happens in the zone
+const fromWallClock = (wall: number, timeZone: string) => {
+  const guess = wall - (wallClock(wall, timeZone) - Math.floor(wall / 1000) * 1000);
+  return wall - (wallClock(guess, timeZone) - Math.floor(guess / 1000) * 1000);
+};
+
+const startOfZonedDay = (time: number, timeZone: string) => {
+  const wall = wallClock(time, timeZone);
+  return wall - (wall % DAY_MS);
+};
+
+// "06:00:00" on the given wall-clock day
+const timeOnDay = (day: number, time: string, timeZone: string) => {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return fromWallClock(day + ((hours * 60 + (minutes || 0)) * 60 + (seconds || 0)) * 1000, timeZone);
+};
+
+// Every shift that runs on a day from `from` to `to`, as instants. Shared
+// with the scheduling engine.
+export const workingIntervals = (shifts: ShiftWindow[], timeZone: string, from: number, to: number): Interval[] => {
+  const intervals: Interval[] = [];
+  for (let day = startOfZonedDay(from, timeZone); fromWallClock(day, timeZone) <= to; day += DAY_MS) {
+    shifts
+      .filter((shift) => shift.day_of_week === new Date(day).getUTCDay())
+      .forEach((shift) =>
+        intervals.push({
+          start: timeOnDay(day, shift.start_time, timeZone),
+          end: timeOnDay(day, shift.end_time, timeZone),
+        })
+      );
+  }
+  return intervals.sort((a, b) => a.start - b.start);
+};
+
+const coveredByShifts = (shifts: ShiftWindow[], timeZone: string, start: number, end: number | null) => {
+  const intervals = workingIntervals(shifts, timeZone, start, end ?? start);
+  if (end === null) {
+    return intervals.some((interval) => interval.start <= start && start < interval.end);
+  }
+
+  let cursor = start;
+  for (const interval of intervals) {
+    if (interval.start > cursor) break;
+    cursor = Math.max(cursor, interval.end);
+    if (cursor >= end) return true;
+  }
+  return false;
+};
+
+// The shift running now, or else the next one within a day; without either
+// it is the whole calendar day. Shifts that cross midnight are two rows, so
+// touching intervals are joined.
+export const currentShiftWindow = (shifts: ShiftWindow[], timeZone: string, now = new Date()) => {
+  const at = now.getTime();
+  const joined: Interval[] = [];
+  workingIntervals(shifts, timeZone, addDays(now, -1).getTime(), addDays(now, 1).getTime()).forEach((interval) => {
+    const last = joined[joined.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      joined.push({ ...interval });
+    }
+  });
+
+  const shift =
+    joined.find((interval) => interval.start <= at && at < interval.end) ||
+    joined.find((interval) => interval.start > at && interval.start - at < 24 * 60 * 60 * 1000);
+  if (!shift) {
+    const day = startOfZonedDay(at, timeZone);
+    return { start: new Date(fromWallClock(day, timeZone)), end: new Date(fromWallClock(day + DAY_MS, timeZone)) };
+  }
+  return { start: new Date(shift.start), end: new Date(shift.end) };
+};
+
+// "Mar 03 06:00" in the zone, like to_char(..., 'Mon DD HH24:MI') in init.sql
+export const formatWindowTime = (value: string, timeZone: string) => {
+  const parts = zoneParts(new Date(value).getTime(), timeZone);
+  return `${parts.month} ${parts.day} ${parts.hour}:${parts.minute}`;
+};
+
+// datetime-local input values read and written on the zone's clock
+export const toZonedDateTimeLocal = (value: string | Date, timeZone: string) =>
+  new Date(wallClock(new Date(value).getTime(), timeZone)).toISOString().slice(0, 16);
+
+export const fromZonedDateTimeLocal = (value: string, timeZone: string) =>
+  value ? new Date(fromWallClock(new Date(`${value}Z`).getTime(), timeZone)).toISOString() : null;
+
+// Same wording as the database: "<name> is in planned maintenance from ... to ..."
+export const calendarIssue = (
+  resourceName: string,
+  shifts: ShiftWindow[],
+  downtime: DowntimeWindow[],
+  timeZone: string,
+  startTime: string,
+  endTime?: string | null
+): string | null => {
+  const start = new Date(startTime).getTime();
+  const end = endTime ? new Date(endTime).getTime() : null;
+
+  const blocking = downtime
+    .filter((window) => {
+      const windowStart = new Date(window.starts_at).getTime();
+      const windowEnd = new Date(window.ends_at).getTime();
+      return end === null ? windowStart <= start && start < windowEnd : windowStart < end && start < windowEnd;
+    })
+    .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())[0];
+
+  if (blocking) {
+    const what = blocking.kind === 'maintenance' ? 'in planned maintenance' : 'on holiday';
+    const from = formatWindowTime(blocking.starts_at, timeZone);
+    const to = formatWindowTime(blocking.ends_at, timeZone);
+    return `${resourceName} is ${what} from ${from} to ${to}`;
+  }
+
+  if (shifts.length > 0 && !coveredByShifts(shifts, timeZone, start, end)) {
+    return `${resourceName} is outside its working shifts`;
+  }
+  return null;
+};
+
+// Calendar rejections come back as "resource unavailable: <message>"
+export const parseUnavailableError = (message?: string | null) => {
+  const match = message?.match(/resource unavailable: (.*)$/);
+  return match ? match[1] : null;
+};
@@ -0,0 +1,93 @@
+// Client-side mirror of the check_resource_allocation_conflicts trigger in
+// init.sql, so planners see clashes before the database rejects the write.
+
+export interface AllocationWindow {
+  id?: string;
+  order_id: string;
+  order_number?: string;
+  order_status?: string;
+  allocated_quantity: number | string;
+  start_time: string;
+  end_time?: string | null;
+}
+
+export interface ConflictResource {
+  name: string;
+  type: string;
+  capacity?: number | string | null;
+}
+
+export type ConflictKind = 'double_booking' | 'over_capacity';
+
+export interface AllocationConflict {
+  kind: ConflictKind;
+  message: string;
+  orderNumbers: string[];
+}
+
+const toTime = (value?: string | null) => (value ? new Date(value).getTime() : Infinity);
+
+// Open-ended allocations (no end_time) run forever, like tstzrange(start, NULL)
+export const windowsOverlap = (
+  aStart: string,
+  aEnd: string | null | undefined,
+  bStart: string,
+  bEnd: string | null | undefined
+) => new Date(aStart).getTime() < toTime(bEnd) && new Date(bStart).getTime() < toTime(aEnd);
+
+export const detectAllocationConflicts = (
+  candidate: AllocationWindow,
+  existing: AllocationWindow[],
+  resource: ConflictResource
+): AllocationConflict[] => {
+  const overlapping = existing.filter(
+    (alloc) =>
+      alloc.id !== candidate.id &&
+      alloc.order_status !== 'cancelled' &&
+      windowsOverlap(alloc.start_time, alloc.end_time, candidate.start_time, candidate.end_time)
+  );
+
+  const conflicts: AllocationConflict[] = [];
+
+  const clashingOrders = Array.from(
+    new Set(
+      overlapping
+        .filter((alloc) => alloc.order_id !== candidate.order_id)
+        .map((alloc) => alloc.order_number || alloc.order_id)
+    )
+  ).sort();
+
+  if (resource.type !== 'material' && clashingOrders.length > 0) {
+    conflicts.push({
+      kind: 'double_booking',
+      message: `${resource.name} is double-booked with ${clashingOrders.join(', ')}`,
+      orderNumbers: clashingOrders,
+    });
+  }
+
+  // Materials are limited by stock rather than capacity (see utils/inventory)
+  if (resource.type !== 'material' && resource.capacity !== null && resource.capacity !== undefined) {
+    const capacity = Number(resource.capacity);
+    const total =
+      overlapping.reduce((sum, alloc) => sum + Number(alloc.allocated_quantity), 0) +
+      Number(candidate.allocated_quantity);
+    if (total > capacity) {
+      conflicts.push({
+        kind: 'over_capacity',
+        message: `${resource.name} would be allocated ${total} of ${capacity} capacity`,
+        orderNumbers: Array.from(
+          new Set(overlapping.map((alloc) => alloc.order_number || alloc.order_id))
+        ).sort(),
+      });
+    }
+  }
+
+  return conflicts;
+};
+
+// Conflicts rejected by the database come back as
+// "allocation conflict: <message>; <message>"
+export const parseConflictError = (message?: string | null) => {
+  const match = message?.match(/allocation conflict: (.*)$/);
+  return match ? match[1].split('; ') : null;
+};
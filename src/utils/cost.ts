@@ -0,0 +1,77 @@
+// Planned cost of an allocation that is not saved yet. Saved allocations and
+// orders get planned_cost and actual_cost from the allocation_planned_cost,
+// allocation_actual_cost and order_*_cost functions in init.sql.
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export const allocationHours = (startTime?: string | null, endTime?: string | null) => {
+  if (!startTime || !endTime) return 0;
+  const hours = (new Date(endTime).getTime() - new Date(startTime).getTime()) / MS_PER_HOUR;
+  return hours > 0 ? hours : 0;
+};
+
+export interface CostedResource {
+  type: string;
+  hourly_cost?: number | string | null;
+  unit_cost?: number | string | null;
+}
+
+// Machines and workers per hour (open-ended allocations run to the order's
+// scheduled end), materials per unit
+export const estimateAllocationCost = (
+  resource: CostedResource,
+  allocatedQuantity: number,
+  startTime?: string | null,
+  endTime?: string | null,
+  orderEnd?: string | null
+) =>
+  resource.type === 'material'
+    ? Number(resource.unit_cost || 0) * allocatedQuantity
+    : Number(resource.hourly_cost || 0) * allocationHours(startTime, endTime || orderEnd);
+
+export const resourceRate = (resource: CostedResource) =>
+  resource.type === 'material'
+    ? resource.unit_cost === null || resource.unit_cost === undefined
+      ? null
+      : `$${Number(resource.unit_cost).toFixed(2)}/unit`
+    : resource.hourly_cost === null || resource.hourly_cost === undefined
+      ? null
+      : `$${Number(resource.hourly_cost).toFixed(2)}/hr`;
+
+export const formatCost = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Positive means over budget
+export const formatCostVariance = (amount: number) => {
+  if (Math.abs(amount) < 0.005) return 'on budget';
+  return amount > 0 ? `${formatCost(amount)} over` : `${formatCost(-amount)} under`;
+};
+
+export const costVarianceColor = (amount: number) => {
+  if (amount > 0.005) return 'text-red-600';
+  if (amount < -0.005) return 'text-green-600';
+  return 'text-gray-600';
+};
+
+interface OrderCost {
+  planned_cost: number | string;
+  actual_cost: number | string;
+}
+
+// Planned against actual cost per group, e.g. per product or per month
+export const summariseCosts = <T extends OrderCost>(rows: T[], groupBy: (row: T) => string) => {
+  const groups: Record<string, { planned: number; actual: number; orders: number }> = {};
+  rows.forEach((row) => {
+    const key = groupBy(row);
+    if (!groups[key]) groups[key] = { planned: 0, actual: 0, orders: 0 };
+    groups[key].planned += Number(row.planned_cost);
+    groups[key].actual += Number(row.actual_cost);
+    groups[key].orders++;
+  });
+  return Object.entries(groups).map(([name, totals]) => ({
+    name,
+    ...totals,
+    variance: totals.actual - totals.planned,
+    variancePercent: totals.planned > 0 ? ((totals.actual - totals.planned) / totals.planned) * 100 : null,
+  }));
+};
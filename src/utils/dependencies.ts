@@ -0,0 +1,157 @@
+// Order dependencies and critical path. The schedule checks mirror
+// dependency_schedule_issue in init.sql.
+
+export type DependencyType = 'finish_to_start' | 'start_to_start';
+
+export interface DependencyLink {
+  predecessor_id: string;
+  successor_id: string;
+  dependency_type: DependencyType | string;
+}
+
+export interface NetworkOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  scheduled_start?: string | null;
+  scheduled_end?: string | null;
+}
+
+export interface PathInfo {
+  // How far the order can slip without pushing out the end of its chain
+  slackMs: number;
+  critical: boolean;
+}
+
+export const DEPENDENCY_LABELS: Record<string, string> = {
+  finish_to_start: 'finish → start',
+  start_to_start: 'start → start',
+};
+
+// Slack below a minute counts as none
+const CRITICAL_TOLERANCE_MS = 60 * 1000;
+
+const time = (value?: string | null) => (value ? new Date(value).getTime() : null);
+
+export const dependencyScheduleIssue = (pred: NetworkOrder, succ: NetworkOrder, type: string) => {
+  if (pred.status === 'cancelled' || succ.status === 'cancelled') return null;
+  const succStart = time(succ.scheduled_start);
+  if (succStart === null) return null;
+  if (type === 'finish_to_start') {
+    const predEnd = time(pred.scheduled_end);
+    if (predEnd !== null && succStart < predEnd) {
+      return `${pred.order_number} must finish before ${succ.order_number} starts`;
+    }
+  } else {
+    const predStart = time(pred.scheduled_start);
+    if (predStart !== null && succStart < predStart) {
+      return `${pred.order_number} must start before ${succ.order_number} starts`;
+    }
+  }
+  return null;
+};
+
+// Every dependency the order would break if it were moved to the given dates
+export const dependencyIssuesForMove = (
+  order: NetworkOrder,
+  scheduledStart: string | null,
+  scheduledEnd: string | null,
+  links: DependencyLink[],
+  ordersById: Record<string, NetworkOrder>
+) => {
+  const moved = { ...order, scheduled_start: scheduledStart, scheduled_end: scheduledEnd };
+  const issues: string[] = [];
+  links.forEach((link) => {
+    let issue: string | null = null;
+    if (link.successor_id === order.id && ordersById[link.predecessor_id]) {
+      issue = dependencyScheduleIssue(ordersById[link.predecessor_id], moved, link.dependency_type);
+    } else if (link.predecessor_id === order.id && ordersById[link.successor_id]) {
+      issue = dependencyScheduleIssue(moved, ordersById[link.successor_id], link.dependency_type);
+    }
+    if (issue) issues.push(issue);
+  });
+  return issues;
+};
+
+// Would linking predecessor -> successor close a loop?
+export const createsCycle = (predecessorId: string, successorId: string, links: DependencyLink[]) => {
+  const seen = new Set<string>();
+  const stack = [successorId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === predecessorId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    links.filter((link) => link.predecessor_id === current).forEach((link) => stack.push(link.successor_id));
+  }
+  return false;
+};
+
+// Critical path method over the scheduled dates. Each connected group of
+// dependent orders is its own network, finishing when its last order ends; a
+// backward pass gives every order its latest start, and the gap to its
+// scheduled start is its slack. Orders without dependencies are left out.
+export const analyseCriticalPath = (
+  orders: NetworkOrder[],
+  links: DependencyLink[]
+): Record<string, PathInfo> => {
+  const byId: Record<string, NetworkOrder> = {};
+  orders
+    .filter((order) => order.status !== 'cancelled' && order.scheduled_start && order.scheduled_end)
+    .forEach((order) => {
+      byId[order.id] = order;
+    });
+  const active = links.filter((link) => byId[link.predecessor_id] && byId[link.successor_id]);
+
+  // Group connected orders
+  const group: Record<string, string> = {};
+  const find = (id: string): string => (group[id] === id ? id : (group[id] = find(group[id])));
+  active.forEach((link) => {
+    [link.predecessor_id, link.successor_id].forEach((id) => {
+      if (!group[id]) group[id] = id;
+    });
+    group[find(link.predecessor_id)] = find(link.successor_id);
+  });
+
+  const networkEnd: Record<string, number> = {};
+  Object.keys(group).forEach((id) => {
+    const root = find(id);
+    networkEnd[root] = Math.max(networkEnd[root] ?? -Infinity, time(byId[id].scheduled_end)!);
+  });
+
+  const duration = (id: string) => time(byId[id].scheduled_end)! - time(byId[id].scheduled_start)!;
+
+  // Backward pass, successors before predecessors
+  const latestStart: Record<string, number> = {};
+  const resolve = (id: string, visiting: Set<string>): number => {
+    if (latestStart[id] !== undefined) return latestStart[id];
+    visiting.add(id);
+    let latestFinish = networkEnd[find(id)];
+    active
+      .filter((link) => link.predecessor_id === id && !visiting.has(link.successor_id))
+      .forEach((link) => {
+        const successorLatestStart = resolve(link.successor_id, visiting);
+        const limit =
+          link.dependency_type === 'finish_to_start' ? successorLatestStart : successorLatestStart + duration(id);
+        latestFinish = Math.min(latestFinish, limit);
+      });
+    visiting.delete(id);
+    latestStart[id] = latestFinish - duration(id);
+    return latestStart[id];
+  };
+
+  const result: Record<string, PathInfo> = {};
+  Object.keys(group).forEach((id) => {
+    const slackMs = resolve(id, new Set()) - time(byId[id].scheduled_start)!;
+    result[id] = { slackMs, critical: slackMs < CRITICAL_TOLERANCE_MS };
+  });
+  return result;
+};
+
+// Dependency rejections come back as "dependency violation: <message>" or
+// "dependency cycle: <orders>"
+export const parseDependencyError = (message?: string | null) => {
+  const match = message?.match(/dependency (violation|cycle): (.*)$/);
+  if (!match) return null;
+  return match[1] === 'cycle' ? `This would create a loop: ${match[2]}` : match[2];
+};
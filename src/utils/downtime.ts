@@ -0,0 +1,72 @@
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export const DOWNTIME_STATUSES = ['maintenance', 'unavailable'];
+
+export const DOWNTIME_PERIOD_DAYS = [7, 30, 90];
+
+export interface StatusPeriod {
+  status: string;
+  started_at: string;
+  ended_at?: string | null;
+}
+
+// Hours spent in a downtime status within [from, to]; an open period runs until now
+export const downtimeHours = (periods: StatusPeriod[], from: Date, to: Date, now = new Date()) => {
+  const windowStart = from.getTime();
+  const windowEnd = Math.min(to.getTime(), now.getTime());
+
+  const totalMs = periods
+    .filter((period) => DOWNTIME_STATUSES.includes(period.status))
+    .reduce((sum, period) => {
+      const start = Math.max(new Date(period.started_at).getTime(), windowStart);
+      const end = Math.min(period.ended_at ? new Date(period.ended_at).getTime() : now.getTime(), windowEnd);
+      return end > start ? sum + (end - start) : sum;
+    }, 0);
+
+  return totalMs / MS_PER_HOUR;
+};
+
+export const formatHours = (hours: number) =>
+  hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${Math.round(hours * 10) / 10}h`;
+
+export interface DowntimeRecord {
+  reason_code: string;
+  started_at: string;
+  ended_at?: string | null;
+  reason?: { label: string } | null;
+}
+
+// Downtime hours per reason within [from, now], largest first, with the
+// running share of the total for a Pareto chart
+export const paretoByReason = (records: DowntimeRecord[], from: Date, now = new Date()) => {
+  const byReason: Record<string, { label: string; hours: number }> = {};
+  records.forEach((record) => {
+    const hours = downtimeHours(
+      [{ status: 'unavailable', started_at: record.started_at, ended_at: record.ended_at }],
+      from,
+      now,
+      now
+    );
+    if (hours <= 0) return;
+    if (!byReason[record.reason_code]) {
+      byReason[record.reason_code] = { label: record.reason?.label || record.reason_code, hours: 0 };
+    }
+    byReason[record.reason_code].hours += hours;
+  });
+
+  const rows = Object.entries(byReason)
+    .map(([code, totals]) => ({ code, ...totals }))
+    .sort((a, b) => b.hours - a.hours);
+  const total = rows.reduce((sum, row) => sum + row.hours, 0);
+  let running = 0;
+  return rows.map((row) => {
+    running += row.hours;
+    return { ...row, hours: Math.round(row.hours * 10) / 10, cumulativePercent: (running / total) * 100 };
+  });
+};
+
+// Rejections come back as "invalid downtime: <message>"
+export const parseDowntimeError = (message?: string | null) => {
+  const match = message?.match(/invalid downtime: (.*)$/);
+  return match ? match[1] : null;
+};
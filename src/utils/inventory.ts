@@ -0,0 +1,30 @@
+// Material stock levels; mirrors apply_stock_movement in init.sql
+
+export interface StockLevels {
+  stock_on_hand?: number | string | null;
+  stock_reserved?: number | string | null;
+  reorder_point?: number | string | null;
+}
+
+export const availableStock = (resource: StockLevels) =>
+  Number(resource.stock_on_hand || 0) - Number(resource.stock_reserved || 0);
+
+// Low once the stock that is not already reserved falls to the reorder point
+export const isLowStock = (resource: StockLevels) =>
+  resource.reorder_point !== null &&
+  resource.reorder_point !== undefined &&
+  availableStock(resource) <= Number(resource.reorder_point);
+
+export const STOCK_MOVEMENT_LABELS: Record<string, string> = {
+  receipt: 'Received',
+  adjustment: 'Adjusted',
+  reserve: 'Reserved',
+  release: 'Released',
+  consume: 'Consumed',
+};
+
+// Stock rejections come back as "insufficient stock: <message>"
+export const parseStockError = (message?: string | null) => {
+  const match = message?.match(/insufficient stock: (.*)$/);
+  return match ? match[1] : null;
+};
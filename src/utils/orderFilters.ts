@@ -0,0 +1,150 @@
+// Filters, sorting and keyset pagination for the orders list. Everything is
+// turned into a production_orders where / order_by so Hasura only sends the
+// page on screen, and the filters round-trip through the URL query string.
+import { addDays, startOfDay } from 'date-fns';
+import { OrderStatus } from './orderStatus';
+
+export const ORDERS_PAGE_SIZE = 25;
+
+export type OrderSortColumn = 'order_number' | 'product_name' | 'priority' | 'quantity' | 'scheduled_start';
+export type SortDirection = 'asc' | 'desc';
+
+export const ORDER_SORT_COLUMNS: { column: OrderSortColumn; label: string }[] = [
+  { column: 'priority', label: 'Priority' },
+  { column: 'scheduled_start', label: 'Start' },
+  { column: 'order_number', label: 'Order' },
+  { column: 'product_name', label: 'Product' },
+  { column: 'quantity', label: 'Qty' },
+];
+
+export interface OrderFilters {
+  search: string;
+  status: OrderStatus | 'all';
+  priority: number | null;
+  // Scheduled start, both inclusive, as yyyy-MM-dd
+  from: string;
+  to: string;
+  sort: OrderSortColumn;
+  dir: SortDirection;
+}
+
+export const DEFAULT_ORDER_FILTERS: OrderFilters = {
+  search: '',
+  status: 'all',
+  priority: null,
+  from: '',
+  to: '',
+  sort: 'priority',
+  dir: 'desc',
+};
+
+const STATUSES: OrderStatus[] = ['pending', 'scheduled', 'in_progress', 'completed', 'cancelled'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Unknown or malformed parameters fall back to the defaults
+export const parseOrderFilters = (query: string): OrderFilters => {
+  const params = new URLSearchParams(query);
+  const status = params.get('status') as OrderStatus;
+  const priority = Number(params.get('priority'));
+  const sort = params.get('sort') as OrderSortColumn;
+  const dir = params.get('dir');
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  return {
+    search: params.get('q') || '',
+    status: STATUSES.includes(status) ? status : 'all',
+    priority: Number.isInteger(priority) && priority >= 1 && priority <= 5 ? priority : null,
+    from: DATE_PATTERN.test(from) ? from : '',
+    to: DATE_PATTERN.test(to) ? to : '',
+    sort: ORDER_SORT_COLUMNS.some((option) => option.column === sort) ? sort : DEFAULT_ORDER_FILTERS.sort,
+    dir: dir === 'asc' || dir === 'desc' ? dir : DEFAULT_ORDER_FILTERS.dir,
+  };
+};
+
+export const ORDER_FILTER_PARAMS = ['q', 'status', 'priority', 'from', 'to', 'sort', 'dir'];
+
+// Writes the filters over the order parameters of an existing query string,
+// leaving defaults out so the plain list keeps a clean URL
+export const formatOrderFilters = (filters: OrderFilters, query = '') => {
+  const params = new URLSearchParams(query);
+  ORDER_FILTER_PARAMS.forEach((param) => params.delete(param));
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.priority !== null) params.set('priority', String(filters.priority));
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.sort !== DEFAULT_ORDER_FILTERS.sort || filters.dir !== DEFAULT_ORDER_FILTERS.dir) {
+    params.set('sort', filters.sort);
+    params.set('dir', filters.dir);
+  }
+  return params.toString();
+};
+
+// % and _ are wildcards to _ilike, so match them literally
+const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+export const orderFiltersWhere = (filters: OrderFilters) => {
+  const conditions: any[] = [];
+  const search = filters.search.trim();
+  if (search) {
+    conditions.push({
+      _or: [{ order_number: { _ilike: likePattern(search) } }, { product_name: { _ilike: likePattern(search) } }],
+    });
+  }
+  if (filters.status !== 'all') conditions.push({ status: { _eq: filters.status } });
+  if (filters.priority !== null) conditions.push({ priority: { _eq: filters.priority } });
+  if (filters.from) {
+    conditions.push({ scheduled_start: { _gte: startOfDay(new Date(`${filters.from}T00:00`)).toISOString() } });
+  }
+  if (filters.to) {
+    conditions.push({ scheduled_start: { _lt: addDays(startOfDay(new Date(`${filters.to}T00:00`)), 1).toISOString() } });
+  }
+  return { _and: conditions };
+};
+
+interface SortKey {
+  column: string;
+  dir: SortDirection;
+}
+
+// The chosen column, then start time, then id so every row has a unique
+// position for the cursor to point at
+const sortKeys = (filters: OrderFilters): SortKey[] => {
+  const keys: SortKey[] = [{ column: filters.sort, dir: filters.dir }];
+  if (filters.sort !== 'scheduled_start') keys.push({ column: 'scheduled_start', dir: 'asc' });
+  keys.push({ column: 'id', dir: 'asc' });
+  return keys;
+};
+
+export const orderFiltersOrderBy = (filters: OrderFilters) =>
+  sortKeys(filters).map((key) => ({ [key.column]: key.dir }));
+
+// The sort values of the last row on a page; the next page starts after it
+export type OrderCursor = Record<string, any>;
+
+export const orderCursor = (filters: OrderFilters, order: any): OrderCursor =>
+  Object.fromEntries(sortKeys(filters).map((key) => [key.column, order[key.column] ?? null]));
+
+// Postgres sorts nulls last ascending and first descending, as Hasura's
+// asc / desc do, so a null only has rows after it in a descending sort
+const after = (key: SortKey, value: any) => {
+  if (value === null) return key.dir === 'desc' ? { [key.column]: { _is_null: false } } : null;
+  if (key.dir === 'desc') return { [key.column]: { _lt: value } };
+  return { _or: [{ [key.column]: { _gt: value } }, { [key.column]: { _is_null: true } }] };
+};
+
+const equal = (key: SortKey, value: any) =>
+  value === null ? { [key.column]: { _is_null: true } } : { [key.column]: { _eq: value } };
+
+// Rows that sort after the cursor: past it on the first key, or tied on the
+// first keys and past it on the next one
+export const afterCursorWhere = (filters: OrderFilters, cursor: OrderCursor) => {
+  const keys = sortKeys(filters);
+  const branches: any[] = [];
+  keys.forEach((key, index) => {
+    const past = after(key, cursor[key.column]);
+    if (!past) return;
+    branches.push({ _and: [...keys.slice(0, index).map((tied) => equal(tied, cursor[tied.column])), past] });
+  });
+  return { _or: branches };
+};
@@ -0,0 +1,81 @@
+// Split and merge helpers; the rules mirror split_production_order and
+// merge_production_orders in init.sql.
+
+export const MAX_SPLIT_PARTS = 26;
+
+// PO-2024-003 -> PO-2024-003-A, -B, ...
+export const childOrderNumber = (orderNumber: string, index: number) =>
+  `${orderNumber}-${String.fromCharCode(65 + index)}`;
+
+// Whole units as evenly as possible, the remainder going to the first parts
+export const evenSplit = (total: number, parts: number) =>
+  Array.from({ length: parts }, (_, index) => Math.floor(total / parts) + (index < total % parts ? 1 : 0));
+
+export const validateSplit = (total: number, quantities: number[]) => {
+  if (quantities.length < 2 || quantities.length > MAX_SPLIT_PARTS) {
+    return `Split into 2 to ${MAX_SPLIT_PARTS} parts`;
+  }
+  if (quantities.some((quantity) => !Number.isInteger(quantity) || quantity <= 0)) {
+    return 'Every part needs a whole quantity above 0';
+  }
+  const sum = quantities.reduce((acc, quantity) => acc + quantity, 0);
+  if (sum !== total) {
+    return `The parts add up to ${sum}, not ${total}`;
+  }
+  return null;
+};
+
+// The slice of [start, end] a part gets, in proportion to its quantity
+export const splitWindow = (
+  start: string | null | undefined,
+  end: string | null | undefined,
+  unitsBefore: number,
+  quantity: number,
+  total: number
+) => {
+  if (!start || !end) return { start: start || null, end: end || null };
+  const startMs = new Date(start).getTime();
+  const span = new Date(end).getTime() - startMs;
+  return {
+    start: new Date(startMs + (span * unitsBefore) / total).toISOString(),
+    end: new Date(startMs + (span * (unitsBefore + quantity)) / total).toISOString(),
+  };
+};
+
+interface MergeCandidate {
+  id: string;
+  order_number: string;
+  status: string;
+  product_id?: string | null;
+  product_name: string;
+  scheduled_start?: string | null;
+}
+
+export const mergeIssue = (orders: MergeCandidate[]) => {
+  if (orders.length < 2) return 'Select at least two orders';
+  const notPending = orders.filter((order) => order.status !== 'pending');
+  if (notPending.length > 0) {
+    return `Only pending orders can be merged (${notPending.map((order) => order.order_number).join(', ')})`;
+  }
+  const products = new Set(orders.map((order) => order.product_id || order.product_name));
+  if (products.size > 1) return 'The orders are for different products';
+  return null;
+};
+
+// The order the others are merged into: earliest start, then lowest number
+export const mergeSurvivor = <T extends MergeCandidate>(orders: T[]) =>
+  [...orders].sort((a, b) => {
+    const aStart = a.scheduled_start ? new Date(a.scheduled_start).getTime() : Infinity;
+    const bStart = b.scheduled_start ? new Date(b.scheduled_start).getTime() : Infinity;
+    if (aStart !== bStart) return aStart - bStart;
+    return a.order_number < b.order_number ? -1 : a.order_number > b.order_number ? 1 : 0;
+  })[0];
+
+// Hasura takes Postgres array arguments as literals, e.g. "{120,80}"
+export const toPostgresArray = (values: (string | number)[]) => `{${values.join(',')}}`;
+
+// Rejections come back as "invalid split: <message>" or "invalid merge: <message>"
+export const parseLineageError = (message?: string | null) => {
+  const match = message?.match(/invalid (?:split|merge): (.*)$/);
+  return match ? match[1] : null;
+};
@@ -0,0 +1,30 @@
+export type OrderStatus = 'pending' | 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+
+// Mirrors the order_status_transitions table in init.sql
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['scheduled', 'cancelled'],
+  scheduled: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const STATUS_ACTION_LABELS: Record<OrderStatus, string> = {
+  pending: 'Reset',
+  scheduled: 'Schedule',
+  in_progress: 'Start',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+};
+
+export const getNextStatuses = (status: string): OrderStatus[] =>
+  ORDER_STATUS_TRANSITIONS[status as OrderStatus] || [];
+
+export const canTransition = (from: string, to: string) =>
+  getNextStatuses(from).includes(to as OrderStatus);
+
+// The database rejects illegal moves with "invalid status transition: <from> -> <to>"
+export const parseTransitionError = (message?: string | null) => {
+  const match = message?.match(/invalid status transition: (\w+) -> (\w+)/);
+  return match ? { from: match[1], to: match[2] } : null;
+};
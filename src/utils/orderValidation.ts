@@ -0,0 +1,65 @@
+import { format } from 'date-fns';
+
+export interface OrderFormValues {
+  order_number: string;
+  product_id: string;
+  product_name: string;
+  quantity: string;
+  priority: string;
+  scheduled_start: string;
+  scheduled_end: string;
+  notes: string;
+}
+
+export type OrderFormErrors = Partial<Record<keyof OrderFormValues, string>>;
+
+export const emptyOrderForm: OrderFormValues = {
+  order_number: '',
+  product_id: '',
+  product_name: '',
+  quantity: '1',
+  priority: '1',
+  scheduled_start: '',
+  scheduled_end: '',
+  notes: '',
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export const toDateTimeLocal = (value?: string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+export const fromDateTimeLocal = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+// Mirrors the CHECK constraints on production_orders in init.sql
+export const validateOrderForm = (values: OrderFormValues): OrderFormErrors => {
+  const errors: OrderFormErrors = {};
+
+  if (!values.order_number.trim()) {
+    errors.order_number = 'Order number is required';
+  } else if (values.order_number.trim().length > 50) {
+    errors.order_number = 'Order number must be 50 characters or fewer';
+  }
+
+  if (!values.product_name.trim()) {
+    errors.product_name = 'Product name is required';
+  }
+
+  const quantity = Number(values.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    errors.quantity = 'Quantity must be a whole number greater than 0';
+  }
+
+  const priority = Number(values.priority);
+  if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
+    errors.priority = 'Priority must be between 1 and 5';
+  }
+
+  if (values.scheduled_start && values.scheduled_end) {
+    if (new Date(values.scheduled_end) <= new Date(values.scheduled_start)) {
+      errors.scheduled_end = 'Scheduled end must be after scheduled start';
+    }
+  }
+
+  return errors;
+};
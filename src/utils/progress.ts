@@ -0,0 +1,51 @@
+// Production progress from good and scrap reports. Which reports count as
+// finished output mirrors apply_production_report in init.sql.
+
+export interface ProgressReport {
+  operation_id?: string | null;
+  good_quantity: number;
+  scrap_quantity: number;
+}
+
+export interface RoutingOperation {
+  id: string;
+  sequence: number;
+  name: string;
+}
+
+// Share of the order quantity reported good, 0-100
+export const progressPercent = (good: number, quantity: number) =>
+  quantity > 0 ? Math.min(100, (good / quantity) * 100) : 0;
+
+// Good units over everything produced; null before anything is reported
+export const yieldRate = (good: number, scrap: number) =>
+  good + scrap > 0 ? (good / (good + scrap)) * 100 : null;
+
+export const scrapRate = (good: number, scrap: number) =>
+  good + scrap > 0 ? (scrap / (good + scrap)) * 100 : null;
+
+// Good and scrap per routing operation, in sequence order
+export const operationProgress = (routing: RoutingOperation[], reports: ProgressReport[]) =>
+  [...routing]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((operation) => {
+      const own = reports.filter((report) => report.operation_id === operation.id);
+      return {
+        operation,
+        good: own.reduce((sum, report) => sum + report.good_quantity, 0),
+        scrap: own.reduce((sum, report) => sum + report.scrap_quantity, 0),
+      };
+    });
+
+// Reports on an earlier operation are work in progress, not finished goods
+export const countsAsFinished = (operationId: string | null | undefined, routing: RoutingOperation[]) => {
+  if (!operationId) return true;
+  const operation = routing.find((candidate) => candidate.id === operationId);
+  return !operation || !routing.some((candidate) => candidate.sequence > operation.sequence);
+};
+
+// Rejections come back as "invalid report: <message>"
+export const parseReportError = (message?: string | null) => {
+  const match = message?.match(/invalid report: (.*)$/);
+  return match ? match[1] : null;
+};
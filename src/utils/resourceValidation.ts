@@ -0,0 +1,79 @@
+export type ResourceType = 'machine' | 'worker' | 'material';
+
+export interface ResourceFormValues {
+  name: string;
+  type: ResourceType;
+  capacity: string;
+  hourly_cost: string;
+  unit_cost: string;
+  reorder_point: string;
+  description: string;
+}
+
+export type ResourceFormErrors = Partial<Record<keyof ResourceFormValues, string>>;
+
+export const emptyResourceForm: ResourceFormValues = {
+  name: '',
+  type: 'machine',
+  capacity: '',
+  hourly_cost: '',
+  unit_cost: '',
+  reorder_point: '',
+  description: '',
+};
+
+const optionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Mirrors the DECIMAL(10,2) columns on resources in init.sql
+const validateAmount = (value: string, label: string) => {
+  const amount = optionalNumber(value);
+  if (amount === null) return undefined;
+  if (!Number.isFinite(amount) || amount < 0) return `${label} must be 0 or more`;
+  if (amount >= 1e8) return `${label} is too large`;
+  return undefined;
+};
+
+export const validateResourceForm = (values: ResourceFormValues): ResourceFormErrors => {
+  const errors: ResourceFormErrors = {};
+
+  if (!values.name.trim()) {
+    errors.name = 'Name is required';
+  } else if (values.name.trim().length > 255) {
+    errors.name = 'Name must be 255 characters or fewer';
+  }
+
+  const amounts: [keyof ResourceFormValues, string][] = [
+    ['capacity', 'Capacity'],
+    ['hourly_cost', 'Hourly cost'],
+    ['unit_cost', 'Unit cost'],
+    ['reorder_point', 'Reorder point'],
+  ];
+  amounts.forEach(([field, label]) => {
+    const error = validateAmount(values[field], label);
+    if (error) errors[field] = error;
+  });
+
+  return errors;
+};
+
+// The type itself is only set on insert
+export const resourceFormVariables = (values: ResourceFormValues) => ({
+  name: values.name.trim(),
+  capacity: optionalNumber(values.capacity),
+  hourly_cost: optionalNumber(values.hourly_cost),
+  unit_cost: optionalNumber(values.unit_cost),
+  reorder_point: optionalNumber(values.reorder_point),
+  description: values.description.trim() || null,
+});
+
+// Mirrors check_resource_lifecycle in init.sql: work that still has to run
+// blocks decommissioning
+export const isOpenAllocation = (allocation: { end_time: string | null; order: { status: string } }, now = new Date()) =>
+  !['completed', 'cancelled'].includes(allocation.order.status) &&
+  (allocation.end_time === null || new Date(allocation.end_time) > now);
+
+// Delete and decommission rejections come back as "resource in use: <message>"
+export const parseResourceInUseError = (message?: string | null) => {
+  const match = message?.match(/resource in use: (.*)$/);
+  return match ? match[1] : null;
+};
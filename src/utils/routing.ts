@@ -0,0 +1,62 @@
+// Client-side mirror of routing_minutes and generate_order_allocations in
+// init.sql, used to preview what creating an order for a product will book.
+import { availableStock, StockLevels } from './inventory';
+
+const MS_PER_MINUTE = 1000 * 60;
+
+export interface RoutingOperation {
+  sequence: number;
+  name: string;
+  resource_type: string;
+  setup_minutes: number | string;
+  run_minutes_per_unit: number | string;
+  resource?: { id: string; name: string } | null;
+}
+
+export interface BomLine {
+  quantity_per_unit: number | string;
+  resource: StockLevels & { id: string; name: string };
+}
+
+export interface PlannedOperation {
+  operation: RoutingOperation;
+  start: Date;
+  end: Date;
+}
+
+export const operationMinutes = (operation: RoutingOperation, quantity: number) =>
+  Number(operation.setup_minutes || 0) + Number(operation.run_minutes_per_unit || 0) * quantity;
+
+export const routingMinutes = (operations: RoutingOperation[], quantity: number) =>
+  operations.reduce((sum, operation) => sum + operationMinutes(operation, quantity), 0);
+
+// Operations back to back in sequence order; zero-length ones are skipped
+export const planRouting = (operations: RoutingOperation[], quantity: number, start: Date): PlannedOperation[] => {
+  const planned: PlannedOperation[] = [];
+  let cursor = start.getTime();
+  [...operations]
+    .sort((a, b) => a.sequence - b.sequence)
+    .forEach((operation) => {
+      const minutes = operationMinutes(operation, quantity);
+      if (minutes <= 0) return;
+      const end = cursor + minutes * MS_PER_MINUTE;
+      planned.push({ operation, start: new Date(cursor), end: new Date(end) });
+      cursor = end;
+    });
+  return planned;
+};
+
+// Material needed for a quantity, against what is not already reserved
+export const bomRequirements = (lines: BomLine[], quantity: number) =>
+  lines.map((line) => {
+    const required = Number(line.quantity_per_unit) * quantity;
+    const available = availableStock(line.resource);
+    return { resource: line.resource, required, available, short: required > available };
+  });
+
+export const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
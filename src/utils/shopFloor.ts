@@ -0,0 +1,24 @@
+// Pauses and issues reported from the operator view. The rules mirror
+// check_shop_floor_event in init.sql.
+
+export type ReasonCategory = 'pause' | 'issue';
+
+export interface ShopFloorEvent {
+  event_type: string;
+  created_at: string;
+  metadata?: any;
+}
+
+// The latest pause, if it has not been followed by a resume
+export const activePause = (events: ShopFloorEvent[]) => {
+  const latest = events
+    .filter((event) => event.event_type === 'paused' || event.event_type === 'resumed')
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+  return latest?.event_type === 'paused' ? latest : null;
+};
+
+// Rejections come back as "invalid event: <message>"
+export const parseShopFloorError = (message?: string | null) => {
+  const match = message?.match(/invalid event: (.*)$/);
+  return match ? match[1] : null;
+};
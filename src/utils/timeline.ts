@@ -0,0 +1,93 @@
+import { addHours, addDays, startOfDay, startOfWeek, format } from 'date-fns';
+
+export type TimelineZoom = 'shift' | 'day' | 'week';
+
+export const SHIFT_HOURS = 8;
+
+interface ZoomConfig {
+  label: string;
+  spanHours: number;
+  tickHours: number;
+  tickFormat: string;
+}
+
+export const ZOOM_CONFIG: Record<TimelineZoom, ZoomConfig> = {
+  shift: { label: 'Shift', spanHours: SHIFT_HOURS, tickHours: 1, tickFormat: 'HH:mm' },
+  day: { label: 'Day', spanHours: 24, tickHours: 2, tickFormat: 'HH:mm' },
+  week: { label: 'Week', spanHours: 24 * 7, tickHours: 24, tickFormat: 'EEE dd' },
+};
+
+export interface TimelineRange {
+  start: Date;
+  end: Date;
+}
+
+// Snap an arbitrary date to the start of the window that contains it
+export const getTimelineRange = (anchor: Date, zoom: TimelineZoom): TimelineRange => {
+  let start: Date;
+  if (zoom === 'week') {
+    start = startOfWeek(anchor, { weekStartsOn: 1 });
+  } else if (zoom === 'day') {
+    start = startOfDay(anchor);
+  } else {
+    const shiftIndex = Math.floor(anchor.getHours() / SHIFT_HOURS);
+    start = addHours(startOfDay(anchor), shiftIndex * SHIFT_HOURS);
+  }
+  return { start, end: addHours(start, ZOOM_CONFIG[zoom].spanHours) };
+};
+
+export const shiftTimelineAnchor = (anchor: Date, zoom: TimelineZoom, steps: number) =>
+  zoom === 'week' ? addDays(anchor, 7 * steps) : addHours(anchor, ZOOM_CONFIG[zoom].spanHours * steps);
+
+export const getTimelineTicks = (range: TimelineRange, zoom: TimelineZoom) => {
+  const { tickHours, tickFormat } = ZOOM_CONFIG[zoom];
+  const ticks: { date: Date; label: string; offset: number }[] = [];
+  for (let date = range.start; date < range.end; date = addHours(date, tickHours)) {
+    ticks.push({ date, label: format(date, tickFormat), offset: timeToPercent(date, range) });
+  }
+  return ticks;
+};
+
+export const timeToPercent = (date: Date | string, range: TimelineRange) => {
+  const time = new Date(date).getTime();
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  return ((time - start) / (end - start)) * 100;
+};
+
+// Clamp a [start, end) window into the visible range; null when it is off-screen.
+// Open-ended windows run to the right edge.
+export const getBarPosition = (
+  startTime: string,
+  endTime: string | null | undefined,
+  range: TimelineRange
+) => {
+  const left = timeToPercent(startTime, range);
+  const right = endTime ? timeToPercent(endTime, range) : 100;
+  if (right <= 0 || left >= 100) return null;
+  const clampedLeft = Math.max(left, 0);
+  const clampedRight = Math.min(right, 100);
+  return { left: clampedLeft, width: Math.max(clampedRight - clampedLeft, 0.5) };
+};
+
+const SNAP_MINUTES: Record<TimelineZoom, number> = {
+  shift: 15,
+  day: 30,
+  week: 60,
+};
+
+// Convert a horizontal drag distance into a time delta, snapped to the zoom level's grid
+export const pixelsToSnappedMs = (
+  deltaPx: number,
+  trackWidthPx: number,
+  range: TimelineRange,
+  zoom: TimelineZoom
+) => {
+  if (trackWidthPx <= 0) return 0;
+  const rawMs = (deltaPx / trackWidthPx) * (range.end.getTime() - range.start.getTime());
+  const snapMs = SNAP_MINUTES[zoom] * 60 * 1000;
+  return Math.round(rawMs / snapMs) * snapMs;
+};
+
+export const shiftTime = (value: string | null | undefined, deltaMs: number) =>
+  value ? new Date(new Date(value).getTime() + deltaMs).toISOString() : null;
@@ -0,0 +1,99 @@
+// Chart helpers for order_completion_trend and resource_utilisation_trend in
+// init.sql. Buckets without completions are missing from the results, so the
+// series here fill every bucket of the range.
+import { addDays, eachDayOfInterval, eachWeekOfInterval, format, startOfDay, subDays } from 'date-fns';
+import { UtilisationBucket, summariseUtilisation } from './utilisation';
+
+export type TrendBucket = 'day' | 'week';
+
+export const RANGE_PRESET_DAYS = [7, 30, 90];
+
+export interface DateRange {
+  // Both inclusive, as yyyy-MM-dd
+  from: string;
+  to: string;
+}
+
+export const lastDays = (days: number, now = new Date()): DateRange => ({
+  from: format(subDays(now, days - 1), 'yyyy-MM-dd'),
+  to: format(now, 'yyyy-MM-dd'),
+});
+
+// Query bounds for a range: from midnight on the first day to midnight after the last
+export const rangeBounds = (range: DateRange) => ({
+  start: startOfDay(new Date(`${range.from}T00:00`)),
+  end: addDays(startOfDay(new Date(`${range.to}T00:00`)), 1),
+});
+
+export const viewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Weeks start on Monday, as date_trunc('week') does
+export const bucketStarts = (range: DateRange, bucket: TrendBucket) => {
+  const { start, end } = rangeBounds(range);
+  const interval = { start, end: subDays(end, 1) };
+  return bucket === 'week' ? eachWeekOfInterval(interval, { weekStartsOn: 1 }) : eachDayOfInterval(interval);
+};
+
+export const bucketKey = (value: string | Date) => format(new Date(value), 'yyyy-MM-dd');
+
+const bucketLabel = (date: Date, bucket: TrendBucket) =>
+  bucket === 'week' ? format(date, "'Wk of' MMM dd") : format(date, 'MMM dd');
+
+export interface CompletionBucket {
+  bucket: string;
+  product_name: string;
+  completed_orders: number;
+  completed_units: number;
+  avg_lead_time_hours: number | string | null;
+}
+
+// Orders, units and average lead time per bucket across all products
+export const completionSeries = (rows: CompletionBucket[], range: DateRange, bucket: TrendBucket) => {
+  const byBucket: Record<string, { orders: number; units: number; leadHours: number }> = {};
+  rows.forEach((row) => {
+    const key = bucketKey(row.bucket);
+    if (!byBucket[key]) byBucket[key] = { orders: 0, units: 0, leadHours: 0 };
+    byBucket[key].orders += Number(row.completed_orders);
+    byBucket[key].units += Number(row.completed_units);
+    byBucket[key].leadHours += Number(row.avg_lead_time_hours || 0) * Number(row.completed_orders);
+  });
+  return bucketStarts(range, bucket).map((date) => {
+    const totals = byBucket[bucketKey(date)];
+    return {
+      label: bucketLabel(date, bucket),
+      orders: totals?.orders || 0,
+      units: totals?.units || 0,
+      avgLeadHours: totals ? Math.round((totals.leadHours / totals.orders) * 10) / 10 : null,
+    };
+  });
+};
+
+// Units and orders completed per product over the whole range, most first
+export const throughputByProduct = (rows: CompletionBucket[]) => {
+  const byProduct: Record<string, { orders: number; units: number }> = {};
+  rows.forEach((row) => {
+    if (!byProduct[row.product_name]) byProduct[row.product_name] = { orders: 0, units: 0 };
+    byProduct[row.product_name].orders += Number(row.completed_orders);
+    byProduct[row.product_name].units += Number(row.completed_units);
+  });
+  return Object.entries(byProduct)
+    .map(([name, totals]) => ({ name, ...totals }))
+    .sort((a, b) => b.units - a.units);
+};
+
+// Utilisation of machines and of workers per bucket
+export const utilisationSeries = (rows: UtilisationBucket[], range: DateRange, bucket: TrendBucket) => {
+  const byBucket: Record<string, UtilisationBucket[]> = {};
+  rows.forEach((row) => {
+    const key = bucketKey(row.bucket);
+    if (!byBucket[key]) byBucket[key] = [];
+    byBucket[key].push(row);
+  });
+  return bucketStarts(range, bucket).map((date) => {
+    const byType: Record<string, number | null> = {};
+    summariseUtilisation(byBucket[bucketKey(date)] || [], (row) => row.resource_type).forEach((group) => {
+      byType[group.name] = group.percent === null ? null : Math.round(group.percent);
+    });
+    return { label: bucketLabel(date, bucket), machine: byType.machine ?? null, worker: byType.worker ?? null };
+  });
+};
@@ -0,0 +1,58 @@
+// Utilisation from resource_utilisation_trend in init.sql: booked hours over
+// the hours a resource can work, net of its shifts, downtime windows and
+// time spent down.
+
+export const DEFAULT_BOTTLENECK_THRESHOLD = 85;
+
+const THRESHOLD_KEY = 'production-scheduler.bottleneck-threshold';
+
+export const loadBottleneckThreshold = () => {
+  const stored = Number(localStorage.getItem(THRESHOLD_KEY));
+  return stored > 0 ? stored : DEFAULT_BOTTLENECK_THRESHOLD;
+};
+
+export const saveBottleneckThreshold = (threshold: number) =>
+  localStorage.setItem(THRESHOLD_KEY, String(threshold));
+
+export interface UtilisationBucket {
+  bucket: string;
+  resource_id: string;
+  resource_type: string;
+  booked_hours: number | string;
+  available_hours: number | string;
+  utilisation_percent?: number | string | null;
+  resource?: { name: string } | null;
+}
+
+// Null when there was no time to book
+export const utilisationPercent = (booked: number, available: number) =>
+  available > 0 ? (booked / available) * 100 : null;
+
+// Booked and available hours summed per group, e.g. per resource or type
+export const summariseUtilisation = (rows: UtilisationBucket[], groupBy: (row: UtilisationBucket) => string) => {
+  const groups: Record<string, { booked: number; available: number }> = {};
+  rows.forEach((row) => {
+    const key = groupBy(row);
+    if (!groups[key]) groups[key] = { booked: 0, available: 0 };
+    groups[key].booked += Number(row.booked_hours);
+    groups[key].available += Number(row.available_hours);
+  });
+  return Object.entries(groups).map(([name, totals]) => ({
+    name,
+    ...totals,
+    percent: utilisationPercent(totals.booked, totals.available),
+  }));
+};
+
+export const formatPercent = (percent: number | null) => (percent === null ? '—' : `${Math.round(percent)}%`);
+
+// Heatmap cell: greener with load, amber near the threshold, red above it
+export const heatColor = (percent: number | null, threshold: number) => {
+  if (percent === null) return 'bg-gray-100 text-gray-400';
+  if (percent >= threshold) return 'bg-red-500 text-white';
+  if (percent >= threshold * 0.85) return 'bg-amber-300 text-amber-900';
+  if (percent >= 50) return 'bg-green-400 text-green-900';
+  if (percent >= 20) return 'bg-green-200 text-green-900';
+  if (percent > 0) return 'bg-green-100 text-green-800';
+  return 'bg-white text-gray-400';
+};
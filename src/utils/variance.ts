@@ -0,0 +1,20 @@
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Positive means late, negative means early; null when either side is missing
+export const varianceHours = (scheduled?: string | null, actual?: string | null) => {
+  if (!scheduled || !actual) return null;
+  return (new Date(actual).getTime() - new Date(scheduled).getTime()) / MS_PER_HOUR;
+};
+
+export const formatVariance = (hours: number) => {
+  const rounded = Math.round(Math.abs(hours) * 10) / 10;
+  if (rounded === 0) return 'on time';
+  const amount = rounded >= 48 ? `${(rounded / 24).toFixed(1)}d` : `${rounded}h`;
+  return hours > 0 ? `${amount} late` : `${amount} early`;
+};
+
+export const varianceColor = (hours: number) => {
+  if (hours > 0.05) return 'text-red-600';
+  if (hours < -0.05) return 'text-green-600';
+  return 'text-gray-600';
+};